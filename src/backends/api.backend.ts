@@ -0,0 +1,320 @@
+/**
+ * Gemini REST API Backend
+ *
+ * Calls the Gemini generateContent HTTP API directly with GEMINI_API_KEY,
+ * avoiding a CLI process per call. The API cannot read files, so @path
+ * references are expanded here: each path is checked with validatePath and
+ * its contents (or, for directories, the non-ignored files inside) are
+ * appended to the prompt. HTTP 429 responses are raised as GeminiQuotaError so
+ * executeGeminiCLI falls back exactly as it does for the CLI.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { API, BACKENDS } from "../constants.js";
+import { getApiBaseUrl } from "../utils/config.js";
+import {
+  CommandCancelledError,
+  GeminiAuthError,
+  GeminiError,
+  GeminiQuotaError,
+  PathNotAllowedError,
+} from "../utils/errors.js";
+import { enumerateFiles } from "../utils/ignorePatterns.js";
+import { Logger } from "../utils/logger.js";
+import { extractAtPathReferences, getProjectRoot, validatePath } from "../utils/pathValidator.js";
+import type { GeminiBackend, BackendResult } from "./types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Subset of the generateContent response used by this backend
+ */
+interface GenerateContentResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+    finishReason?: string;
+  }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    cachedContentTokenCount?: number;
+    thoughtsTokenCount?: number;
+    toolUsePromptTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  modelVersion?: string;
+}
+
+/**
+ * Error body returned by the Gemini API
+ */
+interface ApiErrorBody {
+  error?: {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: Array<{ "@type"?: string; retryDelay?: string }>;
+  };
+}
+
+/**
+ * Result of expanding @path references
+ */
+export interface ExpandedPrompt {
+  /** Prompt with file contents appended */
+  text: string;
+  /** Files whose contents were included (relative to project root) */
+  files: string[];
+  /** Paths that were skipped (missing, binary, too large, over budget) */
+  skipped: string[];
+}
+
+// ============================================================================
+// @path Expansion
+// ============================================================================
+
+/**
+ * Read a file for inlining, or explain why it was skipped
+ */
+function readForPrompt(absolutePath: string, remainingBytes: number): string | { skipped: string } {
+  const size = fs.statSync(absolutePath).size;
+  if (size > API.MAX_FILE_BYTES) {
+    return { skipped: `larger than ${API.MAX_FILE_BYTES} bytes` };
+  }
+  if (size > remainingBytes) {
+    return { skipped: "total size limit reached" };
+  }
+
+  const buffer = fs.readFileSync(absolutePath);
+  if (buffer.includes(0)) {
+    return { skipped: "binary file" };
+  }
+  return buffer.toString("utf-8");
+}
+
+/**
+ * Expand @path references into inline file contents
+ *
+ * Every reference is validated with validatePath; references outside the
+ * project root are rejected. Directories are expanded to their files,
+ * honoring .gitignore and the built-in ignore patterns.
+ *
+ * @param prompt - Prompt containing @path references
+ * @param projectRoot - Project root directory
+ * @returns Expanded prompt plus the files included and skipped
+ */
+export async function expandAtPaths(prompt: string, projectRoot: string): Promise<ExpandedPrompt> {
+  const references = [...new Set(extractAtPathReferences(prompt))];
+  const files: string[] = [];
+  const skipped: string[] = [];
+  const sections: string[] = [];
+  let remainingBytes: number = API.MAX_TOTAL_BYTES;
+
+  const include = (relativePath: string): void => {
+    if (files.includes(relativePath)) return;
+
+    const content = readForPrompt(path.join(projectRoot, relativePath), remainingBytes);
+    if (typeof content !== "string") {
+      skipped.push(`${relativePath} (${content.skipped})`);
+      return;
+    }
+
+    remainingBytes -= Buffer.byteLength(content);
+    files.push(relativePath);
+    sections.push(`--- ${relativePath} ---\n${content}`);
+  };
+
+  for (const reference of references) {
+    const validation = validatePath(reference, projectRoot);
+    if (!validation.allowed) {
+      throw new PathNotAllowedError(
+        `Path not allowed: @${reference} (${validation.reason ?? "outside project root"})`,
+        reference
+      );
+    }
+    if (!validation.exists) {
+      skipped.push(`${reference} (does not exist)`);
+      continue;
+    }
+
+    if (fs.statSync(validation.resolved).isDirectory()) {
+      const listing = await enumerateFiles(validation.resolved, projectRoot, API.MAX_DIRECTORY_FILES);
+      listing.files.forEach(include);
+      if (listing.truncated) {
+        skipped.push(`${reference} (only the first ${API.MAX_DIRECTORY_FILES} files were included)`);
+      }
+    } else {
+      include(path.relative(projectRoot, validation.resolved).split(path.sep).join("/"));
+    }
+  }
+
+  if (sections.length === 0) {
+    return { text: prompt, files, skipped };
+  }
+
+  return {
+    text: `${prompt}\n\n--- Content from referenced files ---\n${sections.join("\n\n")}\n--- End of content ---`,
+    files,
+    skipped,
+  };
+}
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+/**
+ * Convert a non-2xx API response into a typed GeminiError
+ *
+ * 429 keeps "429 RESOURCE_EXHAUSTED" and the retry delay in the message so
+ * the circuit breaker's reset-time parsing applies.
+ */
+async function toApiError(response: Response, model: string): Promise<GeminiError> {
+  let body: ApiErrorBody = {};
+  try {
+    body = (await response.json()) as ApiErrorBody;
+  } catch {
+    // Non-JSON error body; fall back to the status text
+  }
+
+  const status = body.error?.status ?? response.statusText;
+  const message = body.error?.message ?? `HTTP ${response.status}`;
+
+  if (response.status === 429) {
+    const retryDelay = body.error?.details?.find((d) => d.retryDelay)?.retryDelay;
+    const retryAfter = response.headers.get("retry-after");
+    const retryHint = retryDelay
+      ? ` (retryDelay: ${retryDelay})`
+      : retryAfter
+        ? ` (Retry-After: ${retryAfter})`
+        : "";
+    return new GeminiQuotaError(`429 RESOURCE_EXHAUSTED: ${message}${retryHint}`);
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    return new GeminiAuthError(`Gemini API authentication failed (${response.status} ${status}): ${message}`);
+  }
+
+  if (response.status === 404) {
+    return new GeminiError(`Gemini API model ${model} is unavailable (404 ${status}): ${message}`);
+  }
+
+  return new GeminiError(`Gemini API request failed (${response.status} ${status}): ${message}`);
+}
+
+/**
+ * POST a generateContent request and parse the response
+ *
+ * @param url - Full generateContent URL
+ * @param apiKey - Gemini API key
+ * @param body - Request body
+ * @param model - Model name (for error messages)
+ * @param signal - Optional abort signal; aborting rejects with CommandCancelledError
+ * @returns Parsed response body
+ */
+async function generateContent(
+  url: string,
+  apiKey: string,
+  body: unknown,
+  model: string,
+  signal?: AbortSignal
+): Promise<GenerateContentResponse> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", [API.KEY_HEADER]: apiKey },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (response.ok) {
+      return (await response.json()) as GenerateContentResponse;
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new CommandCancelledError(`POST ${url}`);
+    }
+    throw new GeminiError(`Gemini API request failed: ${(error as Error).message}`, {
+      category: "network",
+      cause: error,
+    });
+  }
+
+  throw await toApiError(response, model);
+}
+
+// ============================================================================
+// Backend Implementation
+// ============================================================================
+
+export const apiBackend: GeminiBackend = {
+  name: BACKENDS.API,
+  description: "Calls the Gemini generateContent REST API with GEMINI_API_KEY",
+
+  execute: async ({ prompt, systemPrompt, model, onProgress, signal }): Promise<BackendResult> => {
+    const apiKey = process.env[API.KEY_ENV];
+    if (!apiKey) {
+      throw new GeminiAuthError(`${API.KEY_ENV} is not set; the api backend needs an API key for authentication`);
+    }
+
+    const expanded = await expandAtPaths(prompt, getProjectRoot());
+    for (const skipped of expanded.skipped) {
+      Logger.warn(`api backend: skipped @${skipped}`);
+    }
+    if (expanded.files.length > 0) {
+      const message = `sending ${expanded.files.length} referenced file(s)`;
+      onProgress?.("", { kind: "status", message });
+    }
+
+    const modelName = model ?? API.AUTO_SELECT_MODEL;
+    const url = `${getApiBaseUrl()}/models/${encodeURIComponent(modelName)}:generateContent`;
+
+    const requestStart = Date.now();
+    const data = await generateContent(
+      url,
+      apiKey,
+      {
+        systemInstruction: { parts: [{ text: systemPrompt }] },
+        contents: [{ role: "user", parts: [{ text: expanded.text }] }],
+      },
+      modelName,
+      signal
+    );
+    const apiLatencyMs = Date.now() - requestStart;
+
+    if (data.promptFeedback?.blockReason) {
+      throw new GeminiError(`Gemini API blocked the prompt: ${data.promptFeedback.blockReason}`);
+    }
+
+    const text = (data.candidates?.[0]?.content?.parts ?? [])
+      .map((part) => part.text ?? "")
+      .join("");
+    onProgress?.(text, { kind: "text", message: text });
+
+    const usage = data.usageMetadata ?? {};
+    const tokens = {
+      prompt: usage.promptTokenCount ?? 0,
+      candidates: usage.candidatesTokenCount ?? 0,
+      cached: usage.cachedContentTokenCount ?? 0,
+      thoughts: usage.thoughtsTokenCount ?? 0,
+      tool: usage.toolUsePromptTokenCount ?? 0,
+      total: usage.totalTokenCount ?? 0,
+    };
+
+    return {
+      text,
+      tokensUsed: usage.totalTokenCount,
+      toolCalls: 0,
+      apiLatencyMs,
+      cachedTokens: tokens.cached,
+      models: { [modelName]: { requests: 1, errors: 0, latencyMs: apiLatencyMs, tokens } },
+      filesAccessed: expanded.files,
+      model: data.modelVersion ?? modelName,
+    };
+  },
+};
@@ -0,0 +1,295 @@
+/**
+ * Gemini CLI Backend
+ *
+ * Runs prompts by spawning the Gemini CLI binary in headless mode.
+ * Streams stream-json events by default; set GEMINI_OUTPUT_FORMAT=json for
+ * older CLI versions. Large prompts are piped through stdin instead of -p so
+ * they cannot exceed OS argument-length limits.
+ */
+
+import { BACKENDS, CLI, DEFAULTS } from "../constants.js";
+import type { ProgressCallback } from "../types.js";
+import { executeCommand, type ExecuteCommandOptions } from "../utils/commandExecutor.js";
+import { getPromptTransportConfig, type PromptTransport } from "../utils/config.js";
+import { createGeminiError } from "../utils/errors.js";
+import {
+  createStreamJsonParser,
+  describeToolUse,
+  parseGeminiStats,
+  type StreamJsonEvent,
+} from "../utils/geminiOutputParser.js";
+import { Logger } from "../utils/logger.js";
+import type { GeminiBackend, BackendResult } from "./types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Output format passed to Gemini CLI
+ */
+type OutputFormat = (typeof CLI.OUTPUT_FORMATS)[keyof typeof CLI.OUTPUT_FORMATS];
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Get the Gemini CLI output format from environment or default
+ * Streaming is the default; set GEMINI_OUTPUT_FORMAT=json for older CLI versions
+ *
+ * @returns Output format to request from Gemini CLI
+ */
+function getOutputFormat(): OutputFormat {
+  const envValue = process.env.GEMINI_OUTPUT_FORMAT;
+  if (envValue === CLI.OUTPUT_FORMATS.JSON || envValue === CLI.OUTPUT_FORMATS.STREAM_JSON) {
+    return envValue;
+  }
+  return DEFAULTS.OUTPUT_FORMAT;
+}
+
+/**
+ * Decide whether a prompt is passed as -p or piped through stdin
+ * There is no temp-file transport: Gemini CLI has no flag to read the prompt
+ * from a file, and an @file reference is subject to its workspace sandbox.
+ *
+ * @param prompt - The full prompt to send
+ * @param transport - Configured transport mode
+ * @param argMaxBytes - Auto-mode threshold in UTF-8 bytes
+ * @returns true if the prompt should be written to stdin
+ */
+export function shouldUseStdin(prompt: string, transport: PromptTransport, argMaxBytes: number): boolean {
+  switch (transport) {
+    case CLI.PROMPT_TRANSPORTS.STDIN:
+      return true;
+    case CLI.PROMPT_TRANSPORTS.ARGV:
+      return false;
+    default:
+      return Buffer.byteLength(prompt, "utf-8") > argMaxBytes;
+  }
+}
+
+/**
+ * Build Gemini CLI arguments
+ *
+ * @param prompt - The full prompt to send, or null when it is piped through stdin
+ * @param model - Model name or null for auto-select
+ * @param outputFormat - Output format to request (default: json)
+ * @returns Array of CLI arguments
+ */
+function buildGeminiArgs(
+  prompt: string | null,
+  model: string | null,
+  outputFormat: OutputFormat = CLI.OUTPUT_FORMATS.JSON
+): string[] {
+  const args: string[] = [];
+
+  // Add model flag if specified (Tier 3 uses auto-select with no -m flag)
+  if (model !== null) {
+    args.push(CLI.FLAGS.MODEL, model);
+  }
+
+  // Required flags for headless mode
+  args.push(CLI.FLAGS.YES); // Auto-approve file reads
+  args.push(CLI.FLAGS.OUTPUT_FORMAT, outputFormat);
+
+  // Add prompt (without -p, the CLI reads the prompt from stdin in headless mode)
+  if (prompt !== null) {
+    args.push(CLI.FLAGS.PROMPT, prompt);
+  }
+
+  // NEVER add --yolo flag (read-only enforcement)
+
+  return args;
+}
+
+/**
+ * Parse JSON output from Gemini CLI
+ *
+ * Usage comes from the `stats` object (per-model tokens and API latency,
+ * tool calls by name). This format carries no tool events, so accessed
+ * files come only from explicit file and tool-call fields of the response.
+ *
+ * @param output - Raw stdout from Gemini CLI
+ * @returns Parsed response data
+ */
+export function parseGeminiOutput(output: string): BackendResult {
+  try {
+    // Try to parse as JSON
+    const parsed = JSON.parse(output);
+
+    // Handle different possible response structures
+    if (typeof parsed === "object" && parsed !== null) {
+      // Look for common response fields
+      const text =
+        parsed.response ||
+        parsed.text ||
+        parsed.content ||
+        parsed.answer ||
+        parsed.result ||
+        (typeof parsed === "string" ? parsed : JSON.stringify(parsed, null, 2));
+
+      const stats = parseGeminiStats(parsed.stats);
+
+      return {
+        text: String(text),
+        tokensUsed: stats.tokensUsed,
+        toolCalls: stats.toolCalls ?? 0,
+        apiLatencyMs: stats.apiLatencyMs,
+        cachedTokens: stats.cachedTokens,
+        models: stats.models,
+        toolCallsByName: stats.toolCallsByName,
+        filesAccessed: extractFilesFromResponse(parsed),
+      };
+    }
+
+    return { text: output };
+  } catch {
+    // If not valid JSON, return raw output
+    // This handles cases where Gemini outputs plain text
+    return { text: output };
+  }
+}
+
+/**
+ * Extract accessed file paths from a json-format Gemini response
+ * Only explicit file and tool-call fields count; paths the answer text merely
+ * cites are reported separately as filesCited.
+ *
+ * @param response - Parsed Gemini response object
+ * @returns Array of file paths that were accessed
+ */
+function extractFilesFromResponse(response: unknown): string[] {
+  const files: string[] = [];
+
+  if (typeof response !== "object" || response === null) {
+    return files;
+  }
+
+  const obj = response as Record<string, unknown>;
+
+  // Check common fields for file references
+  if (Array.isArray(obj.filesAccessed)) {
+    files.push(...(obj.filesAccessed as string[]));
+  }
+
+  if (Array.isArray(obj.files)) {
+    files.push(...(obj.files as string[]));
+  }
+
+  // Extract from tool calls if present
+  if (Array.isArray(obj.tool_calls)) {
+    for (const call of obj.tool_calls as Array<Record<string, unknown>>) {
+      if (call.name === "read_file" && typeof call.path === "string") {
+        files.push(call.path);
+      }
+    }
+  }
+
+  // Deduplicate
+  return [...new Set(files)];
+}
+
+/**
+ * Forward a stream-json event to the progress callback
+ *
+ * @param event - Parsed stream event
+ * @param onProgress - Progress callback to notify
+ */
+function forwardStreamEvent(event: StreamJsonEvent, onProgress: ProgressCallback): void {
+  switch (event.type) {
+    case "message":
+      if (event.role === "assistant" && event.content) {
+        onProgress(event.content, { kind: "text", message: event.content });
+      }
+      break;
+    case "tool_use":
+      onProgress("", { kind: "tool_use", message: describeToolUse(event) });
+      break;
+    case "error":
+      onProgress("", { kind: "status", message: event.message });
+      break;
+    default:
+      break;
+  }
+}
+
+/**
+ * Run Gemini CLI with stream-json output, forwarding events as they arrive
+ *
+ * @param args - CLI arguments (must request stream-json output)
+ * @param onProgress - Optional callback for partial text and tool activity
+ * @param options - Abort signal and optional stdin input for the CLI process
+ * @returns Parsed output aggregated from the event stream
+ */
+async function runStreaming(
+  args: string[],
+  onProgress: ProgressCallback | undefined,
+  options: ExecuteCommandOptions
+): Promise<BackendResult> {
+  const parser = createStreamJsonParser(
+    onProgress ? (event) => forwardStreamEvent(event, onProgress) : undefined
+  );
+
+  const output = await executeCommand(
+    CLI.COMMANDS.GEMINI,
+    args,
+    (chunk) => parser.write(chunk),
+    options
+  );
+  const summary = parser.end();
+
+  // No events at all: the CLI ignored the format flag, so parse as a single blob
+  if (summary.eventCount === 0) {
+    return parseGeminiOutput(output);
+  }
+
+  // Surface stream-level failures as errors so quota fallback still applies
+  if (summary.error) {
+    throw createGeminiError(summary.error);
+  }
+
+  return {
+    text: summary.text,
+    tokensUsed: summary.tokensUsed,
+    toolCalls: summary.toolCalls,
+    apiLatencyMs: summary.apiLatencyMs,
+    cachedTokens: summary.cachedTokens,
+    models: summary.models,
+    toolCallsByName: summary.toolCallsByName,
+    filesAccessed: summary.filesAccessed,
+    model: summary.model,
+  };
+}
+
+// ============================================================================
+// Backend Implementation
+// ============================================================================
+
+export const cliBackend: GeminiBackend = {
+  name: BACKENDS.CLI,
+  description: "Spawns the Gemini CLI binary (gemini -p) in headless, read-only mode",
+
+  execute: async ({ prompt, systemPrompt, model, onProgress, signal }) => {
+    const finalPrompt = `${systemPrompt}\n\n---\n\nUSER REQUEST:\n${prompt}`;
+    const outputFormat = getOutputFormat();
+    const { transport, argMaxBytes } = getPromptTransportConfig();
+    const useStdin = shouldUseStdin(finalPrompt, transport, argMaxBytes);
+    const args = buildGeminiArgs(useStdin ? null : finalPrompt, model, outputFormat);
+    const options: ExecuteCommandOptions = {
+      signal,
+      killTree: true,
+      ...(useStdin && { input: finalPrompt }),
+    };
+
+    if (useStdin) {
+      Logger.debug(`Passing ${Buffer.byteLength(finalPrompt, "utf-8")}-byte prompt to Gemini CLI via stdin`);
+    }
+
+    if (outputFormat === CLI.OUTPUT_FORMATS.STREAM_JSON) {
+      return runStreaming(args, onProgress, options);
+    }
+
+    return parseGeminiOutput(await executeCommand(CLI.COMMANDS.GEMINI, args, onProgress, options));
+  },
+};
@@ -0,0 +1,319 @@
+/**
+ * Fake Gemini Backend
+ *
+ * Deterministic offline backend for local development and tests. Answers
+ * come from a script of rules (set programmatically or loaded from the file
+ * named by backend.fakeScript / BGMCP_FAKE_SCRIPT). The first rule that
+ * matches the request and has uses left wins; without a match a canned
+ * answer echoing the prompt is returned. Rules can also emit tool events,
+ * wait, or fail with quota/auth/not-found errors to exercise fallback paths.
+ */
+
+import * as fs from "fs";
+import { z } from "zod";
+import { BACKENDS, CLI } from "../constants.js";
+import { getFakeScriptPath } from "../utils/config.js";
+import {
+  CommandCancelledError,
+  GeminiAuthError,
+  GeminiCliNotFoundError,
+  GeminiError,
+  GeminiQuotaError,
+} from "../utils/errors.js";
+import { describeToolUse, getToolUseFiles } from "../utils/geminiOutputParser.js";
+import { Logger } from "../utils/logger.js";
+import type { GeminiBackend, BackendRequest, BackendResult } from "./types.js";
+
+// ============================================================================
+// Script Schema
+// ============================================================================
+
+/**
+ * Failure a rule can simulate; messages match what the Gemini CLI prints
+ */
+const FAKE_ERRORS = {
+  quota: "429 RESOURCE_EXHAUSTED: Quota exceeded for quota metric 'Generate Content API requests per minute'",
+  auth: "Gemini CLI authentication required: please login or set GEMINI_API_KEY",
+  not_found: "Failed to spawn command 'gemini': spawn gemini ENOENT",
+  failure: "Gemini CLI exited with an internal error",
+} as const;
+
+/**
+ * Error class raised for each simulated failure
+ */
+const FAKE_ERROR_CLASSES: Record<keyof typeof FAKE_ERRORS, typeof GeminiError> = {
+  quota: GeminiQuotaError,
+  auth: GeminiAuthError,
+  not_found: GeminiCliNotFoundError,
+  failure: GeminiError,
+};
+
+const fakeToolEventSchema = z
+  .object({
+    tool: z.string().min(1).describe("Gemini CLI tool name (e.g., read_file)"),
+    parameters: z.record(z.unknown()).optional(),
+  })
+  .strict();
+
+const fakeRuleSchema = z
+  .object({
+    match: z
+      .string()
+      .optional()
+      .describe("Case-insensitive substring the user prompt must contain"),
+    model: z
+      .string()
+      .optional()
+      .describe("Only match attempts with this model ('auto' for auto-select)"),
+    tool: z
+      .enum(["quick_query", "deep_research", "analyze_directory"])
+      .optional()
+      .describe("Only match requests from this tool"),
+    times: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("How many requests this rule answers (default: unlimited)"),
+    delayMs: z.number().int().nonnegative().optional().describe("Wait before answering"),
+    toolEvents: z.array(fakeToolEventSchema).optional(),
+    answer: z.string().optional(),
+    error: z
+      .enum(["quota", "auth", "not_found", "failure"])
+      .optional()
+      .describe("Fail the attempt with this kind of error"),
+    errorMessage: z.string().optional().describe("Overrides the default message for `error`"),
+    tokensUsed: z.number().int().nonnegative().optional(),
+    filesAccessed: z.array(z.string()).optional(),
+  })
+  .strict();
+
+/**
+ * Fake backend script schema
+ */
+export const fakeScriptSchema = z
+  .object({
+    rules: z.array(fakeRuleSchema).default([]),
+  })
+  .strict();
+
+/**
+ * A fake backend script
+ */
+export type FakeScript = z.input<typeof fakeScriptSchema>;
+
+/**
+ * A single scripted rule
+ */
+export type FakeRule = z.infer<typeof fakeRuleSchema>;
+
+/**
+ * A request seen by the fake backend (for test assertions)
+ */
+export interface FakeCall {
+  toolName: BackendRequest["toolName"];
+  model: string | null;
+  prompt: string;
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+/**
+ * Active script with per-rule use counts
+ * `source` is the file path, or "inline" for setFakeScript()
+ */
+let active: { source: string; rules: FakeRule[]; uses: number[] } | null = null;
+
+/**
+ * Script set programmatically (takes precedence over the configured file)
+ */
+let inlineScript: FakeRule[] | null = null;
+
+/**
+ * Requests received since the last reset
+ */
+const calls: FakeCall[] = [];
+
+/**
+ * Parse and validate a script
+ */
+function parseScript(script: unknown, source: string): FakeRule[] {
+  const result = fakeScriptSchema.safeParse(script);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join(", ");
+    throw new Error(`Invalid fake backend script (${source}): ${issues}`);
+  }
+  return result.data.rules;
+}
+
+/**
+ * Get the active rules, (re)loading the script file when its path changes
+ */
+function getActiveRules(): { rules: FakeRule[]; uses: number[] } {
+  if (inlineScript) {
+    if (active?.source !== "inline") {
+      active = { source: "inline", rules: inlineScript, uses: inlineScript.map(() => 0) };
+    }
+    return active;
+  }
+
+  const scriptPath = getFakeScriptPath();
+  if (!scriptPath) {
+    active = null;
+    return { rules: [], uses: [] };
+  }
+
+  if (active?.source !== scriptPath) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(scriptPath, "utf-8"));
+    } catch (err) {
+      throw new Error(`Cannot load fake backend script ${scriptPath}: ${(err as Error).message}`);
+    }
+    const rules = parseScript(raw, scriptPath);
+    active = { source: scriptPath, rules, uses: rules.map(() => 0) };
+    Logger.info(`Fake backend: loaded ${rules.length} rules from ${scriptPath}`);
+  }
+
+  return active;
+}
+
+/**
+ * Set the script programmatically (validated), or null to use the configured file
+ *
+ * @param script - Script object
+ */
+export function setFakeScript(script: FakeScript | null): void {
+  inlineScript = script === null ? null : parseScript(script, "inline");
+  active = null;
+}
+
+/**
+ * Clear the script, use counts and recorded calls
+ */
+export function resetFakeBackend(): void {
+  inlineScript = null;
+  active = null;
+  calls.length = 0;
+}
+
+/**
+ * Get the requests received since the last reset, oldest first
+ */
+export function getFakeCalls(): FakeCall[] {
+  return [...calls];
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Check whether a rule applies to a request
+ */
+function ruleMatches(rule: FakeRule, request: BackendRequest): boolean {
+  if (rule.tool && rule.tool !== request.toolName) {
+    return false;
+  }
+  if (rule.model && rule.model !== (request.model ?? "auto")) {
+    return false;
+  }
+  if (rule.match && !request.prompt.toLowerCase().includes(rule.match.toLowerCase())) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Wait for a delay, rejecting with CommandCancelledError if the signal aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CommandCancelledError(CLI.COMMANDS.GEMINI));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CommandCancelledError(CLI.COMMANDS.GEMINI));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Files read by a rule's tool events, as the CLI backend would report them
+ */
+function toolEventFiles(rule: FakeRule): string[] {
+  return (rule.toolEvents ?? []).flatMap((event) =>
+    getToolUseFiles({ type: "tool_use", tool_name: event.tool, parameters: event.parameters })
+  );
+}
+
+/**
+ * Build the canned answer used when no rule matches
+ */
+function defaultAnswer(request: BackendRequest): string {
+  return `Fake Gemini response (${request.model ?? "auto"}) for ${request.toolName}: ${request.prompt}`;
+}
+
+export const fakeBackend: GeminiBackend = {
+  name: BACKENDS.FAKE,
+  description: "Deterministic offline backend driven by a script (no Gemini CLI or network)",
+
+  execute: async (request): Promise<BackendResult> => {
+    const { onProgress, signal } = request;
+    calls.push({ toolName: request.toolName, model: request.model, prompt: request.prompt });
+
+    const { rules, uses } = getActiveRules();
+    const index = rules.findIndex(
+      (rule, i) => (rule.times === undefined || uses[i] < rule.times) && ruleMatches(rule, request)
+    );
+    const rule: FakeRule = index >= 0 ? rules[index] : {};
+    if (index >= 0) {
+      uses[index]++;
+    }
+
+    if (rule.delayMs) {
+      await delay(rule.delayMs, signal);
+    } else if (signal?.aborted) {
+      throw new CommandCancelledError(CLI.COMMANDS.GEMINI);
+    }
+
+    for (const [i, event] of (rule.toolEvents ?? []).entries()) {
+      onProgress?.("", {
+        kind: "tool_use",
+        message: describeToolUse({
+          type: "tool_use",
+          tool_name: event.tool,
+          tool_id: `fake-${i + 1}`,
+          parameters: event.parameters,
+        }),
+      });
+    }
+
+    if (rule.error) {
+      throw new FAKE_ERROR_CLASSES[rule.error](rule.errorMessage ?? FAKE_ERRORS[rule.error]);
+    }
+
+    const text = rule.answer ?? defaultAnswer(request);
+    onProgress?.(text, { kind: "text", message: text });
+
+    return {
+      text,
+      tokensUsed: rule.tokensUsed ?? 0,
+      toolCalls: rule.toolEvents?.length ?? 0,
+      filesAccessed: [...(rule.filesAccessed ?? []), ...toolEventFiles(rule)],
+      model: request.model ?? "fake-auto",
+    };
+  },
+};
@@ -0,0 +1,52 @@
+/**
+ * Backend registry for Better Gemini MCP Server
+ * Collects the available Gemini backends and selects one from config
+ */
+
+import type { BackendName } from "../constants.js";
+import { getBackendName, type ServerConfig } from "../utils/config.js";
+import { cliBackend } from "./cli.backend.js";
+import { apiBackend } from "./api.backend.js";
+import { fakeBackend } from "./fake.backend.js";
+import type { GeminiBackend } from "./types.js";
+
+// ============================================================================
+// Backend Registry
+// ============================================================================
+
+/**
+ * All available backends, keyed by name
+ */
+export const backendRegistry: Record<BackendName, GeminiBackend> = {
+  cli: cliBackend,
+  api: apiBackend,
+  fake: fakeBackend,
+};
+
+/**
+ * Get the backend selected by config (backend.type) or BGMCP_BACKEND
+ *
+ * @param config - Loaded configuration (default: loadConfig())
+ * @returns The selected backend (CLI by default)
+ */
+export function getBackend(config?: ServerConfig): GeminiBackend {
+  return backendRegistry[getBackendName(config)];
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export { cliBackend } from "./cli.backend.js";
+export { apiBackend, expandAtPaths, type ExpandedPrompt } from "./api.backend.js";
+export {
+  fakeBackend,
+  fakeScriptSchema,
+  setFakeScript,
+  resetFakeBackend,
+  getFakeCalls,
+  type FakeScript,
+  type FakeRule,
+  type FakeCall,
+} from "./fake.backend.js";
+export type { GeminiBackend, BackendRequest, BackendResult } from "./types.js";
@@ -0,0 +1,66 @@
+/**
+ * Gemini backend types
+ * Defines the GeminiBackend interface implemented by every backend
+ */
+
+import type { BackendName } from "../constants.js";
+import type { ProgressCallback, UsageBreakdown } from "../types.js";
+import type { ToolName } from "../utils/geminiExecutor.js";
+
+// ============================================================================
+// Request / Result
+// ============================================================================
+
+/**
+ * A single attempt to run a prompt against one model
+ */
+export interface BackendRequest {
+  /** The user's prompt (focus/style instructions already applied) */
+  prompt: string;
+  /** System prompt to prepend or send as a system instruction */
+  systemPrompt: string;
+  /** Model to use, or null for auto-select */
+  model: string | null;
+  /** Tool initiating the request */
+  toolName: ToolName;
+  /** Optional callback for partial text, tool activity and status */
+  onProgress?: ProgressCallback;
+  /** Aborts the attempt when the client cancels */
+  signal?: AbortSignal;
+}
+
+/**
+ * Output of a successful attempt
+ */
+export interface BackendResult extends UsageBreakdown {
+  text: string;
+  tokensUsed?: number;
+  toolCalls?: number;
+  filesAccessed?: string[];
+  /** Model reported by the backend (useful for auto-select) */
+  model?: string;
+}
+
+// ============================================================================
+// GeminiBackend Interface
+// ============================================================================
+
+/**
+ * A way of running prompts against Gemini
+ *
+ * Backends run exactly one attempt; model fallback, the quota circuit
+ * breaker and cancellation handling stay in executeGeminiCLI. Failures
+ * should be typed GeminiErrors (utils/errors.ts): quota failures must be
+ * GeminiQuotaError so fallback applies, and cancellation must reject with
+ * CommandCancelledError.
+ */
+export interface GeminiBackend {
+  /** Backend name as used in config and BGMCP_BACKEND */
+  name: BackendName;
+
+  /** Human-readable description for diagnostics */
+  description: string;
+
+  /** Run the prompt once with the given model */
+  execute: (request: BackendRequest) => Promise<BackendResult>;
+}
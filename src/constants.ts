@@ -28,14 +28,75 @@ export const ERROR_CODES = {
   QUOTA_EXCEEDED: "QUOTA_EXCEEDED",
   /** Chunk cache key not found or expired */
   CACHE_EXPIRED: "CACHE_EXPIRED",
+  /** Chunk cache entry was evicted to stay within the cache limits */
+  CACHE_EVICTED: "CACHE_EVICTED",
   /** Requested chunk index out of range */
   INVALID_CHUNK_INDEX: "INVALID_CHUNK_INDEX",
+  /** Requested section heading not found in the cached response */
+  SECTION_NOT_FOUND: "SECTION_NOT_FOUND",
+  /** Tool call cancelled by the client */
+  CANCELLED: "CANCELLED",
+  /** Async job ID not found or expired */
+  JOB_NOT_FOUND: "JOB_NOT_FOUND",
+  /** Async job has not finished yet */
+  JOB_NOT_COMPLETE: "JOB_NOT_COMPLETE",
   /** Unexpected server error */
   INTERNAL: "INTERNAL",
 } as const;
 
 export type ErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
 
+// ============================================================================
+// Prompt Instructions
+// ============================================================================
+
+/**
+ * Focus area instructions prepended to query prompts
+ */
+export const FOCUS_INSTRUCTIONS: Record<string, string> = {
+  security: "Focus on security implications, vulnerabilities, attack vectors, and security best practices.",
+  architecture: "Focus on architectural patterns, design decisions, component relationships, and structural concerns.",
+  performance: "Focus on performance characteristics, bottlenecks, optimization opportunities, and efficiency.",
+  general: "", // No additional focus instructions
+};
+
+/**
+ * Response style instructions prepended to query prompts
+ */
+export const STYLE_INSTRUCTIONS: Record<string, string> = {
+  concise: "Provide a brief, focused response with only essential information.",
+  normal: "Provide a balanced response with key details and explanations.",
+  detailed: "Provide a comprehensive response with thorough analysis and examples.",
+};
+
+// ============================================================================
+// MCP Resources
+// ============================================================================
+
+export const RESOURCES = {
+  /** Full cached response: bgmcp://cache/<cacheKey> */
+  CACHE_URI_PREFIX: "bgmcp://cache/",
+  /** One chunk of a cached response */
+  CHUNK_URI_TEMPLATE: "bgmcp://cache/{cacheKey}/chunk/{chunkIndex}",
+  /** Completed async job result: bgmcp://job/<jobId> */
+  JOB_URI_PREFIX: "bgmcp://job/",
+  /** How often subscribed resources are checked for expiry or eviction */
+  WATCH_INTERVAL_MS: 30 * 1000,
+  /** JSON-RPC error code for unknown resources (MCP specification) */
+  NOT_FOUND_ERROR_CODE: -32002,
+} as const;
+
+// ============================================================================
+// Argument Completion
+// ============================================================================
+
+export const COMPLETION = {
+  /** Suggestions returned per request (MCP limit) */
+  MAX_VALUES: 100,
+  /** Arguments whose values are project paths */
+  PATH_ARGUMENTS: ["path", "paths", "file", "files", "directory", "dir"],
+} as const;
+
 // ============================================================================
 // Error Messages
 // ============================================================================
@@ -49,9 +110,37 @@ export const ERROR_MESSAGES = {
   AUTH_MISSING: "Gemini CLI authentication not configured. Run 'gemini' and select 'Login with Google', or set GEMINI_API_KEY environment variable.",
   PATH_NOT_ALLOWED: "Path is outside project root",
   CACHE_EXPIRED: "Cache key not found or expired. Re-run original query to regenerate response.",
+  CACHE_EVICTED: "Cache entry was evicted to make room for newer responses. Re-run original query to regenerate response.",
   INVALID_CHUNK_INDEX: "Requested chunk index out of range",
+  SECTION_NOT_FOUND: "No heading in the cached response matches the requested section",
+  CANCELLED: "Tool call was cancelled by the client. The Gemini CLI process has been stopped.",
+  JOB_NOT_FOUND: "Job not found or expired. Finished jobs are kept for 1 hour.",
+  JOB_NOT_COMPLETE: "Job is still running",
+  JOB_INTERRUPTED: "Job was interrupted by a server restart before it finished",
+  JOB_CANCELLED: "Job was cancelled with cancel_job before it finished",
+  ALL_MODELS_EXHAUSTED: "Quota exceeded: every model in the fallback chain is in quota cooldown",
 } as const;
 
+/**
+ * Recovery hint returned with each error code (details.nextStep)
+ */
+export const ERROR_NEXT_STEPS: Record<ErrorCode, string> = {
+  INVALID_ARGUMENT: "Fix the reported arguments and call the tool again",
+  PATH_NOT_ALLOWED: "Use validate_paths tool to check which paths are accessible, or adjust paths to be within project root",
+  GEMINI_CLI_NOT_FOUND: "Install Gemini CLI: npm install -g @google/gemini-cli, or run setup wizard: npx better-gemini-mcp init",
+  GEMINI_CLI_ERROR: "Check server logs for details",
+  AUTH_MISSING: "Authenticate Gemini CLI: run 'gemini' and select 'Login with Google', or set GEMINI_API_KEY environment variable",
+  QUOTA_EXCEEDED: "Quota exhausted after fallback. Wait for quota reset (see retryAfter when present) or upgrade plan.",
+  CACHE_EXPIRED: "Re-run the original query to regenerate the response",
+  CACHE_EVICTED: "Re-run the original query now; evicted responses do not come back",
+  INVALID_CHUNK_INDEX: "Request a chunk index between 1 and the total number of chunks",
+  SECTION_NOT_FOUND: "Pick a heading from the table of contents (toc) returned by fetch_chunk",
+  CANCELLED: "The call was cancelled; re-run it if the answer is still needed",
+  JOB_NOT_FOUND: "Start a new job with deep_research (async: true)",
+  JOB_NOT_COMPLETE: "Poll get_job_status until status is 'completed' or 'failed', then call get_job_result (or stop it with cancel_job)",
+  INTERNAL: "Check server logs for details",
+};
+
 // ============================================================================
 // Status Messages
 // ============================================================================
@@ -60,6 +149,7 @@ export const STATUS_MESSAGES = {
   QUOTA_SWITCHING: "🚫 Primary model quota exceeded, switching to fallback model...",
   FALLBACK_RETRY: "⚡ Retrying with fallback model...",
   FALLBACK_SUCCESS: "✅ Fallback model completed successfully",
+  QUOTA_COOLDOWN_SKIP: "⏭️ Skipping model in quota cooldown",
   AUTO_SELECT_RETRY: "🔄 Retrying with auto-selected model...",
   PROCESSING_START: "🔍 Starting analysis (may take 5-15 minutes for large codebases)",
   PROCESSING_CONTINUE: "⏳ Still processing... Gemini is working on your request",
@@ -104,6 +194,41 @@ export const MODEL_TIERS = {
   },
 } as const;
 
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const CONFIG = {
+  /** Project-level config file (in project root) */
+  PROJECT_FILE: ".better-gemini-mcp.json",
+  /** User-level config directory (under $XDG_CONFIG_HOME or ~/.config) */
+  USER_DIR: "better-gemini-mcp",
+  USER_FILE: "config.json",
+  /** Project-local prompt templates (*.json, relative to the project root) */
+  PROJECT_PROMPTS_DIR: ".better-gemini-mcp/prompts",
+  /** Default state directory for the disk store (under $XDG_STATE_HOME or ~/.local/state) */
+  STATE_DIR: "better-gemini-mcp",
+  /** Prefix for per-tool environment overrides (e.g., BGMCP_QUICK_QUERY_MODELS) */
+  ENV_PREFIX: "BGMCP_",
+  ENV: {
+    CONFIG_PATH: "BGMCP_CONFIG",
+    AUTO_SELECT: "BGMCP_AUTO_SELECT",
+    QUOTA_COOLDOWN_MS: "BGMCP_QUOTA_COOLDOWN_MS",
+    BACKEND: "BGMCP_BACKEND",
+    FAKE_SCRIPT: "BGMCP_FAKE_SCRIPT",
+    API_BASE_URL: "BGMCP_API_BASE_URL",
+    PROMPT_TRANSPORT: "BGMCP_PROMPT_TRANSPORT",
+    PROMPT_ARG_MAX_BYTES: "BGMCP_PROMPT_ARG_MAX_BYTES",
+    STORAGE: "BGMCP_STORAGE",
+    STATE_DIR: "BGMCP_STATE_DIR",
+    STATE_MAX_BYTES: "BGMCP_STATE_MAX_BYTES",
+    CACHE_MAX_ENTRIES: "BGMCP_CACHE_MAX_ENTRIES",
+    CACHE_MAX_BYTES: "BGMCP_CACHE_MAX_BYTES",
+    RESPONSE_CHUNK_SIZE_KB: "BGMCP_RESPONSE_CHUNK_SIZE_KB",
+    RESPONSE_CHUNK_MAX_TOKENS: "BGMCP_RESPONSE_CHUNK_MAX_TOKENS",
+  },
+} as const;
+
 // ============================================================================
 // MCP Protocol Constants
 // ============================================================================
@@ -130,6 +255,8 @@ export const PROTOCOL = {
   },
   // Timeout prevention - keep client alive with periodic updates
   KEEPALIVE_INTERVAL: 25000, // 25 seconds
+  // Minimum gap between streamed partial-text notifications
+  PROGRESS_THROTTLE_MS: 2000, // 2 seconds
 } as const;
 
 // ============================================================================
@@ -157,6 +284,61 @@ export const CLI = {
     JSON: "json",
     STREAM_JSON: "stream-json",
   },
+  // How the prompt reaches the CLI
+  PROMPT_TRANSPORTS: {
+    /** argv below the size threshold, stdin above it */
+    AUTO: "auto",
+    /** Always -p <prompt> */
+    ARGV: "argv",
+    /** Always stdin (keeps the prompt out of ps output) */
+    STDIN: "stdin",
+  },
+} as const;
+
+// ============================================================================
+// Gemini Backends
+// ============================================================================
+
+export const BACKENDS = {
+  /** Spawns the Gemini CLI binary (default) */
+  CLI: "cli",
+  /** Calls the Gemini generateContent REST API directly with GEMINI_API_KEY */
+  API: "api",
+  /** Deterministic offline backend driven by a script (development and tests) */
+  FAKE: "fake",
+} as const;
+
+export type BackendName = (typeof BACKENDS)[keyof typeof BACKENDS];
+
+// ============================================================================
+// State Storage
+// ============================================================================
+
+export const STORAGE = {
+  /** Chunk caches and jobs live in process memory and are lost on restart (default) */
+  MEMORY: "memory",
+  /** Chunk caches and jobs are written as JSON files under the state directory */
+  DISK: "disk",
+} as const;
+
+export type StorageType = (typeof STORAGE)[keyof typeof STORAGE];
+
+// ============================================================================
+// Gemini REST API
+// ============================================================================
+
+export const API = {
+  /** Default base URL (override with backend.baseUrl or BGMCP_API_BASE_URL) */
+  BASE_URL: "https://generativelanguage.googleapis.com/v1beta",
+  /** Environment variable holding the API key */
+  KEY_ENV: "GEMINI_API_KEY",
+  KEY_HEADER: "x-goog-api-key",
+  /** Model used for the auto-select tier (the API has no auto-select) */
+  AUTO_SELECT_MODEL: "gemini-2.5-flash",
+  /** Limits for inlining @path references into the prompt */
+  MAX_FILE_BYTES: 256 * 1024,
+  MAX_TOTAL_BYTES: 4 * 1024 * 1024,
+  MAX_DIRECTORY_FILES: 200,
 } as const;
 
 // ============================================================================
@@ -168,10 +350,50 @@ export const DEFAULTS = {
   MAX_FILES: 500,
   /** Response chunk size in KB (for chunking large responses) */
   RESPONSE_CHUNK_SIZE_KB: 10,
+  /** Smallest accepted per-chunk token budget (smaller budgets split responses into thousands of chunks) */
+  MIN_CHUNK_MAX_TOKENS: 256,
   /** Cache TTL in milliseconds (1 hour) */
   CACHE_TTL_MS: 3600000,
+  /** Chunked responses kept before the least recently used is evicted */
+  CACHE_MAX_ENTRIES: 100,
+  /** Cached bytes (chunks and original responses) kept before the least recently used is evicted (50MB) */
+  CACHE_MAX_BYTES: 50 * 1024 * 1024,
+  /** Chunk content returned by one ranged fetch_chunk call (50KB) */
+  FETCH_MAX_BYTES: 50 * 1024,
+  /** Lines of context around each search_cached match */
+  SEARCH_CONTEXT_LINES: 2,
+  /** Matches returned by one search_cached call */
+  SEARCH_MAX_MATCHES: 20,
+  /** Time one search_cached call may spend matching before it is rejected */
+  SEARCH_TIMEOUT_MS: 1000,
   /** Maximum response size before truncation (50KB) */
   MAX_RESPONSE_SIZE: 50 * 1024,
+  /** How long a model is skipped after a quota error (5 minutes) */
+  QUOTA_COOLDOWN_MS: 5 * 60 * 1000,
+  /** Gemini CLI output format (override with GEMINI_OUTPUT_FORMAT=json) */
+  OUTPUT_FORMAT: CLI.OUTPUT_FORMATS.STREAM_JSON,
+  /** Backend used to run prompts */
+  BACKEND: BACKENDS.CLI,
+  /** How prompts are passed to Gemini CLI */
+  PROMPT_TRANSPORT: CLI.PROMPT_TRANSPORTS.AUTO,
+  /** Prompts larger than this (UTF-8 bytes) go via stdin in auto mode (below the Windows 32K command-line limit) */
+  PROMPT_ARG_MAX_BYTES: 16 * 1024,
+  /** How long finished async jobs are kept (1 hour) */
+  JOB_TTL_MS: 3600000,
+  /** How long memoized query answers are reused (1 hour) */
+  ANSWER_CACHE_TTL_MS: 3600000,
+  /** Memoized query answers kept before the oldest is evicted */
+  ANSWER_CACHE_MAX_ENTRIES: 200,
+  /** Where chunk caches and jobs are stored */
+  STORAGE: STORAGE.MEMORY,
+  /** Size cap per disk store; the oldest entries are evicted beyond it (100MB) */
+  STATE_MAX_BYTES: 100 * 1024 * 1024,
+  /** Lines of source attached to each citation in paths_with_lines mode */
+  CITATION_EXCERPT_MAX_LINES: 20,
+  /** Characters of source attached to each citation in paths_with_lines mode */
+  CITATION_EXCERPT_MAX_CHARS: 2000,
+  /** Largest file read to check cited line numbers (4MB); larger ones are reported unverified */
+  CITATION_MAX_FILE_BYTES: 4 * 1024 * 1024,
 } as const;
 
 // ============================================================================
@@ -301,4 +523,8 @@ Please fix the issues above and run 'npx better-gemini-mcp init' again.
    - Get API key: https://aistudio.google.com/app/apikey
    - Set in terminal: export GEMINI_API_KEY="your-key-here"
 → Run 'npx better-gemini-mcp init' for guided setup`,
+  STARTUP_API_KEY_MISSING: `❌ GEMINI_API_KEY is not set (required by the api backend)
+→ Get API key: https://aistudio.google.com/app/apikey
+→ Set in terminal: export GEMINI_API_KEY="your-key-here"
+→ Or switch back to the CLI backend: unset BGMCP_BACKEND`,
 } as const;
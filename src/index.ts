@@ -14,17 +14,41 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   type CallToolRequest,
   type ListToolsRequest,
   type Tool,
   type CallToolResult,
+  ErrorCode,
+  McpError,
 } from "@modelcontextprotocol/sdk/types.js";
 
-import { ERROR_CODES, PROTOCOL, SERVER_INFO, WIZARD_MESSAGES } from "./constants.js";
+import { ERROR_CODES, ERROR_MESSAGES, ERROR_NEXT_STEPS, PROTOCOL, SERVER_INFO, WIZARD_MESSAGES } from "./constants.js";
 import type { ToolArguments } from "./types.js";
 import { getToolDefinitions, executeTool, toolExists } from "./tools/index.js";
+import { getPromptDefinitions, getPrompt, completePromptArgument } from "./prompts/index.js";
+import {
+  listResources,
+  listResourceTemplates,
+  readResource,
+  completeResourceArgument,
+  ResourceSubscriptions,
+} from "./resources/index.js";
 import { runSetupWizard, validateEnvironment } from "./setup/index.js";
-import { Logger } from "./utils/index.js";
+import {
+  Logger,
+  ProgressTracker,
+  InvalidArgumentError,
+  isErrorResponse,
+  toErrorResponse,
+} from "./utils/index.js";
 
 // ============================================================================
 // Server Instance
@@ -38,19 +62,14 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      prompts: {},
+      resources: { subscribe: true },
+      completions: {},
       logging: {},
     },
   }
 );
 
-// ============================================================================
-// Progress Tracking State
-// ============================================================================
-
-let isProcessing = false;
-let currentOperationName = "";
-let latestOutput = "";
-
 // ============================================================================
 // Notification Helpers
 // ============================================================================
@@ -90,94 +109,23 @@ async function sendProgressNotification(
 }
 
 // ============================================================================
-// Progress Update Management
+// Progress Tracking
 // ============================================================================
 
-interface ProgressData {
-  interval: NodeJS.Timeout;
-  progressToken?: string | number;
-}
-
 /**
- * Start periodic progress updates for long-running operations
+ * Per-request progress state (keepalive timer, output preview, final notification)
  */
-function startProgressUpdates(
-  operationName: string,
-  progressToken?: string | number
-): ProgressData {
-  isProcessing = true;
-  currentOperationName = operationName;
-  latestOutput = "";
-
-  const progressMessages = [
-    `${operationName} - Gemini is analyzing your request...`,
-    `${operationName} - Processing files and generating insights...`,
-    `${operationName} - Creating structured response for your review...`,
-    `${operationName} - Large analysis in progress (this is normal for big requests)...`,
-    `${operationName} - Still working... Gemini takes time for quality results...`,
-  ];
-
-  let messageIndex = 0;
-  let progress = 0;
-
-  // Send immediate acknowledgment if progress requested
-  if (progressToken) {
-    sendProgressNotification(
-      progressToken,
-      0,
-      undefined, // No total - indeterminate progress
-      `Starting ${operationName}`
-    );
-  }
-
-  // Keep client alive with periodic updates
-  const progressInterval = setInterval(async () => {
-    if (isProcessing && progressToken) {
-      progress += 1;
-
-      // Include latest output preview if available
-      const baseMessage = progressMessages[messageIndex % progressMessages.length];
-      const outputPreview = latestOutput.slice(-150).trim();
-      const message = outputPreview
-        ? `${baseMessage}\nOutput: ...${outputPreview}`
-        : baseMessage;
-
-      await sendProgressNotification(
-        progressToken,
-        progress,
-        undefined, // No total - indeterminate progress
-        message
-      );
-      messageIndex++;
-    } else if (!isProcessing) {
-      clearInterval(progressInterval);
-    }
-  }, PROTOCOL.KEEPALIVE_INTERVAL);
+const progressTracker = new ProgressTracker(sendProgressNotification);
 
-  return { interval: progressInterval, progressToken };
-}
+// ============================================================================
+// Resource Subscriptions
+// ============================================================================
 
 /**
- * Stop progress updates and send final notification
+ * Subscribed resources; expired or evicted ones are reported with
+ * notifications/resources/updated
  */
-function stopProgressUpdates(progressData: ProgressData, success: boolean = true): void {
-  const operationName = currentOperationName;
-  isProcessing = false;
-  currentOperationName = "";
-  clearInterval(progressData.interval);
-
-  // Send final progress notification if client requested progress
-  if (progressData.progressToken) {
-    sendProgressNotification(
-      progressData.progressToken,
-      100,
-      100,
-      success
-        ? `✅ ${operationName} completed successfully`
-        : `❌ ${operationName} failed`
-    );
-  }
-}
+const resourceSubscriptions = new ResourceSubscriptions((uri) => server.sendResourceUpdated({ uri }));
 
 // ============================================================================
 // Logging Helpers
@@ -227,13 +175,42 @@ server.setRequestHandler(
   }
 );
 
+/**
+ * Build the result returned for a cancelled tool call
+ * (the SDK normally drops responses to cancelled requests, but the
+ * cancelled status is still reported in case the client is waiting)
+ */
+function buildCancelledResult(toolName: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            error: {
+              code: ERROR_CODES.CANCELLED,
+              message: ERROR_MESSAGES.CANCELLED,
+              details: { tool: toolName, nextStep: ERROR_NEXT_STEPS.CANCELLED },
+            },
+          },
+          null,
+          2
+        ),
+      },
+    ],
+    isError: true,
+  };
+}
+
 /**
  * Handle tools/call request
- * Executes the requested tool and returns the result
+ * Executes the requested tool and returns the result.
+ * The SDK aborts `extra.signal` when the client sends notifications/cancelled
+ * for this request; the signal is passed down to kill the Gemini CLI process.
  */
 server.setRequestHandler(
   CallToolRequestSchema,
-  async (request: CallToolRequest): Promise<CallToolResult> => {
+  async (request: CallToolRequest, extra): Promise<CallToolResult> => {
     const toolName = request.params.name;
     logDebug(`tools/call request received for: ${toolName}`);
 
@@ -245,8 +222,15 @@ server.setRequestHandler(
     const progressToken = (request.params as { _meta?: { progressToken?: string | number } })
       ._meta?.progressToken;
 
-    // Start progress updates if client requested them
-    const progressData = startProgressUpdates(toolName, progressToken);
+    // Start progress tracking for this request (keepalives only if a token was provided)
+    const operation = progressTracker.start(extra.requestId, toolName, progressToken);
+
+    const { signal } = extra;
+    signal.addEventListener(
+      "abort",
+      () => logInfo(`Cancellation received for '${toolName}' (request ${extra.requestId})`),
+      { once: true }
+    );
 
     try {
       // Get arguments from request
@@ -255,12 +239,23 @@ server.setRequestHandler(
       logToolInvocation(toolName, request.params.arguments);
 
       // Execute the tool with progress callback
-      const result = await executeTool(toolName, args, (newOutput: string) => {
-        latestOutput = newOutput;
-      });
+      const result = await executeTool(
+        toolName,
+        args,
+        (newOutput, event) => operation.report(newOutput, event),
+        signal
+      );
+
+      if (signal.aborted) {
+        operation.finish("cancelled");
+        return buildCancelledResult(toolName);
+      }
+
+      // Tools report their own failures as an ErrorResponse; flag those as errors
+      const isError = isErrorResponse(result);
 
-      // Stop progress updates on success
-      stopProgressUpdates(progressData, true);
+      // Stop progress updates
+      operation.finish(isError ? "failure" : "success");
 
       return {
         content: [
@@ -269,30 +264,24 @@ server.setRequestHandler(
             text: result,
           },
         ],
-        isError: false,
+        isError,
       };
     } catch (error) {
+      if (signal.aborted) {
+        operation.finish("cancelled");
+        return buildCancelledResult(toolName);
+      }
+
       // Stop progress updates on error
-      stopProgressUpdates(progressData, false);
+      operation.finish("failure");
 
       logError(`Error in tool '${toolName}':`, error);
 
-      const errorMessage = error instanceof Error ? error.message : String(error);
-
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(
-              {
-                error: {
-                  code: ERROR_CODES.INTERNAL,
-                  message: `Error executing ${toolName}: ${errorMessage}`,
-                },
-              },
-              null,
-              2
-            ),
+            text: JSON.stringify(toErrorResponse(error, toolName), null, 2),
           },
         ],
         isError: true,
@@ -301,6 +290,89 @@ server.setRequestHandler(
   }
 );
 
+/**
+ * Handle prompts/list request
+ * Returns the built-in prompts and the project's prompt templates
+ */
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  logDebug("prompts/list request received");
+  return { prompts: getPromptDefinitions() };
+});
+
+/**
+ * Handle prompts/get request
+ * Unknown prompts and invalid arguments are reported as InvalidParams
+ */
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+  logDebug(`prompts/get request received for: ${name}`);
+
+  try {
+    return getPrompt(name, args);
+  } catch (error) {
+    if (error instanceof InvalidArgumentError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message, { issues: error.issues });
+    }
+    throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+  }
+});
+
+/**
+ * Handle resources/list request
+ * Returns cached responses and completed job results
+ */
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  logDebug("resources/list request received");
+  return { resources: listResources() };
+});
+
+/**
+ * Handle resources/templates/list request
+ */
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  logDebug("resources/templates/list request received");
+  return { resourceTemplates: listResourceTemplates() };
+});
+
+/**
+ * Handle resources/read request
+ */
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  logDebug(`resources/read request received for: ${request.params.uri}`);
+  return { contents: readResource(request.params.uri) };
+});
+
+/**
+ * Handle resources/subscribe and resources/unsubscribe requests
+ */
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  logDebug(`resources/subscribe request received for: ${request.params.uri}`);
+  resourceSubscriptions.subscribe(request.params.uri);
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  logDebug(`resources/unsubscribe request received for: ${request.params.uri}`);
+  resourceSubscriptions.unsubscribe(request.params.uri);
+  return {};
+});
+
+/**
+ * Handle completion/complete request
+ * Suggests prompt argument values (enums, project paths) and resource template values
+ */
+server.setRequestHandler(CompleteRequestSchema, async (request) => {
+  const { ref, argument, context } = request.params;
+  logDebug(`completion/complete request received for argument: ${argument.name}`);
+
+  const completion =
+    ref.type === "ref/prompt"
+      ? completePromptArgument(ref.name, argument.name, argument.value)
+      : completeResourceArgument(ref.uri, argument.name, argument.value, context?.arguments);
+
+  return { completion };
+});
+
 // ============================================================================
 // Server Startup
 // ============================================================================
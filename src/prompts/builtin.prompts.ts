@@ -0,0 +1,83 @@
+/**
+ * Built-in Prompts
+ *
+ * Parameterized prompts for common analyses. Each renders the text to pass
+ * to quick_query or deep_research, with the focus and response style
+ * instructions those tools use. Enum and path arguments are offered through
+ * MCP completion/complete.
+ */
+
+import { z } from "zod";
+import { applyInstructions, type UnifiedPrompt } from "./registry.js";
+
+// ============================================================================
+// Shared Arguments
+// ============================================================================
+
+const focusArgument = (defaultFocus: string) =>
+  z
+    .enum(["security", "architecture", "performance", "general"])
+    .optional()
+    .describe(`Focus area to guide the analysis (default: ${defaultFocus})`);
+
+const responseStyleArgument = z
+  .enum(["concise", "normal", "detailed"])
+  .optional()
+  .describe("Desired verbosity of the answer (default: normal)");
+
+// ============================================================================
+// Prompts
+// ============================================================================
+
+export const securityReviewPrompt: UnifiedPrompt = {
+  name: "security_review",
+  description: "Security review of a file or directory. Example: {path: 'src/auth'}",
+  zodSchema: z.object({
+    path: z.string().min(1).describe("File or directory to review, relative to the project root"),
+    responseStyle: responseStyleArgument,
+  }),
+
+  render: ({ path, responseStyle }) =>
+    applyInstructions(
+      `Perform a security review of @${path}. For each finding give the file and line, the severity, how it could be exploited and a suggested fix. Call out anything that looks safe but is easy to misuse.`,
+      "security",
+      responseStyle
+    ),
+};
+
+export const architectureOverviewPrompt: UnifiedPrompt = {
+  name: "architecture_overview",
+  description: "Architecture overview of the project or one of its directories. Example: {path: 'src'}",
+  zodSchema: z.object({
+    path: z.string().min(1).optional().describe("Directory to describe (default: the whole project)"),
+    focus: focusArgument("architecture"),
+    responseStyle: responseStyleArgument,
+  }),
+
+  render: ({ path, focus, responseStyle }) =>
+    applyInstructions(
+      `Give an architecture overview of @${path ?? "."}: the main components and their responsibilities, how they depend on each other, how data flows through them, and the notable design decisions and trade-offs.`,
+      focus ?? "architecture",
+      responseStyle
+    ),
+};
+
+export const explainStackTracePrompt: UnifiedPrompt = {
+  name: "explain_stack_trace",
+  description: "Explain a stack trace against the project's code. Example: {stackTrace: 'TypeError: ...', path: 'src/server.ts'}",
+  zodSchema: z.object({
+    stackTrace: z.string().min(1).describe("The stack trace or error output"),
+    path: z.string().min(1).optional().describe("File or directory most likely involved"),
+    focus: focusArgument("general"),
+    responseStyle: responseStyleArgument,
+  }),
+
+  render: ({ stackTrace, path, focus, responseStyle }) => {
+    const code = path ? `\n\nThe code most likely involved is in @${path}.` : "";
+    return applyInstructions(
+      `Explain this stack trace: what failed, where in the project's code it originated, the most likely root cause and how to fix it.${code}\n\n\`\`\`\n${stackTrace}\n\`\`\``,
+      focus ?? "general",
+      responseStyle
+    );
+  },
+};
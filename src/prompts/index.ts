@@ -0,0 +1,93 @@
+/**
+ * Prompt Registry Exports for Better Gemini MCP Server
+ *
+ * This file registers the built-in prompts and combines them with the
+ * project-local prompt templates for MCP prompts/list and prompts/get.
+ */
+
+import type { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import type { ZodTypeAny } from "zod";
+import type { CompletionValues } from "../types.js";
+import { completeArgumentValue, toCompletionValues } from "../utils/completion.js";
+import { getProjectRoot } from "../utils/pathValidator.js";
+import { promptRegistry, getPromptDefinition, renderPrompt, type PromptArguments, type UnifiedPrompt } from "./registry.js";
+import { loadProjectPrompts } from "./projectPrompts.js";
+
+// ============================================================================
+// Prompt Imports
+// ============================================================================
+
+import { securityReviewPrompt, architectureOverviewPrompt, explainStackTracePrompt } from "./builtin.prompts.js";
+
+// ============================================================================
+// Prompt Registration
+// ============================================================================
+
+promptRegistry.push(securityReviewPrompt, architectureOverviewPrompt, explainStackTracePrompt);
+
+// ============================================================================
+// Prompt Lookup
+// ============================================================================
+
+/**
+ * Get all prompts: built-ins first, then the project's templates
+ *
+ * @param projectRoot - Project root holding the prompt directory (default: getProjectRoot())
+ */
+export function listPrompts(projectRoot?: string): UnifiedPrompt[] {
+  const builtinNames = new Set(promptRegistry.map((p) => p.name));
+  return [...promptRegistry, ...loadProjectPrompts(projectRoot, builtinNames)];
+}
+
+/**
+ * Get MCP Prompt definitions for prompts/list
+ */
+export function getPromptDefinitions(projectRoot?: string): Prompt[] {
+  return listPrompts(projectRoot).map(getPromptDefinition);
+}
+
+/**
+ * Render a prompt by name for prompts/get
+ *
+ * @throws Error if the prompt is unknown
+ * @throws InvalidArgumentError if the arguments fail validation
+ */
+export function getPrompt(name: string, args: PromptArguments = {}, projectRoot?: string): GetPromptResult {
+  const prompt = listPrompts(projectRoot).find((p) => p.name === name);
+
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  return renderPrompt(prompt, args);
+}
+
+/**
+ * Suggest values for a prompt argument (MCP completion/complete with ref/prompt)
+ *
+ * @returns Suggestions; empty for unknown prompts or arguments
+ */
+export function completePromptArgument(
+  name: string,
+  argumentName: string,
+  value: string,
+  projectRoot: string = getProjectRoot()
+): CompletionValues {
+  const prompt = listPrompts(projectRoot).find((p) => p.name === name);
+  if (!prompt) {
+    return toCompletionValues([]);
+  }
+
+  const schema = (prompt.zodSchema.shape as Record<string, ZodTypeAny>)[argumentName];
+  return completeArgumentValue(schema, argumentName, value, projectRoot);
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+export * from "./registry.js";
+export { loadProjectPrompts, getProjectPromptsDir, fillTemplate } from "./projectPrompts.js";
+
+// Export individual prompts for direct access
+export { securityReviewPrompt, architectureOverviewPrompt, explainStackTracePrompt } from "./builtin.prompts.js";
@@ -0,0 +1,159 @@
+/**
+ * Project-local prompt templates
+ *
+ * Loads prompt templates from JSON files in the project's prompt directory
+ * (CONFIG.PROJECT_PROMPTS_DIR). Each file holds one template:
+ *
+ *   {
+ *     "name": "review_migration",
+ *     "description": "Review a database migration",
+ *     "arguments": [{ "name": "path", "description": "Migration file", "required": true }],
+ *     "focus": "security",
+ *     "responseStyle": "detailed",
+ *     "template": "Review the migration in @{{path}} for data loss and locking risks."
+ *   }
+ *
+ * Invalid files are skipped with a warning.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { z, type ZodTypeAny } from "zod";
+import { CONFIG } from "../constants.js";
+import { Logger } from "../utils/logger.js";
+import { getProjectRoot } from "../utils/pathValidator.js";
+import { applyInstructions, type PromptArguments, type UnifiedPrompt } from "./registry.js";
+
+// ============================================================================
+// Template File Schema
+// ============================================================================
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+const templateArgumentSchema = z.object({
+  name: z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, "must be a letter followed by letters, digits or _"),
+  description: z.string().optional(),
+  required: z.boolean().optional().default(false),
+  enum: z.array(z.string()).nonempty().optional(),
+});
+
+const promptTemplateSchema = z
+  .object({
+    name: z.string().regex(/^[a-z][a-z0-9_]*$/, "must be snake_case"),
+    description: z.string().min(1),
+    arguments: z.array(templateArgumentSchema).optional().default([]),
+    focus: z.enum(["security", "architecture", "performance", "general"]).optional(),
+    responseStyle: z.enum(["concise", "normal", "detailed"]).optional(),
+    template: z.string().min(1),
+  })
+  .superRefine((file, ctx) => {
+    const declared = new Set(file.arguments.map((arg) => arg.name));
+    for (const [, name] of file.template.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!declared.has(name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["template"], message: `uses undeclared argument ${name}` });
+      }
+    }
+  });
+
+type PromptTemplate = z.infer<typeof promptTemplateSchema>;
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Fill {{argument}} placeholders (missing optional arguments become empty)
+ */
+export function fillTemplate(template: string, args: PromptArguments): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => args[name] ?? "");
+}
+
+/**
+ * Turn a validated template file into a prompt
+ */
+function toPrompt(file: PromptTemplate): UnifiedPrompt {
+  const shape: Record<string, ZodTypeAny> = {};
+  for (const arg of file.arguments) {
+    let schema: ZodTypeAny = arg.enum ? z.enum(arg.enum) : z.string();
+    if (arg.description) {
+      schema = schema.describe(arg.description);
+    }
+    shape[arg.name] = arg.required ? schema : schema.optional();
+  }
+
+  return {
+    name: file.name,
+    description: file.description,
+    zodSchema: z.object(shape),
+    render: (args) => applyInstructions(fillTemplate(file.template, args), file.focus, file.responseStyle),
+  };
+}
+
+/**
+ * Get the project prompt directory
+ */
+export function getProjectPromptsDir(projectRoot: string = getProjectRoot()): string {
+  return path.join(projectRoot, CONFIG.PROJECT_PROMPTS_DIR);
+}
+
+/**
+ * Load the project's prompt templates
+ *
+ * Files are read on every call so edits apply without a restart. Templates
+ * that fail validation or reuse a taken name are skipped with a warning.
+ *
+ * @param projectRoot - Project root (default: getProjectRoot())
+ * @param reservedNames - Names already taken (e.g., built-in prompts)
+ * @returns Prompts in file name order
+ */
+export function loadProjectPrompts(
+  projectRoot: string = getProjectRoot(),
+  reservedNames: Set<string> = new Set()
+): UnifiedPrompt[] {
+  const dir = getProjectPromptsDir(projectRoot);
+  let files: string[];
+  try {
+    files = fs
+      .readdirSync(dir)
+      .filter((name) => name.endsWith(".json"))
+      .sort();
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      Logger.warn(`Prompts: Cannot read ${dir}: ${(err as Error).message}`);
+    }
+    return [];
+  }
+
+  const taken = new Set(reservedNames);
+  const prompts: UnifiedPrompt[] = [];
+
+  for (const name of files) {
+    const filePath = path.join(dir, name);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    } catch (err) {
+      Logger.warn(`Prompts: Skipping ${filePath}: ${(err as Error).message}`);
+      continue;
+    }
+
+    const result = promptTemplateSchema.safeParse(parsed);
+    if (!result.success) {
+      const summary = result.error.issues
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join(", ");
+      Logger.warn(`Prompts: Skipping invalid template ${filePath}: ${summary}`);
+      continue;
+    }
+
+    if (taken.has(result.data.name)) {
+      Logger.warn(`Prompts: Skipping ${filePath}: prompt name ${result.data.name} is already in use`);
+      continue;
+    }
+
+    taken.add(result.data.name);
+    prompts.push(toPrompt(result.data));
+  }
+
+  return prompts;
+}
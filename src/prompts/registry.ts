@@ -0,0 +1,120 @@
+/**
+ * Prompt Registry for Better Gemini MCP Server
+ * Defines the UnifiedPrompt interface and renders prompts for MCP prompts/get
+ */
+
+import type { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import type { AnyZodObject, ZodTypeAny } from "zod";
+import { FOCUS_INSTRUCTIONS, PROTOCOL, STYLE_INSTRUCTIONS } from "../constants.js";
+import { InvalidArgumentError, toArgumentIssues } from "../utils/errors.js";
+
+// ============================================================================
+// UnifiedPrompt Interface
+// ============================================================================
+
+/**
+ * Prompt arguments (MCP prompt arguments are always strings)
+ */
+export type PromptArguments = Record<string, string | undefined>;
+
+/**
+ * Unified prompt definition interface
+ * Built-in and project-local prompts follow this structure
+ */
+export interface UnifiedPrompt {
+  /** Prompt name (snake_case, e.g., 'security_review') */
+  name: string;
+
+  /** Human-readable description for MCP prompts/list */
+  description: string;
+
+  /** Zod object schema for argument validation (one string field per argument) */
+  zodSchema: AnyZodObject;
+
+  /** Build the prompt text from validated arguments */
+  render: (args: PromptArguments) => string;
+}
+
+// ============================================================================
+// Prompt Registry
+// ============================================================================
+
+/**
+ * Registry of built-in prompts
+ * Prompts are added to this array in src/prompts/index.ts
+ */
+export const promptRegistry: UnifiedPrompt[] = [];
+
+// ============================================================================
+// Registry Helper Functions
+// ============================================================================
+
+/**
+ * Prepend focus and response style instructions, as quick_query does
+ *
+ * @param body - Prompt text
+ * @param focus - Focus area (FOCUS_INSTRUCTIONS key)
+ * @param responseStyle - Response style (STYLE_INSTRUCTIONS key)
+ */
+export function applyInstructions(body: string, focus?: string, responseStyle?: string): string {
+  let text = body;
+  if (focus && FOCUS_INSTRUCTIONS[focus]) {
+    text = `${FOCUS_INSTRUCTIONS[focus]}\n\n${text}`;
+  }
+  if (responseStyle && responseStyle !== "normal" && STYLE_INSTRUCTIONS[responseStyle]) {
+    text = `${STYLE_INSTRUCTIONS[responseStyle]}\n\n${text}`;
+  }
+  return text;
+}
+
+/**
+ * Get the MCP Prompt definition of a prompt
+ * Arguments are derived from the prompt's Zod schema
+ */
+export function getPromptDefinition(prompt: UnifiedPrompt): Prompt {
+  return {
+    name: prompt.name,
+    description: prompt.description,
+    arguments: Object.entries(prompt.zodSchema.shape as Record<string, ZodTypeAny>).map(([name, schema]) => ({
+      name,
+      ...(schema.description && { description: schema.description }),
+      required: !schema.isOptional(),
+    })),
+  };
+}
+
+/**
+ * Render a prompt with the given arguments
+ * Validates arguments against the prompt's Zod schema before rendering
+ *
+ * @throws InvalidArgumentError if the arguments fail validation
+ */
+export function renderPrompt(prompt: UnifiedPrompt, args: PromptArguments = {}): GetPromptResult {
+  const parsed = prompt.zodSchema.safeParse(args);
+  if (!parsed.success) {
+    const issues = toArgumentIssues(parsed.error);
+    const summary = issues.map((issue) => `${issue.field}: ${issue.message}`).join(", ");
+    throw new InvalidArgumentError(`Invalid arguments for prompt ${prompt.name}: ${summary}`, issues);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: PROTOCOL.ROLES.USER,
+        content: { type: PROTOCOL.CONTENT_TYPES.TEXT, text: prompt.render(parsed.data as PromptArguments) },
+      },
+    ],
+  };
+}
+
+/**
+ * Register a new built-in prompt
+ * This is an alternative to directly pushing to promptRegistry
+ */
+export function registerPrompt(prompt: UnifiedPrompt): void {
+  if (promptRegistry.some((p) => p.name === prompt.name)) {
+    throw new Error(`Prompt already registered: ${prompt.name}`);
+  }
+  promptRegistry.push(prompt);
+}
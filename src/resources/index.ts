@@ -0,0 +1,309 @@
+/**
+ * MCP Resources for Better Gemini MCP Server
+ *
+ * Publishes chunked responses and completed async job results as resources,
+ * so clients that support resources can attach a full answer instead of
+ * calling fetch_chunk repeatedly:
+ *
+ * - bgmcp://cache/<cacheKey>                  whole cached response
+ * - bgmcp://cache/<cacheKey>/chunk/<n>        one chunk (resource template)
+ * - bgmcp://job/<jobId>                       completed job result (JSON)
+ *
+ * Subscribed resources are checked periodically; when one expires or is
+ * evicted an update notification is sent and the subscription is dropped.
+ */
+
+import {
+  McpError,
+  type ReadResourceResult,
+  type Resource,
+  type ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import { RESOURCES } from "../constants.js";
+import type { CompletionValues } from "../types.js";
+import {
+  getChunk,
+  getResponse,
+  peekResponse,
+  getJob,
+  listCachedResponses,
+  listJobs,
+  toCompletionValues,
+  Logger,
+} from "../utils/index.js";
+
+// ============================================================================
+// URIs
+// ============================================================================
+
+const CACHE_URI_PATTERN = /^bgmcp:\/\/cache\/([A-Za-z0-9_-]+)$/;
+const CHUNK_URI_PATTERN = /^bgmcp:\/\/cache\/([A-Za-z0-9_-]+)\/chunk\/(\d+)$/;
+const JOB_URI_PATTERN = /^bgmcp:\/\/job\/([A-Za-z0-9_-]+)$/;
+
+/**
+ * What a resource URI refers to
+ */
+type ResourceTarget =
+  | { kind: "cache"; cacheKey: string }
+  | { kind: "chunk"; cacheKey: string; chunkIndex: number }
+  | { kind: "job"; jobId: string };
+
+/**
+ * Parse a resource URI
+ *
+ * @returns The target, or null if the URI is not one of ours
+ */
+function parseResourceUri(uri: string): ResourceTarget | null {
+  const chunk = uri.match(CHUNK_URI_PATTERN);
+  if (chunk) {
+    return { kind: "chunk", cacheKey: chunk[1], chunkIndex: parseInt(chunk[2], 10) };
+  }
+  const cache = uri.match(CACHE_URI_PATTERN);
+  if (cache) {
+    return { kind: "cache", cacheKey: cache[1] };
+  }
+  const job = uri.match(JOB_URI_PATTERN);
+  if (job) {
+    return { kind: "job", jobId: job[1] };
+  }
+  return null;
+}
+
+/**
+ * Check whether a resource still exists, without marking cache entries as used
+ */
+function resourceExists(target: ResourceTarget): boolean {
+  if (target.kind === "job") {
+    return getJob(target.jobId)?.status === "completed";
+  }
+
+  const entry = peekResponse(target.cacheKey);
+  if (!entry) {
+    return false;
+  }
+  return target.kind === "cache" || (target.chunkIndex >= 1 && target.chunkIndex <= entry.chunks.length);
+}
+
+/**
+ * Error for a URI that does not (or no longer) refer to a resource
+ */
+function resourceNotFound(uri: string): McpError {
+  return new McpError(RESOURCES.NOT_FOUND_ERROR_CODE, `Resource not found: ${uri}`, { uri });
+}
+
+// ============================================================================
+// List and Read
+// ============================================================================
+
+/**
+ * List cached responses and completed job results
+ *
+ * @returns Resource descriptions for resources/list
+ */
+export function listResources(): Resource[] {
+  const cached: Resource[] = listCachedResponses().map((entry) => ({
+    uri: `${RESOURCES.CACHE_URI_PREFIX}${entry.key}`,
+    name: entry.key,
+    description: `Cached response (${entry.totalChunks} chunks), expires ${entry.expiresAt.toISOString()}`,
+    mimeType: "text/markdown",
+  }));
+
+  const jobs: Resource[] = listJobs()
+    .filter((job) => job.status === "completed")
+    .map((job) => ({
+      uri: `${RESOURCES.JOB_URI_PREFIX}${job.id}`,
+      name: job.id,
+      description: `Result of ${job.tool} job${job.expiresAt !== undefined ? `, expires ${new Date(job.expiresAt).toISOString()}` : ""}`,
+      mimeType: "application/json",
+    }));
+
+  return [...cached, ...jobs];
+}
+
+/**
+ * List URI templates for resources not enumerated by resources/list
+ *
+ * @returns Templates for resources/templates/list
+ */
+export function listResourceTemplates(): ResourceTemplate[] {
+  return [
+    {
+      uriTemplate: RESOURCES.CHUNK_URI_TEMPLATE,
+      name: "Cached response chunk",
+      description: "One chunk (1-based) of a cached response, as returned by fetch_chunk",
+      mimeType: "text/markdown",
+    },
+  ];
+}
+
+/**
+ * Read a resource
+ *
+ * @param uri - Resource URI
+ * @returns Contents for resources/read
+ * @throws McpError if the URI is unknown, expired or evicted
+ */
+export function readResource(uri: string): ReadResourceResult["contents"] {
+  const target = parseResourceUri(uri);
+  if (!target) {
+    throw resourceNotFound(uri);
+  }
+
+  if (target.kind === "job") {
+    const job = getJob(target.jobId);
+    if (job?.status !== "completed" || job.result === undefined) {
+      throw resourceNotFound(uri);
+    }
+    return [{ uri, mimeType: "application/json", text: job.result }];
+  }
+
+  if (target.kind === "chunk") {
+    const chunk = getChunk(target.cacheKey, target.chunkIndex);
+    if (!chunk) {
+      throw resourceNotFound(uri);
+    }
+    return [{ uri, mimeType: "text/markdown", text: chunk.content }];
+  }
+
+  const entry = getResponse(target.cacheKey);
+  if (!entry) {
+    throw resourceNotFound(uri);
+  }
+
+  // Entries cached without the original response fall back to their chunks
+  const text = entry.response ?? entry.chunks.map((chunk) => chunk.content).join("");
+  return [{ uri, mimeType: "text/markdown", text }];
+}
+
+/**
+ * Suggest values for a resource template argument (MCP completion/complete
+ * with ref/resource): cache keys, and chunk indexes of the chosen cache key
+ *
+ * @param uriTemplate - Template URI from resources/templates/list
+ * @param argumentName - Template variable being completed
+ * @param value - What has been typed so far
+ * @param context - Template variables already filled in
+ */
+export function completeResourceArgument(
+  uriTemplate: string,
+  argumentName: string,
+  value: string,
+  context: Record<string, string> = {}
+): CompletionValues {
+  if (uriTemplate !== RESOURCES.CHUNK_URI_TEMPLATE) {
+    return toCompletionValues([]);
+  }
+
+  if (argumentName === "cacheKey") {
+    return toCompletionValues(
+      listCachedResponses()
+        .map((entry) => entry.key)
+        .filter((key) => key.startsWith(value))
+        .sort()
+    );
+  }
+
+  if (argumentName === "chunkIndex") {
+    const entry = context.cacheKey ? peekResponse(context.cacheKey) : null;
+    const indexes = Array.from({ length: entry?.chunks.length ?? 0 }, (_, i) => String(i + 1));
+    return toCompletionValues(indexes.filter((index) => index.startsWith(value)));
+  }
+
+  return toCompletionValues([]);
+}
+
+// ============================================================================
+// Subscriptions
+// ============================================================================
+
+/**
+ * Sends notifications/resources/updated for a URI
+ */
+export type ResourceUpdatedCallback = (uri: string) => Promise<void>;
+
+/**
+ * Tracks subscribed resources and reports the ones that expire or are evicted
+ *
+ * The check timer runs only while there are subscriptions.
+ */
+export class ResourceSubscriptions {
+  private readonly uris = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly notifyUpdated: ResourceUpdatedCallback,
+    private readonly intervalMs: number = RESOURCES.WATCH_INTERVAL_MS
+  ) {}
+
+  /**
+   * Subscribe to a resource
+   *
+   * @throws McpError if the resource does not exist
+   */
+  subscribe(uri: string): void {
+    const target = parseResourceUri(uri);
+    if (!target || !resourceExists(target)) {
+      throw resourceNotFound(uri);
+    }
+
+    this.uris.add(uri);
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.check(), this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Unsubscribe from a resource (unknown URIs are ignored)
+   */
+  unsubscribe(uri: string): void {
+    this.uris.delete(uri);
+    this.stopIfIdle();
+  }
+
+  /**
+   * Currently subscribed URIs
+   */
+  list(): string[] {
+    return [...this.uris];
+  }
+
+  /**
+   * Notify subscribers of resources that no longer exist and drop them
+   *
+   * @returns URIs that were reported as gone
+   */
+  async check(): Promise<string[]> {
+    const gone = this.list().filter((uri) => {
+      const target = parseResourceUri(uri);
+      return !target || !resourceExists(target);
+    });
+
+    for (const uri of gone) {
+      this.uris.delete(uri);
+      try {
+        await this.notifyUpdated(uri);
+      } catch (error) {
+        Logger.error(`Failed to send resource update for ${uri}:`, error);
+      }
+    }
+
+    this.stopIfIdle();
+    return gone;
+  }
+
+  /**
+   * Drop all subscriptions and stop the check timer
+   */
+  clear(): void {
+    this.uris.clear();
+    this.stopIfIdle();
+  }
+
+  private stopIfIdle(): void {
+    if (this.timer && this.uris.size === 0) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
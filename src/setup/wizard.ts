@@ -8,7 +8,8 @@ import { spawn } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
-import { WIZARD_MESSAGES, CLI } from "../constants.js";
+import { WIZARD_MESSAGES, CLI, BACKENDS, API } from "../constants.js";
+import { getBackendName } from "../utils/config.js";
 
 // ============================================================================
 // Types
@@ -271,9 +272,20 @@ export async function runSetupWizard(): Promise<boolean> {
 
 /**
  * Validate environment at startup (quick validation, no user interaction)
- * Returns true if environment is valid, false otherwise
+ * Returns true if environment is valid, false otherwise.
+ * The api backend only needs GEMINI_API_KEY; the offline fake needs nothing.
  */
 export async function validateEnvironment(): Promise<{ valid: boolean; error?: string }> {
+  const backend = getBackendName();
+  if (backend === BACKENDS.API) {
+    return process.env[API.KEY_ENV]
+      ? { valid: true }
+      : { valid: false, error: WIZARD_MESSAGES.STARTUP_API_KEY_MISSING };
+  }
+  if (backend !== BACKENDS.CLI) {
+    return { valid: true };
+  }
+
   // Check Gemini CLI installation
   const installCheck = await checkGeminiInstallation();
 
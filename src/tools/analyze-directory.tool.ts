@@ -10,13 +10,13 @@ import { z } from "zod";
 import type { UnifiedTool } from "./registry.js";
 import type { AnalyzeDirectoryArgs } from "../types.js";
 import { ERROR_CODES, DEFAULTS } from "../constants.js";
-import type { ErrorCode } from "../constants.js";
 import {
   executeGeminiCLI,
   getProjectRoot,
   isWithinProjectRoot,
   enumerateDirectory,
   Logger,
+  toErrorResponse,
 } from "../utils/index.js";
 
 // ============================================================================
@@ -111,7 +111,7 @@ export const analyzeDirectoryTool: UnifiedTool = {
   zodSchema: analyzeDirectorySchema,
   category: "utility",
 
-  execute: async (args, onProgress) => {
+  execute: async (args, onProgress, signal) => {
     const startTime = Date.now();
     const { path: inputPath, depth, maxFiles } = args as AnalyzeDirectoryArgs;
     const projectRoot = getProjectRoot();
@@ -196,7 +196,7 @@ For each file, output:
 - <filepath>: <one-sentence summary>`;
 
       // Execute Gemini CLI
-      const result = await executeGeminiCLI(geminiPrompt, "analyze_directory", onProgress);
+      const result = await executeGeminiCLI(geminiPrompt, "analyze_directory", onProgress, signal);
 
       // Parse the response to extract file summaries
       const entries = parseFileSummaries(result.answer, filePaths);
@@ -223,35 +223,7 @@ For each file, output:
       const errorMessage = error instanceof Error ? error.message : String(error);
       Logger.error(`analyze_directory: Failed - ${errorMessage}`);
 
-      // Determine error code and provide recovery hints
-      let code: ErrorCode = ERROR_CODES.GEMINI_CLI_ERROR;
-      let nextStep = "Check server logs for details";
-
-      if (errorMessage.includes("not found") || errorMessage.includes("ENOENT")) {
-        code = ERROR_CODES.GEMINI_CLI_NOT_FOUND;
-        nextStep = "Install Gemini CLI: npm install -g @google/gemini-cli, or run setup wizard: npx better-gemini-mcp init";
-      } else if (errorMessage.includes("auth") || errorMessage.includes("login")) {
-        code = ERROR_CODES.AUTH_MISSING;
-        nextStep = "Authenticate Gemini CLI: run 'gemini' and select 'Login with Google', or set GEMINI_API_KEY environment variable";
-      } else if (errorMessage.includes("quota")) {
-        code = ERROR_CODES.QUOTA_EXCEEDED;
-        nextStep = "Quota exhausted after fallback. Wait for quota reset or upgrade plan.";
-      }
-
-      return JSON.stringify(
-        {
-          error: {
-            code,
-            message: errorMessage,
-            details: {
-              tool: "analyze_directory",
-              nextStep,
-            },
-          },
-        },
-        null,
-        2
-      );
+      return JSON.stringify(toErrorResponse(error, "analyze_directory"), null, 2);
     }
   },
 };
@@ -0,0 +1,69 @@
+/**
+ * Cancel Job Tool
+ *
+ * Stops an async job started with deep_research (async: true), killing its
+ * Gemini process. Finished jobs are left unchanged.
+ */
+
+import { z } from "zod";
+import type { UnifiedTool } from "./registry.js";
+import type { JobArgs } from "../types.js";
+import { ERROR_CODES, ERROR_MESSAGES, ERROR_NEXT_STEPS } from "../constants.js";
+import { getJob, cancelJob, Logger } from "../utils/index.js";
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const cancelJobSchema = z.object({
+  jobId: z.string().describe("Job ID returned by deep_research with async: true"),
+});
+
+// ============================================================================
+// Tool Implementation
+// ============================================================================
+
+export const cancelJobTool: UnifiedTool = {
+  name: "cancel_job",
+  description:
+    "Cancel a running async job and stop its Gemini process. Jobs that already finished are left unchanged. Example: {jobId: 'job_abc123'}",
+  zodSchema: cancelJobSchema,
+  category: "utility",
+
+  execute: async (args, _onProgress) => {
+    const { jobId } = args as JobArgs;
+
+    Logger.info(`cancel_job: Cancelling jobId=${jobId}`);
+
+    const wasRunning = getJob(jobId)?.status === "running";
+    const job = cancelJob(jobId);
+    if (!job) {
+      Logger.warn(`cancel_job: Job not found or expired: ${jobId}`);
+      return JSON.stringify(
+        {
+          error: {
+            code: ERROR_CODES.JOB_NOT_FOUND,
+            message: ERROR_MESSAGES.JOB_NOT_FOUND,
+            details: { jobId, nextStep: ERROR_NEXT_STEPS.JOB_NOT_FOUND },
+          },
+        },
+        null,
+        2
+      );
+    }
+
+    const response = {
+      tool: "cancel_job",
+      jobId: job.id,
+      jobTool: job.tool,
+      status: job.status,
+      cancelled: wasRunning,
+      ...(job.finishedAt !== undefined && { finishedAt: new Date(job.finishedAt).toISOString() }),
+      nextStep: wasRunning
+        ? "The job was stopped; start a new one if the answer is still needed"
+        : "The job had already finished; call get_job_result for its result",
+    };
+
+    return JSON.stringify(response, null, 2);
+  },
+};
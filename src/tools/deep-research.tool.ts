@@ -7,19 +7,39 @@
 
 import { z } from "zod";
 import type { UnifiedTool } from "./registry.js";
-import type { DeepResearchArgs } from "../types.js";
-import { ERROR_CODES, ERROR_MESSAGES } from "../constants.js";
-import type { ErrorCode } from "../constants.js";
+import type { DeepResearchArgs, ProgressCallback } from "../types.js";
+import { DEFAULTS, ERROR_CODES, ERROR_MESSAGES, ERROR_NEXT_STEPS, FOCUS_INSTRUCTIONS } from "../constants.js";
 import {
   executeGeminiCLI,
   getProjectRoot,
   checkPromptPathsValid,
   chunkResponse,
   needsChunking,
+  getChunkSizeKB,
+  getChunkMaxTokens,
   cacheResponse,
   Logger,
+  toErrorResponse,
+  verifyCitations,
+  describeUnverifiedCitations,
+  startJob,
+  buildAnswerCacheKey,
+  getCachedAnswer,
+  cacheAnswer,
+  type GeminiResponse,
 } from "../utils/index.js";
 
+// ============================================================================
+// Error Hints
+// ============================================================================
+
+/**
+ * Next steps that differ from the shared hints for deep_research failures
+ */
+const DEEP_RESEARCH_NEXT_STEPS = {
+  [ERROR_CODES.QUOTA_EXCEEDED]: `${ERROR_NEXT_STEPS.QUOTA_EXCEEDED} Consider using quick_query for lighter tasks.`,
+};
+
 // ============================================================================
 // Schema
 // ============================================================================
@@ -31,23 +51,34 @@ const deepResearchSchema = z.object({
     .optional()
     .describe("Optional focus area to guide analysis"),
   citationMode: z
-    .enum(["none", "paths_only"])
+    .enum(["none", "paths_only", "paths_with_lines"])
     .optional()
     .default("none")
-    .describe("Include file citations in response"),
+    .describe(
+      "Include file citations in response (each citation is verified against the project); paths_with_lines cites line ranges and attaches verified excerpts"
+    ),
+  async: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "Run in the background and return a jobId immediately; poll get_job_status and fetch the answer with get_job_result"
+    ),
+  noCache: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Skip the answer cache and always query Gemini (answers are otherwise reused until a referenced @path file changes)"),
+  maxChunkTokens: z
+    .number()
+    .int()
+    .min(DEFAULTS.MIN_CHUNK_MAX_TOKENS)
+    .optional()
+    .describe(
+      `Limit each returned chunk to about this many tokens (at least ${DEFAULTS.MIN_CHUNK_MAX_TOKENS}), in addition to the byte-based chunk size`
+    ),
 });
 
-// ============================================================================
-// Focus Area Instructions
-// ============================================================================
-
-const FOCUS_INSTRUCTIONS: Record<string, string> = {
-  security: "Focus on security implications, vulnerabilities, attack vectors, and security best practices.",
-  architecture: "Focus on architectural patterns, design decisions, component relationships, and structural concerns.",
-  performance: "Focus on performance characteristics, bottlenecks, optimization opportunities, and efficiency.",
-  general: "", // No additional focus instructions
-};
-
 // ============================================================================
 // Citation Mode Instructions
 // ============================================================================
@@ -56,8 +87,121 @@ const CITATION_INSTRUCTIONS: Record<string, string> = {
   none: "",
   paths_only:
     "Include a '## Files Referenced' section at the end of your response listing all file paths you examined or referenced in your analysis.",
+  paths_with_lines:
+    "Back every claim about the code with a citation in the form `path/to/file.ext:START-END` (1-based, inclusive line numbers of the exact lines that support the claim; use `path:LINE` for a single line). Only cite lines you have actually read.",
 };
 
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Run the research prompt and build the tool response
+ *
+ * Shared by the synchronous path and async jobs.
+ *
+ * @returns Tool response text (an error response on failure)
+ */
+async function runDeepResearch(
+  fullPrompt: string,
+  args: DeepResearchArgs,
+  projectRoot: string,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<string> {
+  const startTime = Date.now();
+  const { prompt, focus, citationMode, noCache, maxChunkTokens } = args;
+
+  try {
+    // Reuse the answer to an identical query unless a referenced file changed
+    const answerKey = noCache
+      ? null
+      : await buildAnswerCacheKey(
+          {
+            tool: "deep_research",
+            prompt,
+            options: { focus: focus || "general", citationMode: citationMode || "none" },
+          },
+          projectRoot
+        );
+    const cached = answerKey ? getCachedAnswer<GeminiResponse>(answerKey) : null;
+
+    // Execute Gemini CLI with deep_research tool (uses pro model)
+    const result = cached ?? (await executeGeminiCLI(fullPrompt, "deep_research", onProgress, signal));
+    if (answerKey && !cached) {
+      cacheAnswer(answerKey, result);
+    }
+
+    // Handle chunking if needed
+    let answer = result.answer;
+    let chunks: { cacheKey: string; current: number; total: number } | undefined;
+    const chunkSizeKB = getChunkSizeKB();
+    const maxTokens = maxChunkTokens ?? getChunkMaxTokens();
+
+    if (needsChunking(result.answer, chunkSizeKB, maxTokens)) {
+      const chunked = chunkResponse(result.answer, chunkSizeKB, maxTokens);
+      const cacheKey = cacheResponse(chunked, DEFAULTS.CACHE_TTL_MS, result.answer);
+      chunks = { cacheKey, current: 1, total: chunked.length };
+      answer = chunked[0].content;
+      Logger.debug(`deep_research: Response chunked into ${chunked.length} chunks, cacheKey=${cacheKey}`);
+    }
+
+    const latencyMs = Date.now() - startTime;
+
+    const warnings: string[] = [];
+    if (chunks) {
+      warnings.push("Response chunked due to size. Use fetch_chunk tool to retrieve remaining content.");
+    }
+    if (result.missingFiles.length > 0) {
+      warnings.push(`Referenced files do not exist: ${result.missingFiles.join(", ")}`);
+    }
+
+    // Check the cited paths and line ranges against the project
+    const citations =
+      citationMode && citationMode !== "none"
+        ? verifyCitations(result.answer, projectRoot, { excerpts: citationMode === "paths_with_lines" })
+        : undefined;
+    const citationWarning = citations ? describeUnverifiedCitations(citations) : null;
+    if (citationWarning) {
+      warnings.push(citationWarning);
+    }
+
+    // Build response
+    const response = {
+      tool: "deep_research",
+      model: result.model,
+      focus: focus || "general",
+      citationMode: citationMode || "none",
+      answer,
+      filesAccessed: result.filesAccessed,
+      filesCited: result.filesCited,
+      ...(result.missingFiles.length > 0 && { missingFiles: result.missingFiles }),
+      ...(citations && { citations }),
+      // A cached answer cost no Gemini usage this time
+      stats: cached ? { latencyMs } : { ...result.stats, latencyMs },
+      ...(chunks && { chunks }),
+      meta: {
+        projectRoot,
+        truncated: false,
+        warnings,
+        cached: cached !== null,
+      },
+    };
+
+    Logger.info(`deep_research: Completed in ${latencyMs}ms${cached ? " (cached)" : ""}`);
+    return JSON.stringify(response, null, 2);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    Logger.error(`deep_research: Failed - ${errorMessage}`);
+
+    return JSON.stringify(
+      toErrorResponse(error, "deep_research", { nextSteps: DEEP_RESEARCH_NEXT_STEPS }),
+      null,
+      2
+    );
+  }
+}
+
 // ============================================================================
 // Tool Implementation
 // ============================================================================
@@ -65,16 +209,17 @@ const CITATION_INSTRUCTIONS: Record<string, string> = {
 export const deepResearchTool: UnifiedTool = {
   name: "deep_research",
   description:
-    "Perform comprehensive codebase analysis across multiple files with deep reasoning. Preferred for complex architectural questions or multi-file investigation. Example: {prompt: 'Trace authentication flow from @src/routes to @src/middleware', focus: 'architecture', citationMode: 'paths_only'}",
+    "Perform comprehensive codebase analysis across multiple files with deep reasoning. Preferred for complex architectural questions or multi-file investigation. Example: {prompt: 'Trace authentication flow from @src/routes to @src/middleware', focus: 'architecture', citationMode: 'paths_only'}. For long investigations pass async: true and poll get_job_status / get_job_result.",
   zodSchema: deepResearchSchema,
   category: "query",
 
-  execute: async (args, onProgress) => {
-    const startTime = Date.now();
-    const { prompt, focus, citationMode } = args as DeepResearchArgs;
+  execute: async (args, onProgress, signal) => {
+    const { prompt, focus, citationMode, async: isAsync } = args as DeepResearchArgs;
     const projectRoot = getProjectRoot();
 
-    Logger.info(`deep_research: Starting with focus=${focus || "none"}, citationMode=${citationMode || "none"}`);
+    Logger.info(
+      `deep_research: Starting with focus=${focus || "none"}, citationMode=${citationMode || "none"}${isAsync ? ", async" : ""}`
+    );
 
     // Validate prompt
     if (!prompt || prompt.trim().length === 0) {
@@ -121,80 +266,29 @@ export const deepResearchTool: UnifiedTool = {
       fullPrompt = `${fullPrompt}\n\n${CITATION_INSTRUCTIONS[citationMode]}`;
     }
 
-    try {
-      // Execute Gemini CLI with deep_research tool (uses pro model)
-      const result = await executeGeminiCLI(fullPrompt, "deep_research", onProgress);
-
-      // Handle chunking if needed
-      let answer = result.answer;
-      let chunks: { cacheKey: string; current: number; total: number } | undefined;
-
-      if (needsChunking(result.answer)) {
-        const chunked = chunkResponse(result.answer);
-        const cacheKey = cacheResponse(chunked);
-        chunks = { cacheKey, current: 1, total: chunked.length };
-        answer = chunked[0].content;
-        Logger.debug(`deep_research: Response chunked into ${chunked.length} chunks, cacheKey=${cacheKey}`);
-      }
-
-      const latencyMs = Date.now() - startTime;
-
-      // Build response
-      const response = {
-        tool: "deep_research",
-        model: result.model,
-        focus: focus || "general",
-        citationMode: citationMode || "none",
-        answer,
-        filesAccessed: result.filesAccessed,
-        stats: {
-          tokensUsed: result.stats.tokensUsed,
-          toolCalls: result.stats.toolCalls,
-          latencyMs,
-        },
-        ...(chunks && { chunks }),
-        meta: {
-          projectRoot,
-          truncated: false,
-          warnings: chunks ? ["Response chunked due to size. Use fetch_chunk tool to retrieve remaining content."] : [],
-        },
-      };
-
-      Logger.info(`deep_research: Completed in ${latencyMs}ms`);
-      return JSON.stringify(response, null, 2);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      Logger.error(`deep_research: Failed - ${errorMessage}`);
-
-      // Determine error code and provide recovery hints
-      let code: ErrorCode = ERROR_CODES.GEMINI_CLI_ERROR;
-      let nextStep = "Check server logs for details";
-
-      if (errorMessage.includes("not found") || errorMessage.includes("ENOENT")) {
-        code = ERROR_CODES.GEMINI_CLI_NOT_FOUND;
-        nextStep = "Install Gemini CLI: npm install -g @google/gemini-cli, or run setup wizard: npx better-gemini-mcp init";
-      } else if (errorMessage.includes("auth") || errorMessage.includes("login")) {
-        code = ERROR_CODES.AUTH_MISSING;
-        nextStep = "Authenticate Gemini CLI: run 'gemini' and select 'Login with Google', or set GEMINI_API_KEY environment variable";
-      } else if (errorMessage.includes("quota")) {
-        code = ERROR_CODES.QUOTA_EXCEEDED;
-        nextStep = "Quota exhausted after fallback. Wait for quota reset or upgrade plan. Consider using quick_query for lighter tasks.";
-      }
+    // Run in the background; the response is kept for get_job_result
+    if (isAsync) {
+      const job = startJob("deep_research", (jobProgress, jobSignal) =>
+        runDeepResearch(fullPrompt, args as DeepResearchArgs, projectRoot, jobProgress, jobSignal)
+      );
 
       return JSON.stringify(
         {
-          error: {
-            code,
-            message: errorMessage,
-            details: {
-              tool: "deep_research",
-              nextStep,
-            },
+          tool: "deep_research",
+          jobId: job.id,
+          status: job.status,
+          meta: {
+            projectRoot,
+            truncated: false,
+            warnings: [],
           },
+          nextStep: "Poll get_job_status with this jobId, then call get_job_result once status is 'completed' or 'failed'; cancel_job stops it",
         },
         null,
         2
       );
     }
+
+    return runDeepResearch(fullPrompt, args as DeepResearchArgs, projectRoot, onProgress, signal);
   },
 };
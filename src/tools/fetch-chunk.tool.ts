@@ -1,15 +1,25 @@
 /**
  * Fetch Chunk Tool
  *
- * Retrieves a specific chunk of a large response that was previously split.
- * Used to continue receiving chunked responses after initial tool calls.
+ * Retrieves chunks of a large response that was previously split: a single
+ * chunk, a range or all remaining chunks (within a byte budget), or the chunks
+ * covering a markdown section. Every response carries a table of contents of
+ * the cached answer so agents can jump to the part they need.
  */
 
 import { z } from "zod";
 import type { UnifiedTool } from "./registry.js";
 import type { FetchChunkArgs, FetchChunkResponse } from "../types.js";
-import { ERROR_CODES, ERROR_MESSAGES } from "../constants.js";
-import { getResponse, getChunk, getCacheMetadata, Logger } from "../utils/index.js";
+import { DEFAULTS, ERROR_CODES, ERROR_MESSAGES, ERROR_NEXT_STEPS } from "../constants.js";
+import {
+  getResponse,
+  getChunk,
+  getCacheMetadata,
+  isEvicted,
+  buildTableOfContents,
+  findSectionRange,
+  Logger,
+} from "../utils/index.js";
 
 // ============================================================================
 // Schema
@@ -21,9 +31,121 @@ const fetchChunkSchema = z.object({
     .number()
     .int()
     .positive()
+    .optional()
     .describe("1-based index of chunk to retrieve"),
+  fromIndex: z.number().int().positive().optional().describe("First chunk of a range to retrieve (1-based)"),
+  toIndex: z.number().int().positive().optional().describe("Last chunk of a range to retrieve (inclusive)"),
+  remaining: z
+    .boolean()
+    .optional()
+    .describe("Retrieve every chunk from fromIndex (default: 2) to the last, within maxBytes"),
+  section: z
+    .string()
+    .optional()
+    .describe("Retrieve the chunks covering the section under this heading (see toc in any fetch_chunk response)"),
+  maxBytes: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Byte budget for the content of a range, remaining or section request (default: 50KB)"),
 });
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Build the error for a missing cache entry, telling eviction apart from expiry
+ */
+function cacheMissResponse(cacheKey: string): string {
+  if (isEvicted(cacheKey)) {
+    return JSON.stringify(
+      {
+        error: {
+          code: ERROR_CODES.CACHE_EVICTED,
+          message: ERROR_MESSAGES.CACHE_EVICTED,
+          details: { cacheKey, nextStep: ERROR_NEXT_STEPS.CACHE_EVICTED },
+        },
+      },
+      null,
+      2
+    );
+  }
+
+  return JSON.stringify(
+    {
+      error: {
+        code: ERROR_CODES.CACHE_EXPIRED,
+        message: ERROR_MESSAGES.CACHE_EXPIRED,
+        details: {
+          cacheKey,
+          nextStep: "Cache expired (1-hour TTL). Re-run the original query to regenerate the response.",
+        },
+      },
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Build an INVALID_ARGUMENT error response
+ */
+function invalidArgument(message: string, details: Record<string, unknown>): string {
+  return JSON.stringify(
+    {
+      error: {
+        code: ERROR_CODES.INVALID_ARGUMENT,
+        message,
+        details: { ...details, nextStep: ERROR_NEXT_STEPS.INVALID_ARGUMENT },
+      },
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Build the error for a chunk index beyond the cached response
+ */
+function invalidChunkIndexResponse(requestedIndex: number, totalChunks: number): string {
+  return JSON.stringify(
+    {
+      error: {
+        code: ERROR_CODES.INVALID_CHUNK_INDEX,
+        message: ERROR_MESSAGES.INVALID_CHUNK_INDEX,
+        details: {
+          requestedIndex,
+          totalChunks,
+          nextStep: `Request a chunk index between 1 and ${totalChunks}`,
+        },
+      },
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Take chunks from a range until the byte budget is used up (at least one chunk)
+ */
+function takeWithinBudget(
+  chunks: Array<{ index: number; content: string }>,
+  maxBytes: number
+): Array<{ index: number; content: string }> {
+  const taken: Array<{ index: number; content: string }> = [];
+  let bytes = 0;
+  for (const chunk of chunks) {
+    bytes += Buffer.byteLength(chunk.content, "utf-8");
+    if (taken.length > 0 && bytes > maxBytes) {
+      break;
+    }
+    taken.push(chunk);
+  }
+  return taken;
+}
+
 // ============================================================================
 // Tool Implementation
 // ============================================================================
@@ -31,14 +153,19 @@ const fetchChunkSchema = z.object({
 export const fetchChunkTool: UnifiedTool = {
   name: "fetch_chunk",
   description:
-    "Retrieve continuation of a large response. Use when a previous tool response included 'chunks' metadata indicating more content available. Example: {cacheKey: 'cache_abc123', chunkIndex: 2}",
+    "Retrieve continuation of a large response. Use when a previous tool response included 'chunks' metadata indicating more content available. Fetch one chunk, a range (fromIndex/toIndex), all remaining chunks, or a section by heading; every response includes a table of contents (toc). Examples: {cacheKey: 'cache_abc123', chunkIndex: 2}, {cacheKey: 'cache_abc123', remaining: true}, {cacheKey: 'cache_abc123', section: 'Security'}",
   zodSchema: fetchChunkSchema,
   category: "utility",
 
   execute: async (args, _onProgress) => {
-    const { cacheKey, chunkIndex } = args as FetchChunkArgs;
+    const { cacheKey, chunkIndex, fromIndex, toIndex, remaining, section, maxBytes } = args as FetchChunkArgs;
+    const isRange = fromIndex !== undefined || toIndex !== undefined || remaining === true || section !== undefined;
 
-    Logger.info(`fetch_chunk: Fetching chunk ${chunkIndex} for cacheKey=${cacheKey}`);
+    Logger.info(
+      isRange
+        ? `fetch_chunk: Fetching ${section !== undefined ? `section "${section}"` : "chunk range"} for cacheKey=${cacheKey}`
+        : `fetch_chunk: Fetching chunk ${chunkIndex} for cacheKey=${cacheKey}`
+    );
 
     // Validate cacheKey
     if (!cacheKey || typeof cacheKey !== "string") {
@@ -55,89 +182,125 @@ export const fetchChunkTool: UnifiedTool = {
       );
     }
 
-    // Validate chunkIndex
-    if (!Number.isInteger(chunkIndex) || chunkIndex < 1) {
-      return JSON.stringify(
-        {
-          error: {
-            code: ERROR_CODES.INVALID_ARGUMENT,
-            message: "chunkIndex must be a positive integer (1-based)",
-            details: { field: "chunkIndex", provided: chunkIndex },
+    // Validate indexes
+    for (const [field, value] of Object.entries({ chunkIndex, fromIndex, toIndex })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        return JSON.stringify(
+          {
+            error: {
+              code: ERROR_CODES.INVALID_ARGUMENT,
+              message: `${field} must be a positive integer (1-based)`,
+              details: { field, provided: value },
+            },
           },
-        },
-        null,
-        2
-      );
+          null,
+          2
+        );
+      }
+    }
+    if (!isRange && chunkIndex === undefined) {
+      return invalidArgument("Provide chunkIndex, a range (fromIndex/toIndex), remaining or section", {
+        field: "chunkIndex",
+      });
+    }
+    if (maxBytes !== undefined && (!Number.isInteger(maxBytes) || maxBytes < 1)) {
+      return invalidArgument("maxBytes must be a positive integer", { field: "maxBytes", provided: maxBytes });
     }
 
     // Check if cache entry exists
     const cacheEntry = getResponse(cacheKey);
     if (!cacheEntry) {
-      Logger.warn(`fetch_chunk: Cache key not found or expired: ${cacheKey}`);
-      return JSON.stringify(
-        {
-          error: {
-            code: ERROR_CODES.CACHE_EXPIRED,
-            message: ERROR_MESSAGES.CACHE_EXPIRED,
-            details: {
-              cacheKey,
-              nextStep: "Cache expired (1-hour TTL). Re-run the original query to regenerate the response.",
-            },
-          },
-        },
-        null,
-        2
-      );
+      Logger.warn(`fetch_chunk: Cache key not found, expired or evicted: ${cacheKey}`);
+      return cacheMissResponse(cacheKey);
     }
 
     // Get cache metadata for total chunks
     const metadata = getCacheMetadata(cacheKey);
     if (!metadata) {
-      return JSON.stringify(
-        {
-          error: {
-            code: ERROR_CODES.CACHE_EXPIRED,
-            message: ERROR_MESSAGES.CACHE_EXPIRED,
-            details: {
-              cacheKey,
-              nextStep: "Cache expired (1-hour TTL). Re-run the original query to regenerate the response.",
+      return cacheMissResponse(cacheKey);
+    }
+
+    const toc = buildTableOfContents(cacheEntry.chunks);
+    const total = metadata.totalChunks;
+
+    if (isRange) {
+      // Resolve the requested range
+      let from: number;
+      let to: number;
+      if (section !== undefined) {
+        const found = findSectionRange(cacheEntry.chunks, section);
+        if (!found) {
+          Logger.warn(`fetch_chunk: Section "${section}" not found in ${cacheKey}`);
+          return JSON.stringify(
+            {
+              error: {
+                code: ERROR_CODES.SECTION_NOT_FOUND,
+                message: ERROR_MESSAGES.SECTION_NOT_FOUND,
+                details: { section, toc, nextStep: ERROR_NEXT_STEPS.SECTION_NOT_FOUND },
+              },
             },
-          },
+            null,
+            2
+          );
+        }
+        from = found.fromIndex;
+        to = found.toIndex;
+      } else {
+        from = fromIndex ?? chunkIndex ?? (remaining ? Math.min(2, total) : 1);
+        to = remaining ? total : (toIndex ?? from);
+      }
+
+      if (from > total || to > total) {
+        Logger.warn(`fetch_chunk: Chunk range ${from}-${to} out of range (total: ${total})`);
+        return invalidChunkIndexResponse(Math.max(from, to), total);
+      }
+      if (to < from) {
+        return invalidArgument("toIndex must not be less than fromIndex", { field: "toIndex", fromIndex: from, toIndex: to });
+      }
+
+      const requested = cacheEntry.chunks
+        .slice(from - 1, to)
+        .map((chunk, i) => ({ index: from + i, content: chunk.content }));
+      const chunks = takeWithinBudget(requested, maxBytes ?? DEFAULTS.FETCH_MAX_BYTES);
+      const last = chunks[chunks.length - 1].index;
+
+      const response: FetchChunkResponse = {
+        tool: "fetch_chunk",
+        cacheKey,
+        chunks,
+        range: {
+          fromIndex: from,
+          toIndex: last,
+          total,
+          ...(last < to && { nextIndex: last + 1 }),
         },
-        null,
-        2
-      );
+        toc,
+        meta: {
+          expiresAt: metadata.expiresAt.toISOString(),
+        },
+      };
+
+      Logger.info(`fetch_chunk: Successfully retrieved chunks ${from}-${last}/${total}`);
+      return JSON.stringify(response, null, 2);
     }
 
+    const index = chunkIndex as number;
+
     // Validate chunk index is within range
-    if (chunkIndex > metadata.totalChunks) {
-      Logger.warn(`fetch_chunk: Chunk index ${chunkIndex} out of range (total: ${metadata.totalChunks})`);
-      return JSON.stringify(
-        {
-          error: {
-            code: ERROR_CODES.INVALID_CHUNK_INDEX,
-            message: ERROR_MESSAGES.INVALID_CHUNK_INDEX,
-            details: {
-              requestedIndex: chunkIndex,
-              totalChunks: metadata.totalChunks,
-              nextStep: `Request a chunk index between 1 and ${metadata.totalChunks}`,
-            },
-          },
-        },
-        null,
-        2
-      );
+    if (index > total) {
+      Logger.warn(`fetch_chunk: Chunk index ${index} out of range (total: ${total})`);
+      return invalidChunkIndexResponse(index, total);
     }
 
     // Get the specific chunk
-    const chunk = getChunk(cacheKey, chunkIndex);
+    const chunk = getChunk(cacheKey, index);
     if (!chunk) {
       return JSON.stringify(
         {
           error: {
             code: ERROR_CODES.INTERNAL,
             message: "Failed to retrieve chunk from cache",
-            details: { cacheKey, chunkIndex },
+            details: { cacheKey, chunkIndex: index },
           },
         },
         null,
@@ -150,16 +313,17 @@ export const fetchChunkTool: UnifiedTool = {
       tool: "fetch_chunk",
       cacheKey,
       chunk: {
-        index: chunkIndex,
-        total: metadata.totalChunks,
+        index,
+        total,
         content: chunk.content,
       },
+      toc,
       meta: {
         expiresAt: metadata.expiresAt.toISOString(),
       },
     };
 
-    Logger.info(`fetch_chunk: Successfully retrieved chunk ${chunkIndex}/${metadata.totalChunks}`);
+    Logger.info(`fetch_chunk: Successfully retrieved chunk ${index}/${total}`);
     return JSON.stringify(response, null, 2);
   },
 };
@@ -0,0 +1,76 @@
+/**
+ * Get Job Result Tool
+ *
+ * Returns the response of a finished async job exactly as the tool would
+ * have returned it synchronously, including chunk metadata for fetch_chunk.
+ */
+
+import { z } from "zod";
+import type { UnifiedTool } from "./registry.js";
+import type { JobArgs } from "../types.js";
+import { ERROR_CODES, ERROR_MESSAGES, ERROR_NEXT_STEPS } from "../constants.js";
+import { getJob, Logger } from "../utils/index.js";
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const getJobResultSchema = z.object({
+  jobId: z.string().describe("Job ID returned by deep_research with async: true"),
+});
+
+// ============================================================================
+// Tool Implementation
+// ============================================================================
+
+export const getJobResultTool: UnifiedTool = {
+  name: "get_job_result",
+  description:
+    "Retrieve the final response of a finished async job. Large answers are chunked; use fetch_chunk with the returned cacheKey for the rest. Example: {jobId: 'job_abc123'}",
+  zodSchema: getJobResultSchema,
+  category: "utility",
+
+  execute: async (args, _onProgress) => {
+    const { jobId } = args as JobArgs;
+
+    Logger.info(`get_job_result: Fetching jobId=${jobId}`);
+
+    const job = getJob(jobId);
+    if (!job) {
+      Logger.warn(`get_job_result: Job not found or expired: ${jobId}`);
+      return JSON.stringify(
+        {
+          error: {
+            code: ERROR_CODES.JOB_NOT_FOUND,
+            message: ERROR_MESSAGES.JOB_NOT_FOUND,
+            details: { jobId, nextStep: ERROR_NEXT_STEPS.JOB_NOT_FOUND },
+          },
+        },
+        null,
+        2
+      );
+    }
+
+    if (job.status === "running" || job.result === undefined) {
+      return JSON.stringify(
+        {
+          error: {
+            code: ERROR_CODES.JOB_NOT_COMPLETE,
+            message: ERROR_MESSAGES.JOB_NOT_COMPLETE,
+            details: {
+              jobId,
+              status: job.status,
+              progress: job.progress,
+              nextStep: ERROR_NEXT_STEPS.JOB_NOT_COMPLETE,
+            },
+          },
+        },
+        null,
+        2
+      );
+    }
+
+    Logger.info(`get_job_result: Returning ${job.status} result for jobId=${jobId}`);
+    return job.result;
+  },
+};
@@ -0,0 +1,68 @@
+/**
+ * Get Job Status Tool
+ *
+ * Reports the status and progress of an async job started with
+ * deep_research (async: true).
+ */
+
+import { z } from "zod";
+import type { UnifiedTool } from "./registry.js";
+import type { JobArgs } from "../types.js";
+import { ERROR_CODES, ERROR_MESSAGES, ERROR_NEXT_STEPS } from "../constants.js";
+import { getJob, Logger } from "../utils/index.js";
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const getJobStatusSchema = z.object({
+  jobId: z.string().describe("Job ID returned by deep_research with async: true"),
+});
+
+// ============================================================================
+// Tool Implementation
+// ============================================================================
+
+export const getJobStatusTool: UnifiedTool = {
+  name: "get_job_status",
+  description:
+    "Check the status and progress of an async job. When status is 'completed' or 'failed', call get_job_result. Example: {jobId: 'job_abc123'}",
+  zodSchema: getJobStatusSchema,
+  category: "utility",
+
+  execute: async (args, _onProgress) => {
+    const { jobId } = args as JobArgs;
+
+    Logger.info(`get_job_status: Checking jobId=${jobId}`);
+
+    const job = getJob(jobId);
+    if (!job) {
+      Logger.warn(`get_job_status: Job not found or expired: ${jobId}`);
+      return JSON.stringify(
+        {
+          error: {
+            code: ERROR_CODES.JOB_NOT_FOUND,
+            message: ERROR_MESSAGES.JOB_NOT_FOUND,
+            details: { jobId, nextStep: ERROR_NEXT_STEPS.JOB_NOT_FOUND },
+          },
+        },
+        null,
+        2
+      );
+    }
+
+    const response = {
+      tool: "get_job_status",
+      jobId: job.id,
+      jobTool: job.tool,
+      status: job.status,
+      createdAt: new Date(job.createdAt).toISOString(),
+      ...(job.finishedAt !== undefined && { finishedAt: new Date(job.finishedAt).toISOString() }),
+      elapsedMs: (job.finishedAt ?? Date.now()) - job.createdAt,
+      progress: job.progress,
+      ...(job.expiresAt !== undefined && { expiresAt: new Date(job.expiresAt).toISOString() }),
+    };
+
+    return JSON.stringify(response, null, 2);
+  },
+};
@@ -8,13 +8,20 @@
 import { z } from "zod";
 import type { UnifiedTool } from "./registry.js";
 import type { HealthCheckArgs, HealthCheckResponse, Diagnostics } from "../types.js";
-import { SERVER_INFO, ERROR_CODES } from "../constants.js";
+import { SERVER_INFO, BACKENDS, API, STORAGE } from "../constants.js";
 import {
   isGeminiCLIInstalled,
   getGeminiVersion,
   checkGeminiAuth,
   getProjectRoot,
+  loadConfig,
+  describeModelChains,
+  getQuotaCooldownMs,
+  getModelAvailability,
+  getBackendName,
+  getStorageConfig,
   Logger,
+  toErrorResponse,
 } from "../utils/index.js";
 
 // ============================================================================
@@ -66,6 +73,12 @@ export const healthCheckTool: UnifiedTool = {
     Logger.debug("health_check: Running diagnostics...");
 
     try {
+      // Resolve effective backend and model chains from config files and env overrides
+      const loadedConfig = loadConfig(projectRoot);
+      const backend = getBackendName(loadedConfig.config);
+      const usesCli = backend === BACKENDS.CLI;
+      const apiKeyMissing = backend === BACKENDS.API && !process.env[API.KEY_ENV];
+
       // Check Gemini CLI installation
       const geminiOnPath = await isGeminiCLIInstalled();
 
@@ -75,37 +88,67 @@ export const healthCheckTool: UnifiedTool = {
         geminiVersion = await getGeminiVersion();
       }
 
-      // Check authentication
+      // Check authentication (spawns the CLI, so only when it is the active backend)
       let authConfigured = false;
       let authMethod: string | undefined;
-      if (geminiOnPath) {
+      if (geminiOnPath && usesCli) {
         const auth = await checkGeminiAuth();
         authConfigured = auth.configured;
         authMethod = auth.method;
       }
 
+      // Models currently skipped by the quota circuit breaker
+      const exhaustedModels = getModelAvailability();
+
       // Collect warnings for any issues
-      const warnings: string[] = [];
-      if (!geminiOnPath) {
+      const warnings: string[] = [...loadedConfig.warnings];
+      if (apiKeyMissing) {
+        warnings.push(`The api backend requires ${API.KEY_ENV}. Get a key at https://aistudio.google.com/app/apikey`);
+      } else if (!usesCli) {
+        warnings.push(`Using the ${backend} backend; prompts are not sent to Gemini CLI`);
+      } else if (!geminiOnPath) {
         warnings.push("Gemini CLI not found on PATH. Install with: npm install -g @google/gemini-cli");
-      }
-      if (geminiOnPath && !authConfigured) {
+      } else if (!authConfigured) {
         warnings.push("Gemini CLI authentication not configured. Run 'gemini' and select 'Login with Google'.");
       }
+      for (const exhausted of exhaustedModels) {
+        warnings.push(
+          `Model ${exhausted.model} is in quota cooldown until ${new Date(exhausted.availableAt).toISOString()}`
+        );
+      }
+
+      const storage = getStorageConfig(loadedConfig.config, projectRoot);
 
       // Build diagnostics with proper typing
       const diagnostics: Diagnostics = {
         projectRoot,
+        backend,
         geminiOnPath,
         geminiVersion,
         authConfigured,
         readOnlyModeEnforced: true, // We never use --yolo flag
+        modelChains: describeModelChains(loadedConfig.config),
+        configSources: loadedConfig.sources,
+        quotaBreaker: {
+          cooldownMs: getQuotaCooldownMs(loadedConfig.config),
+          exhaustedModels: exhaustedModels.map((entry) => ({
+            model: entry.model,
+            availableAt: new Date(entry.availableAt).toISOString(),
+            source: entry.source,
+            reason: entry.reason,
+          })),
+        },
+        storage:
+          storage.type === STORAGE.DISK
+            ? { type: storage.type, stateDir: storage.stateDir, maxBytes: storage.maxBytes }
+            : { type: storage.type },
         ...(authMethod && { authMethod }),
         ...(warnings.length > 0 && { warnings }),
       };
 
       // Determine overall status
-      const status: HealthCheckResponse["status"] = geminiOnPath && authConfigured ? "ok" : "degraded";
+      const status: HealthCheckResponse["status"] =
+        apiKeyMissing || (usesCli && !(geminiOnPath && authConfigured)) ? "degraded" : "ok";
 
       const response: HealthCheckResponse = {
         tool: "health_check",
@@ -123,17 +166,11 @@ export const healthCheckTool: UnifiedTool = {
       const errorMessage = error instanceof Error ? error.message : String(error);
       Logger.error(`health_check: Diagnostics failed - ${errorMessage}`);
 
-      return JSON.stringify(
-        {
-          error: {
-            code: ERROR_CODES.INTERNAL,
-            message: `Health check failed: ${errorMessage}`,
-            details: { phase: "diagnostics" },
-          },
-        },
-        null,
-        2
-      );
+      const response = toErrorResponse(error, "health_check", {
+        message: `Health check failed: ${errorMessage}`,
+        details: { phase: "diagnostics" },
+      });
+      return JSON.stringify(response, null, 2);
     }
   },
 };
@@ -17,6 +17,10 @@ import { analyzeDirectoryTool } from "./analyze-directory.tool.js";
 import { validatePathsTool } from "./validate-paths.tool.js";
 import { healthCheckTool } from "./health-check.tool.js";
 import { fetchChunkTool } from "./fetch-chunk.tool.js";
+import { searchCachedTool } from "./search-cached.tool.js";
+import { getJobStatusTool } from "./get-job-status.tool.js";
+import { getJobResultTool } from "./get-job-result.tool.js";
+import { cancelJobTool } from "./cancel-job.tool.js";
 
 // ============================================================================
 // Tool Registration
@@ -28,7 +32,11 @@ toolRegistry.push(
   analyzeDirectoryTool,
   validatePathsTool,
   healthCheckTool,
-  fetchChunkTool
+  fetchChunkTool,
+  searchCachedTool,
+  getJobStatusTool,
+  getJobResultTool,
+  cancelJobTool
 );
 
 // ============================================================================
@@ -48,3 +56,7 @@ export { analyzeDirectoryTool } from "./analyze-directory.tool.js";
 export { validatePathsTool } from "./validate-paths.tool.js";
 export { healthCheckTool } from "./health-check.tool.js";
 export { fetchChunkTool } from "./fetch-chunk.tool.js";
+export { searchCachedTool } from "./search-cached.tool.js";
+export { getJobStatusTool } from "./get-job-status.tool.js";
+export { getJobResultTool } from "./get-job-result.tool.js";
+export { cancelJobTool } from "./cancel-job.tool.js";
@@ -8,16 +8,22 @@
 import { z } from "zod";
 import type { UnifiedTool } from "./registry.js";
 import type { QuickQueryArgs } from "../types.js";
-import { ERROR_CODES, ERROR_MESSAGES } from "../constants.js";
-import type { ErrorCode } from "../constants.js";
+import { DEFAULTS, ERROR_CODES, ERROR_MESSAGES, FOCUS_INSTRUCTIONS, STYLE_INSTRUCTIONS } from "../constants.js";
 import {
   executeGeminiCLI,
   getProjectRoot,
   checkPromptPathsValid,
   chunkResponse,
   needsChunking,
+  getChunkSizeKB,
+  getChunkMaxTokens,
   cacheResponse,
   Logger,
+  toErrorResponse,
+  buildAnswerCacheKey,
+  getCachedAnswer,
+  cacheAnswer,
+  type GeminiResponse,
 } from "../utils/index.js";
 
 // ============================================================================
@@ -35,29 +41,21 @@ const quickQuerySchema = z.object({
     .optional()
     .default("normal")
     .describe("Desired verbosity of response"),
+  noCache: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Skip the answer cache and always query Gemini (answers are otherwise reused until a referenced @path file changes)"),
+  maxChunkTokens: z
+    .number()
+    .int()
+    .min(DEFAULTS.MIN_CHUNK_MAX_TOKENS)
+    .optional()
+    .describe(
+      `Limit each returned chunk to about this many tokens (at least ${DEFAULTS.MIN_CHUNK_MAX_TOKENS}), in addition to the byte-based chunk size`
+    ),
 });
 
-// ============================================================================
-// Focus Area Instructions
-// ============================================================================
-
-const FOCUS_INSTRUCTIONS: Record<string, string> = {
-  security: "Focus on security implications, vulnerabilities, attack vectors, and security best practices.",
-  architecture: "Focus on architectural patterns, design decisions, component relationships, and structural concerns.",
-  performance: "Focus on performance characteristics, bottlenecks, optimization opportunities, and efficiency.",
-  general: "", // No additional focus instructions
-};
-
-// ============================================================================
-// Response Style Instructions
-// ============================================================================
-
-const STYLE_INSTRUCTIONS: Record<string, string> = {
-  concise: "Provide a brief, focused response with only essential information.",
-  normal: "Provide a balanced response with key details and explanations.",
-  detailed: "Provide a comprehensive response with thorough analysis and examples.",
-};
-
 // ============================================================================
 // Tool Implementation
 // ============================================================================
@@ -69,9 +67,9 @@ export const quickQueryTool: UnifiedTool = {
   zodSchema: quickQuerySchema,
   category: "query",
 
-  execute: async (args, onProgress) => {
+  execute: async (args, onProgress, signal) => {
     const startTime = Date.now();
-    const { prompt, focus, responseStyle } = args as QuickQueryArgs;
+    const { prompt, focus, responseStyle, noCache, maxChunkTokens } = args as QuickQueryArgs;
     const projectRoot = getProjectRoot();
 
     Logger.info(`quick_query: Starting with focus=${focus || "none"}, style=${responseStyle || "normal"}`);
@@ -122,16 +120,34 @@ export const quickQueryTool: UnifiedTool = {
     }
 
     try {
+      // Reuse the answer to an identical query unless a referenced file changed
+      const answerKey = noCache
+        ? null
+        : await buildAnswerCacheKey(
+            {
+              tool: "quick_query",
+              prompt,
+              options: { focus: focus || "general", responseStyle: responseStyle || "normal" },
+            },
+            projectRoot
+          );
+      const cached = answerKey ? getCachedAnswer<GeminiResponse>(answerKey) : null;
+
       // Execute Gemini CLI
-      const result = await executeGeminiCLI(fullPrompt, "quick_query", onProgress);
+      const result = cached ?? (await executeGeminiCLI(fullPrompt, "quick_query", onProgress, signal));
+      if (answerKey && !cached) {
+        cacheAnswer(answerKey, result);
+      }
 
       // Handle chunking if needed
       let answer = result.answer;
       let chunks: { cacheKey: string; current: number; total: number } | undefined;
+      const chunkSizeKB = getChunkSizeKB();
+      const maxTokens = maxChunkTokens ?? getChunkMaxTokens();
 
-      if (needsChunking(result.answer)) {
-        const chunked = chunkResponse(result.answer);
-        const cacheKey = cacheResponse(chunked);
+      if (needsChunking(result.answer, chunkSizeKB, maxTokens)) {
+        const chunked = chunkResponse(result.answer, chunkSizeKB, maxTokens);
+        const cacheKey = cacheResponse(chunked, DEFAULTS.CACHE_TTL_MS, result.answer);
         chunks = { cacheKey, current: 1, total: chunked.length };
         answer = chunked[0].content;
         Logger.debug(`quick_query: Response chunked into ${chunked.length} chunks, cacheKey=${cacheKey}`);
@@ -139,6 +155,14 @@ export const quickQueryTool: UnifiedTool = {
 
       const latencyMs = Date.now() - startTime;
 
+      const warnings: string[] = [];
+      if (chunks) {
+        warnings.push("Response chunked due to size. Use fetch_chunk tool to retrieve remaining content.");
+      }
+      if (result.missingFiles.length > 0) {
+        warnings.push(`Referenced files do not exist: ${result.missingFiles.join(", ")}`);
+      }
+
       // Build response
       const response = {
         tool: "quick_query",
@@ -147,54 +171,26 @@ export const quickQueryTool: UnifiedTool = {
         responseStyle: responseStyle || "normal",
         answer,
         filesAccessed: result.filesAccessed,
-        stats: {
-          tokensUsed: result.stats.tokensUsed,
-          toolCalls: result.stats.toolCalls,
-          latencyMs,
-        },
+        filesCited: result.filesCited,
+        ...(result.missingFiles.length > 0 && { missingFiles: result.missingFiles }),
+        // A cached answer cost no Gemini usage this time
+        stats: cached ? { latencyMs } : { ...result.stats, latencyMs },
         ...(chunks && { chunks }),
         meta: {
           projectRoot,
           truncated: false,
-          warnings: chunks ? ["Response chunked due to size. Use fetch_chunk tool to retrieve remaining content."] : [],
+          warnings,
+          cached: cached !== null,
         },
       };
 
-      Logger.info(`quick_query: Completed in ${latencyMs}ms`);
+      Logger.info(`quick_query: Completed in ${latencyMs}ms${cached ? " (cached)" : ""}`);
       return JSON.stringify(response, null, 2);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       Logger.error(`quick_query: Failed - ${errorMessage}`);
 
-      // Determine error code and provide recovery hints
-      let code: ErrorCode = ERROR_CODES.GEMINI_CLI_ERROR;
-      let nextStep = "Check server logs for details";
-
-      if (errorMessage.includes("not found") || errorMessage.includes("ENOENT")) {
-        code = ERROR_CODES.GEMINI_CLI_NOT_FOUND;
-        nextStep = "Install Gemini CLI: npm install -g @google/gemini-cli, or run setup wizard: npx better-gemini-mcp init";
-      } else if (errorMessage.includes("auth") || errorMessage.includes("login")) {
-        code = ERROR_CODES.AUTH_MISSING;
-        nextStep = "Authenticate Gemini CLI: run 'gemini' and select 'Login with Google', or set GEMINI_API_KEY environment variable";
-      } else if (errorMessage.includes("quota")) {
-        code = ERROR_CODES.QUOTA_EXCEEDED;
-        nextStep = "Quota exhausted after fallback. Wait for quota reset or upgrade plan. Consider using quick_query for lighter tasks.";
-      }
-
-      return JSON.stringify(
-        {
-          error: {
-            code,
-            message: errorMessage,
-            details: {
-              tool: "quick_query",
-              nextStep,
-            },
-          },
-        },
-        null,
-        2
-      );
+      return JSON.stringify(toErrorResponse(error, "quick_query"), null, 2);
     }
   },
 };
@@ -7,6 +7,7 @@ import type { Tool } from "@modelcontextprotocol/sdk/types.js";
 import type { ZodTypeAny, ZodError } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import type { ToolArguments, ProgressCallback } from "../types.js";
+import { InvalidArgumentError, toArgumentIssues } from "../utils/errors.js";
 
 // ============================================================================
 // UnifiedTool Interface
@@ -26,8 +27,12 @@ export interface UnifiedTool {
   /** Zod schema for input validation */
   zodSchema: ZodTypeAny;
 
-  /** Execute the tool with validated arguments */
-  execute: (args: ToolArguments, onProgress?: ProgressCallback) => Promise<string>;
+  /** Execute the tool with validated arguments; `signal` aborts when the client cancels */
+  execute: (
+    args: ToolArguments,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ) => Promise<string>;
 
   /** Optional category for grouping */
   category?: "query" | "utility";
@@ -89,11 +94,14 @@ export function getToolDefinitions(): Tool[] {
 /**
  * Execute a tool by name with the given arguments
  * Validates arguments against the tool's Zod schema before execution
+ *
+ * @throws InvalidArgumentError if the arguments fail validation
  */
 export async function executeTool(
   toolName: string,
   args: ToolArguments,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
 ): Promise<string> {
   const tool = toolRegistry.find((t) => t.name === toolName);
 
@@ -104,14 +112,13 @@ export async function executeTool(
   try {
     // Validate arguments against Zod schema
     const validatedArgs = tool.zodSchema.parse(args) as ToolArguments;
-    return await tool.execute(validatedArgs, onProgress);
+    return await tool.execute(validatedArgs, onProgress, signal);
   } catch (error) {
     // Handle Zod validation errors specially
     if (isZodError(error)) {
-      const issues = error.issues
-        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
-        .join(", ");
-      throw new Error(`Invalid arguments for ${toolName}: ${issues}`);
+      const issues = toArgumentIssues(error);
+      const summary = issues.map((issue) => `${issue.field}: ${issue.message}`).join(", ");
+      throw new InvalidArgumentError(`Invalid arguments for ${toolName}: ${summary}`, issues);
     }
     throw error;
   }
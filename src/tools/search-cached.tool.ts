@@ -0,0 +1,137 @@
+/**
+ * Search Cached Tool
+ *
+ * Searches a chunked response by literal text or regular expression and
+ * returns only the matching lines with surrounding context and the chunk each
+ * lives in, so agents do not have to pull whole chunks into their context.
+ * Regex matching is time-limited (DEFAULTS.SEARCH_TIMEOUT_MS).
+ */
+
+import { z } from "zod";
+import type { UnifiedTool } from "./registry.js";
+import type { SearchCachedArgs, SearchCachedResponse } from "../types.js";
+import { DEFAULTS, ERROR_CODES, ERROR_MESSAGES, ERROR_NEXT_STEPS } from "../constants.js";
+import {
+  getResponse,
+  isEvicted,
+  compileSearchPattern,
+  searchCacheEntry,
+  type CacheSearchResult,
+  InvalidArgumentError,
+  Logger,
+} from "../utils/index.js";
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const searchCachedSchema = z.object({
+  cacheKey: z.string().describe("Cache key returned in initial chunked response"),
+  query: z.string().min(1).describe("Text to search for (or a regular expression with regex: true)"),
+  regex: z.boolean().optional().default(false).describe("Treat query as a JavaScript regular expression"),
+  caseSensitive: z.boolean().optional().default(false).describe("Match letter case exactly"),
+  contextLines: z
+    .number()
+    .int()
+    .min(0)
+    .max(10)
+    .optional()
+    .describe(`Lines of context before and after each match (default: ${DEFAULTS.SEARCH_CONTEXT_LINES})`),
+  maxMatches: z
+    .number()
+    .int()
+    .positive()
+    .max(100)
+    .optional()
+    .describe(`Maximum matches to return (default: ${DEFAULTS.SEARCH_MAX_MATCHES})`),
+});
+
+// ============================================================================
+// Tool Implementation
+// ============================================================================
+
+export const searchCachedTool: UnifiedTool = {
+  name: "search_cached",
+  description:
+    "Search a chunked response for a file, symbol or phrase without fetching its chunks. Returns matching lines with context and the chunk index of each (use fetch_chunk to read more). Example: {cacheKey: 'cache_abc123', query: 'src/auth.ts'}",
+  zodSchema: searchCachedSchema,
+  category: "utility",
+
+  execute: async (args, _onProgress) => {
+    const {
+      cacheKey,
+      query,
+      regex = false,
+      caseSensitive = false,
+      contextLines = DEFAULTS.SEARCH_CONTEXT_LINES,
+      maxMatches = DEFAULTS.SEARCH_MAX_MATCHES,
+    } = args as SearchCachedArgs;
+
+    Logger.info(`search_cached: Searching cacheKey=${cacheKey} for ${regex ? "pattern" : "text"} "${query}"`);
+
+    const invalidQuery = (error: InvalidArgumentError): string =>
+      JSON.stringify(
+        {
+          error: {
+            code: ERROR_CODES.INVALID_ARGUMENT,
+            message: error.message,
+            details: { field: "query", provided: query, nextStep: ERROR_NEXT_STEPS.INVALID_ARGUMENT },
+          },
+        },
+        null,
+        2
+      );
+
+    let pattern: RegExp;
+    try {
+      pattern = compileSearchPattern(query, regex, caseSensitive);
+    } catch (error) {
+      if (error instanceof InvalidArgumentError) return invalidQuery(error);
+      throw error;
+    }
+
+    const cacheEntry = getResponse(cacheKey);
+    if (!cacheEntry) {
+      Logger.warn(`search_cached: Cache key not found, expired or evicted: ${cacheKey}`);
+      const code = isEvicted(cacheKey) ? ERROR_CODES.CACHE_EVICTED : ERROR_CODES.CACHE_EXPIRED;
+      return JSON.stringify(
+        {
+          error: {
+            code,
+            message: ERROR_MESSAGES[code],
+            details: { cacheKey, nextStep: ERROR_NEXT_STEPS[code] },
+          },
+        },
+        null,
+        2
+      );
+    }
+
+    let result: CacheSearchResult;
+    try {
+      result = searchCacheEntry(cacheEntry, pattern, { contextLines, maxMatches });
+    } catch (error) {
+      if (error instanceof InvalidArgumentError) {
+        Logger.warn(`search_cached: ${error.message}`);
+        return invalidQuery(error);
+      }
+      throw error;
+    }
+    const { matches, totalMatches } = result;
+
+    const response: SearchCachedResponse = {
+      tool: "search_cached",
+      cacheKey,
+      query,
+      matches,
+      totalMatches,
+      truncated: totalMatches > matches.length,
+      meta: {
+        expiresAt: new Date(cacheEntry.expiresAt).toISOString(),
+      },
+    };
+
+    Logger.info(`search_cached: Found ${totalMatches} matching lines in ${cacheEntry.chunks.length} chunks`);
+    return JSON.stringify(response, null, 2);
+  },
+};
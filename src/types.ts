@@ -23,6 +23,10 @@ export interface QuickQueryArgs extends ToolArguments {
   prompt: string;
   focus?: "security" | "architecture" | "performance" | "general";
   responseStyle?: "concise" | "normal" | "detailed";
+  /** Skip the answer cache and always query Gemini */
+  noCache?: boolean;
+  /** Limit on estimated tokens per returned chunk */
+  maxChunkTokens?: number;
 }
 
 /**
@@ -31,7 +35,13 @@ export interface QuickQueryArgs extends ToolArguments {
 export interface DeepResearchArgs extends ToolArguments {
   prompt: string;
   focus?: "security" | "architecture" | "performance" | "general";
-  citationMode?: "none" | "paths_only";
+  citationMode?: "none" | "paths_only" | "paths_with_lines";
+  /** Run in the background and return a jobId immediately */
+  async?: boolean;
+  /** Skip the answer cache and always query Gemini */
+  noCache?: boolean;
+  /** Limit on estimated tokens per returned chunk */
+  maxChunkTokens?: number;
 }
 
 /**
@@ -57,22 +67,94 @@ export interface HealthCheckArgs extends ToolArguments {
   includeDiagnostics?: boolean;
 }
 
+/**
+ * Arguments for get_job_status, get_job_result and cancel_job tools
+ */
+export interface JobArgs extends ToolArguments {
+  jobId: string;
+}
+
+/**
+ * Arguments for search_cached tool
+ */
+export interface SearchCachedArgs extends ToolArguments {
+  cacheKey: string;
+  query: string;
+  /** Treat query as a regular expression instead of literal text */
+  regex?: boolean;
+  caseSensitive?: boolean;
+  /** Lines of context before and after each match */
+  contextLines?: number;
+  maxMatches?: number;
+}
+
 /**
  * Arguments for fetch_chunk tool
  */
 export interface FetchChunkArgs extends ToolArguments {
   cacheKey: string;
-  chunkIndex: number;
+  /** Single chunk to return (1-based) */
+  chunkIndex?: number;
+  /** First chunk of a range (1-based) */
+  fromIndex?: number;
+  /** Last chunk of a range (inclusive) */
+  toIndex?: number;
+  /** Return every chunk from fromIndex (default: 2) to the last */
+  remaining?: boolean;
+  /** Return the chunks covering the section under this heading */
+  section?: string;
+  /** Byte budget for the chunk content of a range */
+  maxBytes?: number;
 }
 
 // ============================================================================
 // Tool Response Types
 // ============================================================================
 
+/**
+ * Token counts for one model, as reported by Gemini
+ */
+export interface ModelTokenUsage {
+  prompt: number;
+  candidates: number;
+  /** Prompt tokens served from the context cache */
+  cached: number;
+  thoughts: number;
+  /** Tokens from tool results fed back to the model */
+  tool: number;
+  total: number;
+}
+
+/**
+ * Usage of one model during a tool execution
+ */
+export interface ModelUsage {
+  requests: number;
+  errors: number;
+  /** Time spent waiting on the Gemini API for this model */
+  latencyMs: number;
+  tokens: ModelTokenUsage;
+}
+
+/**
+ * Detailed usage reported by Gemini
+ * Every field is optional: older CLI versions report less.
+ */
+export interface UsageBreakdown {
+  /** Time spent waiting on the Gemini API, summed across models */
+  apiLatencyMs?: number;
+  /** Prompt tokens served from the context cache, summed across models */
+  cachedTokens?: number;
+  /** Per-model usage, keyed by model name */
+  models?: Record<string, ModelUsage>;
+  /** Tool calls made by Gemini, keyed by tool name */
+  toolCallsByName?: Record<string, number>;
+}
+
 /**
  * Statistics for a tool execution
  */
-export interface ToolStats {
+export interface ToolStats extends UsageBreakdown {
   tokensUsed?: number;
   toolCalls?: number;
   latencyMs: number;
@@ -94,6 +176,8 @@ export interface ResponseMeta {
   projectRoot: string;
   truncated: boolean;
   warnings: string[];
+  /** Query tools: the answer was served from the answer cache */
+  cached?: boolean;
 }
 
 /**
@@ -104,6 +188,23 @@ export interface BaseToolResponse {
   meta: ResponseMeta;
 }
 
+/**
+ * A file citation from an answer, checked against the filesystem
+ */
+export interface Citation {
+  /** Cited path (relative to project root when inside it) */
+  path: string;
+  /** Cited line range (1-based, inclusive), if the citation had one */
+  lines?: { start: number; end: number };
+  status: "verified" | "unverified";
+  /** Why the citation could not be verified */
+  reason?: string;
+  /** Source of the cited lines, read locally (paths_with_lines mode, verified citations only) */
+  excerpt?: string;
+  /** True if the excerpt was cut to the configured maximum */
+  excerptTruncated?: boolean;
+}
+
 /**
  * Response structure for quick_query and deep_research tools
  */
@@ -113,7 +214,14 @@ export interface QueryToolResponse extends BaseToolResponse {
   responseStyle?: string;
   citationMode?: string;
   answer: string;
+  /** Files Gemini's tools read or listed */
   filesAccessed: string[];
+  /** Files mentioned in the answer */
+  filesCited: string[];
+  /** Accessed or cited files that do not exist (omitted when empty) */
+  missingFiles?: string[];
+  /** Verified citations (deep_research with a citation mode) */
+  citations?: Citation[];
   stats: ToolStats;
   chunks?: ChunkInfo;
 }
@@ -164,15 +272,49 @@ export interface ValidatePathsResponse {
  */
 export interface Diagnostics {
   projectRoot: string;
+  /** Backend used to run prompts (e.g., "cli", "fake") */
+  backend?: string;
   geminiOnPath: boolean;
   geminiVersion?: string | null;
   authConfigured: boolean;
   authMethod?: string;
   readOnlyModeEnforced: boolean;
   gitIgnoreRespected?: boolean;
+  /** Effective model chain per tool ("auto" = auto-select) */
+  modelChains?: Record<string, string[]>;
+  /** Config files / env overrides that were applied */
+  configSources?: string[];
+  /** Quota circuit-breaker state (models currently skipped) */
+  quotaBreaker?: QuotaBreakerDiagnostics;
+  /** Where chunk caches and async jobs are stored */
+  storage?: StorageDiagnostics;
   warnings?: string[];
 }
 
+/**
+ * State storage settings reported by health_check
+ */
+export interface StorageDiagnostics {
+  type: string;
+  /** Disk store only */
+  stateDir?: string;
+  /** Disk store size cap per namespace */
+  maxBytes?: number;
+}
+
+/**
+ * Quota circuit-breaker state reported by health_check
+ */
+export interface QuotaBreakerDiagnostics {
+  cooldownMs: number;
+  exhaustedModels: Array<{
+    model: string;
+    availableAt: string;
+    source: "reset_time" | "cooldown";
+    reason: string;
+  }>;
+}
+
 /**
  * Response structure for health_check tool
  * Note: Does not include meta field (simpler utility response)
@@ -187,6 +329,16 @@ export interface HealthCheckResponse {
   diagnostics?: Diagnostics;
 }
 
+/**
+ * Heading of a cached answer, for fetch_chunk's table of contents
+ */
+export interface TocEntry {
+  level: number;
+  title: string;
+  /** Chunk the heading appears in (1-based) */
+  chunkIndex: number;
+}
+
 /**
  * Response structure for fetch_chunk tool
  * Note: Has simplified meta with just expiresAt
@@ -194,11 +346,56 @@ export interface HealthCheckResponse {
 export interface FetchChunkResponse {
   tool: string;
   cacheKey: string;
-  chunk: {
+  /** The requested chunk (chunkIndex requests) */
+  chunk?: {
     index: number;
     total: number;
     content: string;
   };
+  /** The requested chunks (range, remaining and section requests) */
+  chunks?: Array<{
+    index: number;
+    content: string;
+  }>;
+  range?: {
+    fromIndex: number;
+    /** Last chunk returned */
+    toIndex: number;
+    total: number;
+    /** First chunk left out by the byte budget, if any */
+    nextIndex?: number;
+  };
+  /** Headings of the whole cached answer */
+  toc: TocEntry[];
+  meta: {
+    expiresAt: string;
+  };
+}
+
+/**
+ * One matching line in a cached response
+ */
+export interface CachedMatch {
+  /** Chunk the line is in (1-based) */
+  chunkIndex: number;
+  /** Line number within the chunk (1-based) */
+  line: number;
+  text: string;
+  before: string[];
+  after: string[];
+}
+
+/**
+ * Response structure for search_cached tool
+ */
+export interface SearchCachedResponse {
+  tool: string;
+  cacheKey: string;
+  query: string;
+  matches: CachedMatch[];
+  /** Matching lines in the whole response, including those beyond maxMatches */
+  totalMatches: number;
+  truncated: boolean;
   meta: {
     expiresAt: string;
   };
@@ -245,6 +442,57 @@ export interface GeminiExecutionResult {
   error?: string;
 }
 
+// ============================================================================
+// Job Types
+// ============================================================================
+
+/**
+ * Lifecycle of an async job
+ * A job whose tool returned an ErrorResponse is "failed"; one stopped with
+ * cancel_job is "cancelled".
+ */
+export type JobStatus = "running" | "completed" | "failed" | "cancelled";
+
+/**
+ * Progress reported by a running job
+ */
+export interface JobProgress {
+  /** Number of progress updates received */
+  updates: number;
+  /** Latest status or tool activity message */
+  lastMessage?: string;
+  /** Characters of answer text streamed so far */
+  outputChars: number;
+}
+
+/**
+ * An async tool execution
+ */
+export interface Job {
+  id: string;
+  /** Tool being run (e.g., deep_research) */
+  tool: string;
+  status: JobStatus;
+  createdAt: number;
+  finishedAt?: number;
+  /** Finished jobs are removed after this time */
+  expiresAt?: number;
+  progress: JobProgress;
+  /** Tool response text (set when finished) */
+  result?: string;
+  /** Server process running the job */
+  owner?: JobOwner;
+}
+
+/**
+ * Server process that started a job
+ */
+export interface JobOwner {
+  pid: number;
+  /** Random per-process value, so a later process reusing the pid is not taken for the owner */
+  nonce: string;
+}
+
 // ============================================================================
 // Cache Types
 // ============================================================================
@@ -256,6 +504,10 @@ export interface CachedChunk {
   content: string;
   index: number;
   total: number;
+  /** Offset in the original response where this chunk's own text starts */
+  offset?: number;
+  /** Characters of context the chunker prepended (breadcrumb, reopened fence, table header) */
+  prefixLength?: number;
 }
 
 /**
@@ -263,15 +515,46 @@ export interface CachedChunk {
  */
 export interface CacheEntry {
   chunks: CachedChunk[];
+  /**
+   * The response as returned by Gemini; joining the chunks does not restore
+   * it (continuation chunks carry breadcrumbs, reopened fences and repeated
+   * table headers)
+   */
+  response?: string;
   createdAt: number;
   expiresAt: number;
 }
 
+// ============================================================================
+// Completion Types
+// ============================================================================
+
+/**
+ * Suggested values for an argument (MCP completion/complete)
+ */
+export interface CompletionValues {
+  /** At most COMPLETION.MAX_VALUES suggestions */
+  values: string[];
+  /** Number of matches before the cap */
+  total: number;
+  hasMore: boolean;
+}
+
 // ============================================================================
 // Progress Types
 // ============================================================================
 
+/**
+ * Structured progress event emitted while Gemini is working
+ * (partial answer text, tool activity, or fallback status)
+ */
+export interface ProgressEvent {
+  kind: "text" | "tool_use" | "status";
+  message: string;
+}
+
 /**
  * Progress callback function type
+ * `output` is raw output to append to the preview; `event` is set for structured updates
  */
-export type ProgressCallback = (output: string) => void;
+export type ProgressCallback = (output: string, event?: ProgressEvent) => void;
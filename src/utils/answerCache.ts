@@ -0,0 +1,245 @@
+/**
+ * Answer cache for query tools
+ *
+ * Memoizes Gemini answers keyed by tool, normalized prompt, tool options and
+ * the content hash of every @path file in the prompt, so repeating a question
+ * returns instantly until one of the referenced files changes. Entries are kept
+ * in the state store for 1 hour (DEFAULTS.ANSWER_CACHE_TTL_MS), swept
+ * periodically, and capped at DEFAULTS.ANSWER_CACHE_MAX_ENTRIES (oldest first).
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { DEFAULTS } from "../constants.js";
+import { enumerateFiles } from "./ignorePatterns.js";
+import { Logger } from "./logger.js";
+import { extractAtPathReferences } from "./pathValidator.js";
+import { defineStateStore } from "./stateStore.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What identifies a query, apart from the files it references
+ */
+export interface AnswerCacheQuery {
+  tool: string;
+  prompt: string;
+  /** Options that change the prompt sent to Gemini (e.g., focus, responseStyle) */
+  options: Record<string, string | number | boolean | undefined>;
+}
+
+/**
+ * Stored answer
+ */
+interface AnswerCacheEntry {
+  createdAt: number;
+  expiresAt: number;
+  /** Whatever the caller stored with cacheAnswer (JSON-serializable) */
+  value: unknown;
+}
+
+/**
+ * Answer storage selected by config
+ */
+const answerStore = defineStateStore<AnswerCacheEntry>("answers", {
+  onEvict: (key) => storedKeys.delete(key),
+});
+
+/**
+ * Keys stored by this process with their expiry, oldest first (for the
+ * entry cap). Entries left on disk by a previous run are not counted; the
+ * sweep and the disk store's size cap bound them.
+ */
+const storedKeys = new Map<string, number>();
+
+// ============================================================================
+// Key
+// ============================================================================
+
+/**
+ * Normalize a prompt so whitespace-only differences share an entry
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Hash a file's contents
+ */
+function hashFile(filePath: string): string {
+  return crypto.createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+}
+
+/**
+ * Hash the contents of every file an @path reference covers
+ *
+ * Directories are hashed over their (non-ignored) files. Missing or
+ * unreadable paths are recorded as such, so creating them changes the key.
+ * A directory with more than DEFAULTS.MAX_FILES files cannot be hashed in
+ * full, so changes beyond the listing would go unnoticed; the query is then
+ * uncacheable.
+ *
+ * @param prompt - Prompt containing @path references
+ * @param projectRoot - Project root directory
+ * @returns Content hash per referenced path, keyed by the path as written,
+ *   or null if a directory listing was truncated
+ */
+export async function hashReferencedFiles(
+  prompt: string,
+  projectRoot: string
+): Promise<Record<string, string> | null> {
+  const hashes: Record<string, string> = {};
+
+  for (const reference of [...new Set(extractAtPathReferences(prompt))].sort()) {
+    const resolved = path.resolve(projectRoot, reference);
+    try {
+      if (!fs.statSync(resolved).isDirectory()) {
+        hashes[reference] = hashFile(resolved);
+        continue;
+      }
+
+      const { files, truncated } = await enumerateFiles(resolved, projectRoot, DEFAULTS.MAX_FILES);
+      if (truncated) {
+        Logger.debug(`Answer cache: @${reference} has more than ${DEFAULTS.MAX_FILES} files; not caching`);
+        return null;
+      }
+      const directoryHash = crypto.createHash("sha256");
+      for (const file of [...files].sort()) {
+        directoryHash.update(`${file}\0${hashFile(path.resolve(projectRoot, file))}\0`);
+      }
+      hashes[reference] = directoryHash.digest("hex");
+    } catch {
+      hashes[reference] = "unreadable";
+    }
+  }
+
+  return hashes;
+}
+
+/**
+ * Build the answer cache key for a query
+ *
+ * @param query - Tool, prompt and options
+ * @param projectRoot - Project root used to resolve @path references
+ * @returns Cache key in format "answer_<sha256>", or null if the query is uncacheable
+ */
+export async function buildAnswerCacheKey(query: AnswerCacheQuery, projectRoot: string): Promise<string | null> {
+  const files = await hashReferencedFiles(query.prompt, projectRoot);
+  if (!files) {
+    return null;
+  }
+
+  const options = Object.fromEntries(
+    Object.entries(query.options)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+
+  const material = JSON.stringify({
+    tool: query.tool,
+    prompt: normalizePrompt(query.prompt),
+    options,
+    projectRoot: path.resolve(projectRoot),
+    files,
+  });
+
+  return `answer_${crypto.createHash("sha256").update(material).digest("hex")}`;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Get a memoized answer
+ *
+ * @param key - Key from buildAnswerCacheKey
+ * @returns The stored value, or null if missing or expired
+ */
+export function getCachedAnswer<T>(key: string): T | null {
+  // Keys embed the tool name, so an entry always holds the type its tool stored
+  return (answerStore().get(key)?.value as T | undefined) ?? null;
+}
+
+/**
+ * Memoize an answer
+ *
+ * @param key - Key from buildAnswerCacheKey
+ * @param value - Value to store (must be JSON-serializable)
+ * @param ttlMs - Time-to-live in milliseconds (default: 1 hour)
+ */
+export function cacheAnswer<T>(key: string, value: T, ttlMs: number = DEFAULTS.ANSWER_CACHE_TTL_MS): void {
+  const now = Date.now();
+  const store = answerStore();
+  store.set(key, { createdAt: now, expiresAt: now + ttlMs, value });
+
+  // Re-insert so the key moves to the newest position
+  storedKeys.delete(key);
+  storedKeys.set(key, now + ttlMs);
+  for (const oldest of storedKeys.keys()) {
+    if (storedKeys.size <= DEFAULTS.ANSWER_CACHE_MAX_ENTRIES) break;
+    store.delete(oldest);
+    storedKeys.delete(oldest);
+    Logger.debug(`Answer cache: Evicted ${oldest}`);
+  }
+
+  scheduleCleanup();
+}
+
+/**
+ * Remove expired answers
+ *
+ * @returns Number of entries removed
+ */
+export function clearExpiredAnswers(): number {
+  const now = Date.now();
+  for (const [key, expiresAt] of storedKeys.entries()) {
+    if (now > expiresAt) {
+      storedKeys.delete(key);
+    }
+  }
+  return answerStore().clearExpired();
+}
+
+/**
+ * Remove every memoized answer
+ */
+export function clearAnswerCache(): void {
+  answerStore().clear();
+  storedKeys.clear();
+}
+
+// ============================================================================
+// Cleanup scheduling
+// ============================================================================
+
+let cleanupScheduled = false;
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Schedule periodic removal of expired answers
+ * Entries that are never requested again would otherwise stay until restart.
+ */
+function scheduleCleanup(): void {
+  if (cleanupScheduled) {
+    return;
+  }
+
+  cleanupScheduled = true;
+
+  // Use unref() so the timer doesn't keep the process alive
+  const timer = setInterval(() => {
+    clearExpiredAnswers();
+
+    // Stop cleanup once nothing stored by this process is left
+    if (storedKeys.size === 0) {
+      clearInterval(timer);
+      cleanupScheduled = false;
+    }
+  }, CLEANUP_INTERVAL_MS);
+
+  timer.unref();
+}
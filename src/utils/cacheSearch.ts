@@ -0,0 +1,210 @@
+/**
+ * Cached response search utility
+ *
+ * Finds the lines of a chunked response that match a literal query or a
+ * client-supplied regular expression. Entries that keep the original response
+ * are searched through it, so the context the chunker injects (breadcrumbs,
+ * reopened fences, repeated table headers) never matches; each match is then
+ * mapped to the chunk and line it appears in. Regular expressions can backtrack
+ * catastrophically (e.g. `(a+)+$` on a long line), so matching runs in a
+ * separate VM context with a time limit instead of blocking the server.
+ */
+
+import * as vm from "vm";
+import { DEFAULTS } from "../constants.js";
+import type { CacheEntry, CachedChunk, CachedMatch } from "../types.js";
+import { InvalidArgumentError } from "./errors.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for searchCacheEntry and searchChunks
+ */
+export interface CacheSearchOptions {
+  /** Lines of context before and after each match */
+  contextLines?: number;
+  /** Maximum matches to return (totalMatches still counts all of them) */
+  maxMatches?: number;
+  /** Time allowed for matching all lines, in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Result of searchCacheEntry and searchChunks
+ */
+export interface CacheSearchResult {
+  matches: CachedMatch[];
+  /** Matching lines in all chunks, including those beyond maxMatches */
+  totalMatches: number;
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Matches every line of every block inside the VM context
+ * Yields the indices of the matching lines, per block.
+ */
+const MATCH_SCRIPT = new vm.Script(
+  "blockLines.map((lines) => lines.flatMap((text, i) => (pattern.test(text) ? [i] : [])))"
+);
+
+/**
+ * Run MATCH_SCRIPT with the time limit
+ *
+ * @throws InvalidArgumentError if matching takes longer than timeoutMs
+ */
+function matchLines(blockLines: string[][], pattern: RegExp, timeoutMs: number): number[][] {
+  try {
+    return MATCH_SCRIPT.runInNewContext({ blockLines, pattern }, { timeout: timeoutMs });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+      throw err;
+    }
+    const message =
+      `query took longer than ${timeoutMs}ms to match; ` +
+      "use a simpler pattern (avoid nested quantifiers such as (a+)+)";
+    throw new InvalidArgumentError(message, [{ field: "query", message }]);
+  }
+}
+
+/**
+ * Compile a search query
+ *
+ * @param query - Literal text, or a regular expression when regex is true
+ * @param regex - Treat the query as a JavaScript regular expression
+ * @param caseSensitive - Match letter case exactly
+ * @returns The compiled pattern
+ * @throws InvalidArgumentError if a regex query does not compile
+ */
+export function compileSearchPattern(query: string, regex: boolean, caseSensitive: boolean): RegExp {
+  const source = regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  try {
+    return new RegExp(source, caseSensitive ? "" : "i");
+  } catch {
+    const message = "query is not a valid regular expression";
+    throw new InvalidArgumentError(message, [{ field: "query", message }]);
+  }
+}
+
+/**
+ * Find the lines of a chunked response that match a pattern
+ *
+ * @param chunks - Chunks of the cached response
+ * @param pattern - Pattern from compileSearchPattern (no global or sticky flag)
+ * @param options - Context lines, match cap and time limit
+ * @returns Matching lines with context, in chunk order
+ * @throws InvalidArgumentError if matching takes longer than the time limit
+ */
+export function searchChunks(
+  chunks: CachedChunk[],
+  pattern: RegExp,
+  options: CacheSearchOptions = {}
+): CacheSearchResult {
+  const {
+    contextLines = DEFAULTS.SEARCH_CONTEXT_LINES,
+    maxMatches = DEFAULTS.SEARCH_MAX_MATCHES,
+    timeoutMs = DEFAULTS.SEARCH_TIMEOUT_MS,
+  } = options;
+
+  const chunkLines = chunks.map((chunk) => chunk.content.split(/\r?\n/));
+  const matchingLines = matchLines(chunkLines, pattern, timeoutMs);
+
+  const matches: CachedMatch[] = [];
+  let totalMatches = 0;
+
+  chunks.forEach((chunk, c) => {
+    const lines = chunkLines[c];
+    for (const i of matchingLines[c]) {
+      totalMatches++;
+      if (matches.length < maxMatches) {
+        matches.push({
+          chunkIndex: chunk.index,
+          line: i + 1,
+          text: lines[i],
+          before: lines.slice(Math.max(0, i - contextLines), i),
+          after: lines.slice(i + 1, i + 1 + contextLines),
+        });
+      }
+    }
+  });
+
+  return { matches, totalMatches };
+}
+
+/**
+ * Find the lines of a cached response that match a pattern
+ *
+ * Searches entry.response when the entry has it and its chunks record where
+ * they start in it; entries cached before that fall back to searchChunks.
+ *
+ * @param entry - The cache entry
+ * @param pattern - Pattern from compileSearchPattern (no global or sticky flag)
+ * @param options - Context lines, match cap and time limit
+ * @returns Matching lines with context, in response order
+ * @throws InvalidArgumentError if matching takes longer than the time limit
+ */
+export function searchCacheEntry(
+  entry: Pick<CacheEntry, "chunks" | "response">,
+  pattern: RegExp,
+  options: CacheSearchOptions = {}
+): CacheSearchResult {
+  const { chunks, response } = entry;
+  if (response === undefined || chunks.length === 0 || chunks.some((chunk) => chunk.offset === undefined)) {
+    return searchChunks(chunks, pattern, options);
+  }
+
+  const {
+    contextLines = DEFAULTS.SEARCH_CONTEXT_LINES,
+    maxMatches = DEFAULTS.SEARCH_MAX_MATCHES,
+    timeoutMs = DEFAULTS.SEARCH_TIMEOUT_MS,
+  } = options;
+
+  const lines: string[] = [];
+  const lineOffsets: number[] = [];
+  let offset = 0;
+  for (const raw of response.split("\n")) {
+    lines.push(raw.endsWith("\r") ? raw.slice(0, -1) : raw);
+    lineOffsets.push(offset);
+    offset += raw.length + 1;
+  }
+
+  const [matchingLines] = matchLines([lines], pattern, timeoutMs);
+  const matches: CachedMatch[] = [];
+
+  for (const i of matchingLines) {
+    if (matches.length >= maxMatches) {
+      break;
+    }
+    const { chunkIndex, line } = locate(chunks, lineOffsets[i]);
+    matches.push({
+      chunkIndex,
+      line,
+      text: lines[i],
+      before: lines.slice(Math.max(0, i - contextLines), i),
+      after: lines.slice(i + 1, i + 1 + contextLines),
+    });
+  }
+
+  return { matches, totalMatches: matchingLines.length };
+}
+
+/**
+ * Map an offset in the original response to the chunk holding it and the
+ * 1-based line within that chunk's content (after any injected prefix)
+ */
+function locate(chunks: CachedChunk[], responseOffset: number): { chunkIndex: number; line: number } {
+  let chunk = chunks[0];
+  for (const candidate of chunks) {
+    if ((candidate.offset ?? 0) > responseOffset) {
+      break;
+    }
+    chunk = candidate;
+  }
+  const position = (chunk.prefixLength ?? 0) + responseOffset - (chunk.offset ?? 0);
+  const line = chunk.content.slice(0, position).split("\n").length;
+  return { chunkIndex: chunk.index, line };
+}
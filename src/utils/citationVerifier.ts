@@ -0,0 +1,202 @@
+/**
+ * Citation verification utility
+ *
+ * Checks every path and path:line mention in an answer against the project:
+ * the path must pass validatePath (inside the project root and existing) and
+ * a cited line range must exist in the file. Files too large to read
+ * (DEFAULTS.CITATION_MAX_FILE_BYTES) cannot have their lines checked, so line
+ * citations into them are unverified. Unverifiable citations are
+ * reported so agents don't open files the model made up. Optionally attaches
+ * the cited lines as a short excerpt read from disk.
+ */
+
+import * as fs from "fs";
+import { DEFAULTS } from "../constants.js";
+import type { Citation } from "../types.js";
+import { extractPathMentions, toProjectPath, type PathMention } from "./fileReferences.js";
+import { validatePath } from "./pathValidator.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for verifyCitations
+ */
+export interface VerifyCitationsOptions {
+  /** Attach the cited lines of verified line-range citations (default: false) */
+  excerpts?: boolean;
+  /** Maximum lines per excerpt */
+  maxExcerptLines?: number;
+  /** Maximum characters per excerpt */
+  maxExcerptChars?: number;
+  /** Largest file read to check cited lines; larger files are reported unverified */
+  maxFileBytes?: number;
+}
+
+/**
+ * Outcome of checking one mention
+ */
+type MentionCheck = { ok: true; lines?: string[] } | { ok: false; reason: string };
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Read a file as lines (a trailing newline does not start a new line)
+ */
+function readLines(filePath: string): string[] {
+  const content = fs.readFileSync(filePath, "utf-8");
+  if (content.length === 0) {
+    return [];
+  }
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Verify one mention; on success returns the file's lines if a range was cited
+ */
+function checkMention(
+  mention: PathMention,
+  projectRoot: string,
+  fileLines: Map<string, string[]>,
+  maxFileBytes: number
+): MentionCheck {
+  const validation = validatePath(mention.path, projectRoot);
+  if (!validation.allowed || !validation.exists) {
+    return { ok: false, reason: validation.reason ?? "Path does not exist" };
+  }
+
+  if (mention.startLine === undefined || mention.endLine === undefined) {
+    return { ok: true };
+  }
+
+  const stats = fs.statSync(validation.resolved);
+  if (stats.isDirectory()) {
+    return { ok: false, reason: "Line numbers cited for a directory" };
+  }
+  if (mention.startLine < 1 || mention.endLine < mention.startLine) {
+    return { ok: false, reason: `Invalid line range ${mention.startLine}-${mention.endLine}` };
+  }
+  if (stats.size > maxFileBytes) {
+    return { ok: false, reason: `File is larger than ${maxFileBytes} bytes; cited lines were not checked` };
+  }
+
+  let lines = fileLines.get(validation.resolved);
+  if (lines === undefined) {
+    lines = readLines(validation.resolved);
+    fileLines.set(validation.resolved, lines);
+  }
+
+  if (mention.endLine > lines.length) {
+    return {
+      ok: false,
+      reason: `File has ${lines.length} lines; cited line ${mention.endLine} does not exist`,
+    };
+  }
+
+  return { ok: true, lines };
+}
+
+/**
+ * Cut the cited lines down to an excerpt within the configured limits
+ */
+function buildExcerpt(
+  lines: string[],
+  start: number,
+  end: number,
+  maxLines: number,
+  maxChars: number
+): { excerpt: string; truncated: boolean } {
+  const cited = lines.slice(start - 1, end);
+  let excerpt = cited.slice(0, maxLines).join("\n");
+  let truncated = cited.length > maxLines;
+
+  if (excerpt.length > maxChars) {
+    excerpt = excerpt.slice(0, maxChars);
+    truncated = true;
+  }
+
+  return { excerpt, truncated };
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Extract and verify every file citation in an answer
+ *
+ * @param answer - Answer text
+ * @param projectRoot - Project root directory
+ * @param options - Excerpt options
+ * @returns One entry per distinct citation, in order of first mention
+ */
+export function verifyCitations(
+  answer: string,
+  projectRoot: string,
+  options: VerifyCitationsOptions = {}
+): Citation[] {
+  const {
+    excerpts = false,
+    maxExcerptLines = DEFAULTS.CITATION_EXCERPT_MAX_LINES,
+    maxExcerptChars = DEFAULTS.CITATION_EXCERPT_MAX_CHARS,
+    maxFileBytes = DEFAULTS.CITATION_MAX_FILE_BYTES,
+  } = options;
+  const fileLines = new Map<string, string[]>();
+
+  return extractPathMentions(answer).map((mention) => {
+    const check = checkMention(mention, projectRoot, fileLines, maxFileBytes);
+    const citation: Citation = {
+      path: toProjectPath(mention.path, projectRoot),
+      status: check.ok ? "verified" : "unverified",
+    };
+
+    if (mention.startLine !== undefined && mention.endLine !== undefined) {
+      citation.lines = { start: mention.startLine, end: mention.endLine };
+    }
+
+    if (!check.ok) {
+      citation.reason = check.reason;
+    } else if (excerpts && check.lines && citation.lines) {
+      const { excerpt, truncated } = buildExcerpt(
+        check.lines,
+        citation.lines.start,
+        citation.lines.end,
+        maxExcerptLines,
+        maxExcerptChars
+      );
+      citation.excerpt = excerpt;
+      if (truncated) {
+        citation.excerptTruncated = true;
+      }
+    }
+
+    return citation;
+  });
+}
+
+/**
+ * Build the meta.warnings entry for unverified citations
+ *
+ * @param citations - Verified citations
+ * @returns Warning text, or null if every citation was verified
+ */
+export function describeUnverifiedCitations(citations: Citation[]): string | null {
+  const unverified = citations.filter((citation) => citation.status === "unverified");
+  if (unverified.length === 0) {
+    return null;
+  }
+
+  const labels = unverified.map((citation) =>
+    citation.lines
+      ? `${citation.path}:${citation.lines.start}${citation.lines.end !== citation.lines.start ? `-${citation.lines.end}` : ""}`
+      : citation.path
+  );
+  return `${unverified.length} citation(s) could not be verified and may be hallucinated: ${labels.join(", ")}`;
+}
@@ -3,8 +3,125 @@
  * Uses child_process.spawn for Gemini CLI execution
  */
 
-import { spawn } from "child_process";
+import { spawn, type ChildProcess } from "child_process";
+import os from "os";
 import { Logger } from "./logger.js";
+import {
+  CommandCancelledError,
+  GeminiCliNotFoundError,
+  GeminiError,
+  createGeminiError,
+} from "./errors.js";
+
+// Defined with the rest of the error taxonomy; re-exported for existing importers
+export { CommandCancelledError };
+
+/**
+ * Grace period before a cancelled process tree is force-killed
+ */
+const KILL_GRACE_MS = 5000;
+
+/**
+ * Options for executeCommand
+ */
+export interface ExecuteCommandOptions {
+  /** Abort signal; aborting kills the child process tree */
+  signal?: AbortSignal;
+  /** Data written to the child's stdin before it is closed (stdin is ignored when unset) */
+  input?: string;
+  /**
+   * Spawn the child as its own process group (POSIX) so cancellation and
+   * server exit kill every descendant, not just the direct child
+   */
+  killTree?: boolean;
+}
+
+/**
+ * Process-group children still running; killed if the server exits first
+ */
+const activeTrees = new Set<ChildProcess>();
+
+/**
+ * Whether the exit and signal handlers have been installed
+ */
+let exitHandlersInstalled = false;
+
+/**
+ * Kill every process tree spawned with killTree that is still running
+ * Synchronous so it can run from a process 'exit' handler.
+ */
+export function killActiveProcessTrees(): void {
+  for (const childProcess of activeTrees) {
+    const pid = childProcess.pid;
+    if (pid === undefined) continue;
+    try {
+      if (process.platform === "win32") {
+        childProcess.kill();
+      } else {
+        process.kill(-pid, "SIGKILL");
+      }
+    } catch {
+      // Already gone
+    }
+  }
+  activeTrees.clear();
+}
+
+/**
+ * Install handlers that kill detached process groups when the server exits
+ * Detached children leave the server's process group, so without this they
+ * would be orphaned by a crash or a terminating signal.
+ */
+function installExitHandlers(): void {
+  if (exitHandlersInstalled) return;
+  exitHandlersInstalled = true;
+
+  process.once("exit", killActiveProcessTrees);
+  for (const signal of ["SIGINT", "SIGTERM", "SIGHUP"] as const) {
+    process.once(signal, () => {
+      killActiveProcessTrees();
+      // Keep the default outcome of the signal: terminate the server
+      process.exit(128 + (os.constants.signals[signal] ?? 0));
+    });
+  }
+}
+
+/**
+ * Kill a child process and all of its descendants
+ * On POSIX the child must have been spawned as a process group leader
+ * (killTree), so the whole group is signalled; on Windows taskkill /T walks the tree.
+ *
+ * @param childProcess - The process to kill
+ */
+function killProcessTree(childProcess: ChildProcess): void {
+  const pid = childProcess.pid;
+  if (pid === undefined) {
+    return;
+  }
+
+  if (process.platform === "win32") {
+    spawn("taskkill", ["/pid", String(pid), "/T", "/F"], { stdio: "ignore" }).on("error", () => {
+      childProcess.kill();
+    });
+    return;
+  }
+
+  const signalGroup = (signal: NodeJS.Signals): void => {
+    try {
+      process.kill(-pid, signal);
+    } catch {
+      // Group already gone (or never created) - fall back to the direct child
+      childProcess.kill(signal);
+    }
+  };
+
+  signalGroup("SIGTERM");
+
+  // Escalate if the tree ignores SIGTERM
+  const forceKill = setTimeout(() => signalGroup("SIGKILL"), KILL_GRACE_MS);
+  forceKill.unref();
+  childProcess.once("close", () => clearTimeout(forceKill));
+}
 
 /**
  * Execute a command with the given arguments
@@ -12,30 +129,71 @@ import { Logger } from "./logger.js";
  * @param command - The command to execute (e.g., "gemini")
  * @param args - Array of command arguments
  * @param onProgress - Optional callback for streaming output
+ * @param options - Optional execution options (abort signal, stdin input, tree kill)
  * @returns Promise resolving to stdout as string
+ * @throws GeminiError subclass classified from the spawn error or stderr
  */
 export async function executeCommand(
   command: string,
   args: string[],
-  onProgress?: (newOutput: string) => void
+  onProgress?: (newOutput: string) => void,
+  options: ExecuteCommandOptions = {}
 ): Promise<string> {
+  const { signal, input, killTree = false } = options;
+
+  if (signal?.aborted) {
+    throw new CommandCancelledError(command);
+  }
+
   return new Promise((resolve, reject) => {
     const startTime = Date.now();
     Logger.commandExecution(command, args, startTime);
 
+    const detached = killTree && process.platform !== "win32";
     const childProcess = spawn(command, args, {
       env: process.env,
       shell: false,
-      stdio: ["ignore", "pipe", "pipe"],
+      stdio: [input === undefined ? "ignore" : "pipe", "pipe", "pipe"],
+      // Own process group on POSIX so cancellation can kill the whole tree
+      detached,
     });
 
+    if (killTree) {
+      activeTrees.add(childProcess);
+      installExitHandlers();
+      childProcess.once("close", () => activeTrees.delete(childProcess));
+    }
+
     let stdout = "";
     let stderr = "";
     let isResolved = false;
     let lastReportedLength = 0;
 
+    // Kill the process tree when the caller cancels
+    const onAbort = (): void => {
+      if (isResolved) return;
+      isResolved = true;
+      Logger.warn(`Cancelling command '${command}' (pid ${childProcess.pid ?? "unknown"})`);
+      if (killTree) {
+        killProcessTree(childProcess);
+      } else {
+        childProcess.kill();
+      }
+      reject(new CommandCancelledError(command));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    // stdin is only piped when there is input (otherwise the child sees EOF);
+    // a child that exits without reading it causes EPIPE, which the exit code reports instead
+    if (childProcess.stdin) {
+      childProcess.stdin.on("error", (error: Error) => {
+        Logger.debug(`stdin write failed for '${command}': ${error.message}`);
+      });
+      childProcess.stdin.end(input);
+    }
+
     // Handle stdout data
-    childProcess.stdout.on("data", (data: Buffer) => {
+    childProcess.stdout?.on("data", (data: Buffer) => {
       const chunk = data.toString();
       stdout += chunk;
 
@@ -48,21 +206,28 @@ export async function executeCommand(
     });
 
     // Handle stderr data
-    childProcess.stderr.on("data", (data: Buffer) => {
+    childProcess.stderr?.on("data", (data: Buffer) => {
       stderr += data.toString();
     });
 
     // Handle process spawn errors
-    childProcess.on("error", (error: Error) => {
+    childProcess.on("error", (error: NodeJS.ErrnoException) => {
+      signal?.removeEventListener("abort", onAbort);
       if (!isResolved) {
         isResolved = true;
         Logger.error(`Process error: ${error.message}`);
-        reject(new Error(`Failed to spawn command '${command}': ${error.message}`));
+        const message = `Failed to spawn command '${command}': ${error.message}`;
+        reject(
+          error.code === "ENOENT"
+            ? new GeminiCliNotFoundError(message, { cause: error })
+            : new GeminiError(message, { cause: error })
+        );
       }
     });
 
     // Handle process exit
     childProcess.on("close", (code: number | null) => {
+      signal?.removeEventListener("abort", onAbort);
       if (!isResolved) {
         isResolved = true;
 
@@ -76,7 +241,12 @@ export async function executeCommand(
           const sanitizedStderr = stderr.trim() || "Unknown error";
           Logger.error(`Command failed with exit code ${code}`);
 
-          reject(new Error(`Command failed with exit code ${code}: ${sanitizedStderr}`));
+          reject(
+            createGeminiError(`Command failed with exit code ${code}: ${sanitizedStderr}`, {
+              exitCode: code,
+              stderr: stderr.trim(),
+            })
+          );
         }
       }
     });
@@ -0,0 +1,138 @@
+/**
+ * Argument completion for MCP completion/complete
+ *
+ * Suggests values from an argument's Zod schema: enum values (e.g., focus,
+ * responseStyle), project files and directories for path arguments, and the
+ * @path being typed at the end of free-text arguments (e.g., a prompt).
+ * Path suggestions honor .gitignore and the hard-coded ignores.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { z, type ZodTypeAny } from "zod";
+import { COMPLETION } from "../constants.js";
+import type { CompletionValues } from "../types.js";
+import { createIgnoreFilter } from "./ignorePatterns.js";
+import { isWithinProjectRoot } from "./pathValidator.js";
+
+/**
+ * Matches an @path being typed at the end of a value
+ */
+const TRAILING_AT_PATH = /(?:^|\s)@(\S*)$/;
+
+/**
+ * Cap suggestions at the MCP limit
+ *
+ * @param values - All matching values
+ * @returns Completion result with total and hasMore
+ */
+export function toCompletionValues(values: string[]): CompletionValues {
+  return {
+    values: values.slice(0, COMPLETION.MAX_VALUES),
+    total: values.length,
+    hasMore: values.length > COMPLETION.MAX_VALUES,
+  };
+}
+
+/**
+ * Get the enum values of a schema, looking through optional, default,
+ * array and refinement wrappers
+ */
+function enumOptions(schema: ZodTypeAny): string[] | null {
+  let current = schema;
+  for (;;) {
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      current = current.unwrap();
+    } else if (current instanceof z.ZodDefault) {
+      current = current.removeDefault();
+    } else if (current instanceof z.ZodArray) {
+      current = current.element;
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else {
+      break;
+    }
+  }
+  return current instanceof z.ZodEnum ? [...(current.options as string[])] : null;
+}
+
+/**
+ * Suggest project files and directories starting with a partial path
+ *
+ * Completes one level at a time, like a shell: "src/ut" suggests
+ * "src/utils/" and "src/utils.ts". Matching ignores case; hidden entries
+ * are only suggested once the typed name starts with a dot.
+ *
+ * @param value - Partial path relative to the project root
+ * @param projectRoot - Project root directory
+ * @returns Matching paths (directories end with "/")
+ */
+export function completePath(value: string, projectRoot: string): string[] {
+  const typed = value.replace(/\\/g, "/").replace(/^\.\//, "");
+  const slash = typed.lastIndexOf("/");
+  const dirPart = typed.slice(0, slash + 1);
+  const prefix = typed.slice(slash + 1).toLowerCase();
+
+  const dir = path.resolve(projectRoot, dirPart || ".");
+  if (!isWithinProjectRoot(dir, path.resolve(projectRoot))) {
+    return [];
+  }
+
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const isIgnored = createIgnoreFilter(projectRoot);
+  const relativeDir = path.relative(projectRoot, dir).replace(/\\/g, "/");
+
+  return entries
+    .filter((entry) => entry.name.toLowerCase().startsWith(prefix))
+    .filter((entry) => prefix.startsWith(".") || !entry.name.startsWith("."))
+    .filter((entry) => {
+      const relative = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      return !isIgnored(entry.isDirectory() ? `${relative}/` : relative);
+    })
+    .map((entry) => `${dirPart}${entry.name}${entry.isDirectory() ? "/" : ""}`)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Suggest values for an argument from its schema
+ *
+ * @param schema - Zod schema of the argument (undefined if unknown)
+ * @param argumentName - Argument name (path arguments are listed in COMPLETION.PATH_ARGUMENTS)
+ * @param value - What has been typed so far
+ * @param projectRoot - Project root for path suggestions
+ * @returns Suggestions (empty if nothing applies)
+ */
+export function completeArgumentValue(
+  schema: ZodTypeAny | undefined,
+  argumentName: string,
+  value: string,
+  projectRoot: string
+): CompletionValues {
+  if (!schema) {
+    return toCompletionValues([]);
+  }
+
+  const options = enumOptions(schema);
+  if (options) {
+    return toCompletionValues(options.filter((option) => option.toLowerCase().startsWith(value.toLowerCase())));
+  }
+
+  if ((COMPLETION.PATH_ARGUMENTS as readonly string[]).includes(argumentName)) {
+    return toCompletionValues(completePath(value.replace(/^@/, ""), projectRoot));
+  }
+
+  // Free text: complete an @path being typed at the end
+  const atPath = value.match(TRAILING_AT_PATH);
+  if (atPath) {
+    const head = value.slice(0, value.length - atPath[1].length);
+    return toCompletionValues(completePath(atPath[1], projectRoot).map((suggestion) => head + suggestion));
+  }
+
+  return toCompletionValues([]);
+}
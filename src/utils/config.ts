@@ -0,0 +1,790 @@
+/**
+ * Server configuration utility
+ *
+ * Loads optional configuration from a user config file, a project config
+ * file, and BGMCP_* environment variables (later sources win). Every source
+ * is validated with Zod; an invalid file is skipped with a warning rather
+ * than preventing the server from starting.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { z } from "zod";
+import {
+  API,
+  BACKENDS,
+  CLI,
+  CONFIG,
+  DEFAULTS,
+  MODEL_TIERS,
+  STORAGE,
+  type BackendName,
+  type StorageType,
+} from "../constants.js";
+import { Logger } from "./logger.js";
+import { getProjectRoot } from "./pathValidator.js";
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * Model selection for a single tool
+ */
+const toolModelConfigSchema = z
+  .object({
+    defaultModel: z.string().min(1).optional().describe("Model tried first"),
+    models: z
+      .array(z.string().min(1))
+      .optional()
+      .describe("Fallback chain tried in order after the default model"),
+    autoSelect: z
+      .boolean()
+      .optional()
+      .describe("Append an auto-select attempt (no -m flag) as the last resort"),
+  })
+  .strict();
+
+/**
+ * Configuration file schema
+ */
+export const configSchema = z
+  .object({
+    models: z
+      .object({
+        autoSelect: z.boolean().optional(),
+        tools: z
+          .object({
+            quick_query: toolModelConfigSchema.optional(),
+            deep_research: toolModelConfigSchema.optional(),
+            analyze_directory: toolModelConfigSchema.optional(),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict()
+      .optional(),
+    quota: z
+      .object({
+        cooldownMs: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("How long a model is skipped after a quota error without a reset time"),
+      })
+      .strict()
+      .optional(),
+    backend: z
+      .object({
+        type: z
+          .enum([BACKENDS.CLI, BACKENDS.API, BACKENDS.FAKE])
+          .optional()
+          .describe("Backend used to run prompts (default: cli)"),
+        baseUrl: z
+          .string()
+          .url()
+          .optional()
+          .describe("Gemini REST API base URL for the api backend"),
+        fakeScript: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("Script file for the fake backend, relative to the project root"),
+      })
+      .strict()
+      .optional(),
+    cli: z
+      .object({
+        promptTransport: z
+          .enum([CLI.PROMPT_TRANSPORTS.AUTO, CLI.PROMPT_TRANSPORTS.ARGV, CLI.PROMPT_TRANSPORTS.STDIN])
+          .optional()
+          .describe("How prompts are passed to Gemini CLI (default: auto)"),
+        promptArgMaxBytes: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("In auto mode, prompts larger than this are sent via stdin"),
+      })
+      .strict()
+      .optional(),
+    storage: z
+      .object({
+        type: z
+          .enum([STORAGE.MEMORY, STORAGE.DISK])
+          .optional()
+          .describe("Where chunk caches and async jobs are kept (default: memory)"),
+        stateDir: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("Directory for the disk store, relative to the project root"),
+        maxBytes: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Size cap per disk store; the oldest entries are evicted beyond it"),
+      })
+      .strict()
+      .optional(),
+    cache: z
+      .object({
+        maxEntries: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Chunked responses kept before the least recently used is evicted"),
+        maxBytes: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Cached bytes (chunks and original responses) kept before the least recently used is evicted"),
+      })
+      .strict()
+      .optional(),
+    chunking: z
+      .object({
+        sizeKB: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Maximum chunk size in KB of UTF-8 (default: 10)"),
+        maxTokens: z
+          .number()
+          .int()
+          .min(DEFAULTS.MIN_CHUNK_MAX_TOKENS)
+          .optional()
+          .describe(`Maximum estimated tokens per chunk, at least ${DEFAULTS.MIN_CHUNK_MAX_TOKENS} (default: no token budget)`),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Validated server configuration (all fields optional; defaults applied on use)
+ */
+export type ServerConfig = z.infer<typeof configSchema>;
+
+/**
+ * Model selection for a single tool
+ */
+export type ToolModelConfig = z.infer<typeof toolModelConfigSchema>;
+
+/**
+ * How prompts are passed to Gemini CLI
+ */
+export type PromptTransport = NonNullable<NonNullable<ServerConfig["cli"]>["promptTransport"]>;
+
+/**
+ * Tools whose Gemini model chain is configurable
+ */
+export type ModelToolName = keyof typeof MODEL_TIERS;
+
+/**
+ * Result of loading configuration
+ */
+export interface LoadedConfig {
+  config: ServerConfig;
+  /** Config files and env overrides that contributed, in precedence order */
+  sources: string[];
+  /** Problems found while loading (invalid files/values that were skipped) */
+  warnings: string[];
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Check whether a value is a plain object (for merging)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge two config objects; arrays and scalars from `override` replace `base`
+ */
+function mergeConfig<T extends Record<string, unknown>>(base: T, override: Record<string, unknown>): T {
+  const result: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    const existing = result[key];
+    result[key] =
+      isPlainObject(existing) && isPlainObject(value) ? mergeConfig(existing, value) : value;
+  }
+
+  return result as T;
+}
+
+/**
+ * Format Zod issues into a single readable line
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join(", ");
+}
+
+/**
+ * Get the user-level config file path
+ * Uses $XDG_CONFIG_HOME when set, otherwise ~/.config
+ */
+export function getUserConfigPath(): string {
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+  return path.join(base, CONFIG.USER_DIR, CONFIG.USER_FILE);
+}
+
+/**
+ * Get the project-level config file path
+ * BGMCP_CONFIG overrides the default location in the project root
+ */
+export function getProjectConfigPath(projectRoot: string = getProjectRoot()): string {
+  const explicit = process.env[CONFIG.ENV.CONFIG_PATH];
+  if (explicit) {
+    return path.isAbsolute(explicit) ? explicit : path.resolve(projectRoot, explicit);
+  }
+  return path.join(projectRoot, CONFIG.PROJECT_FILE);
+}
+
+/**
+ * Read and validate a config file
+ *
+ * @returns Parsed config, null if the file does not exist, or an error message
+ */
+function readConfigFile(filePath: string): ServerConfig | null | string {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf-8");
+  } catch (err) {
+    const error = err as NodeJS.ErrnoException;
+    return error.code === "ENOENT" ? null : `Cannot read ${filePath}: ${error.message}`;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    return `Invalid JSON in ${filePath}: ${(err as Error).message}`;
+  }
+
+  const result = configSchema.safeParse(parsed);
+  if (!result.success) {
+    return `Invalid config in ${filePath}: ${formatIssues(result.error)}`;
+  }
+
+  return result.data;
+}
+
+/**
+ * Parse a boolean environment variable
+ *
+ * @returns true/false, or undefined if unset or unrecognized
+ */
+export function parseBooleanEnv(value: string | undefined): boolean | undefined {
+  if (value === undefined || value === "") return undefined;
+  const normalized = value.trim().toLowerCase();
+  if (["1", "true", "yes", "on"].includes(normalized)) return true;
+  if (["0", "false", "no", "off"].includes(normalized)) return false;
+  return undefined;
+}
+
+/**
+ * Build config overrides from BGMCP_* environment variables
+ *
+ * Supported variables:
+ * - BGMCP_AUTO_SELECT=true|false
+ * - BGMCP_<TOOL>_MODEL=<model>           (e.g., BGMCP_QUICK_QUERY_MODEL)
+ * - BGMCP_<TOOL>_MODELS=<model>,<model>  (fallback chain)
+ * - BGMCP_<TOOL>_AUTO_SELECT=true|false
+ * - BGMCP_QUOTA_COOLDOWN_MS=<milliseconds>
+ * - BGMCP_BACKEND=cli|api|fake
+ * - BGMCP_API_BASE_URL=<url>
+ * - BGMCP_FAKE_SCRIPT=<path>
+ * - BGMCP_PROMPT_TRANSPORT=auto|argv|stdin
+ * - BGMCP_PROMPT_ARG_MAX_BYTES=<bytes>
+ * - BGMCP_STORAGE=memory|disk
+ * - BGMCP_STATE_DIR=<path>
+ * - BGMCP_STATE_MAX_BYTES=<bytes>
+ * - BGMCP_CACHE_MAX_ENTRIES=<count>
+ * - BGMCP_CACHE_MAX_BYTES=<bytes>
+ * - BGMCP_RESPONSE_CHUNK_SIZE_KB=<kb>
+ * - BGMCP_RESPONSE_CHUNK_MAX_TOKENS=<tokens>  (at least DEFAULTS.MIN_CHUNK_MAX_TOKENS)
+ */
+function readEnvOverrides(warnings: string[]): ServerConfig {
+  const env = process.env;
+  const tools: Record<string, ToolModelConfig> = {};
+
+  for (const toolName of Object.keys(MODEL_TIERS) as ModelToolName[]) {
+    const prefix = `${CONFIG.ENV_PREFIX}${toolName.toUpperCase()}_`;
+    const toolConfig: ToolModelConfig = {};
+
+    const defaultModel = env[`${prefix}MODEL`]?.trim();
+    if (defaultModel) {
+      toolConfig.defaultModel = defaultModel;
+    }
+
+    const models = env[`${prefix}MODELS`];
+    if (models !== undefined) {
+      toolConfig.models = models
+        .split(",")
+        .map((m) => m.trim())
+        .filter((m) => m.length > 0);
+    }
+
+    const autoSelectRaw = env[`${prefix}AUTO_SELECT`];
+    const autoSelect = parseBooleanEnv(autoSelectRaw);
+    if (autoSelect !== undefined) {
+      toolConfig.autoSelect = autoSelect;
+    } else if (autoSelectRaw) {
+      warnings.push(`Ignoring ${prefix}AUTO_SELECT=${autoSelectRaw} (expected true or false)`);
+    }
+
+    if (Object.keys(toolConfig).length > 0) {
+      tools[toolName] = toolConfig;
+    }
+  }
+
+  const config: ServerConfig = {};
+  const globalAutoSelectRaw = env[CONFIG.ENV.AUTO_SELECT];
+  const globalAutoSelect = parseBooleanEnv(globalAutoSelectRaw);
+  if (globalAutoSelectRaw && globalAutoSelect === undefined) {
+    warnings.push(`Ignoring ${CONFIG.ENV.AUTO_SELECT}=${globalAutoSelectRaw} (expected true or false)`);
+  }
+
+  if (globalAutoSelect !== undefined || Object.keys(tools).length > 0) {
+    config.models = {
+      ...(globalAutoSelect !== undefined && { autoSelect: globalAutoSelect }),
+      ...(Object.keys(tools).length > 0 && { tools }),
+    };
+  }
+
+  const cooldownRaw = env[CONFIG.ENV.QUOTA_COOLDOWN_MS];
+  if (cooldownRaw) {
+    const cooldownMs = Number(cooldownRaw);
+    if (Number.isInteger(cooldownMs) && cooldownMs >= 0) {
+      config.quota = { cooldownMs };
+    } else {
+      warnings.push(`Ignoring ${CONFIG.ENV.QUOTA_COOLDOWN_MS}=${cooldownRaw} (expected a non-negative integer)`);
+    }
+  }
+
+  const backendRaw = env[CONFIG.ENV.BACKEND]?.trim().toLowerCase();
+  const backend: NonNullable<ServerConfig["backend"]> = {};
+  if (backendRaw) {
+    if ((Object.values(BACKENDS) as string[]).includes(backendRaw)) {
+      backend.type = backendRaw as BackendName;
+    } else {
+      warnings.push(
+        `Ignoring ${CONFIG.ENV.BACKEND}=${backendRaw} (expected one of: ${Object.values(BACKENDS).join(", ")})`
+      );
+    }
+  }
+
+  const baseUrl = env[CONFIG.ENV.API_BASE_URL]?.trim();
+  if (baseUrl) {
+    try {
+      backend.baseUrl = new URL(baseUrl).toString();
+    } catch {
+      warnings.push(`Ignoring ${CONFIG.ENV.API_BASE_URL}=${baseUrl} (expected a URL)`);
+    }
+  }
+
+  const fakeScript = env[CONFIG.ENV.FAKE_SCRIPT]?.trim();
+  if (fakeScript) {
+    backend.fakeScript = fakeScript;
+  }
+
+  if (Object.keys(backend).length > 0) {
+    config.backend = backend;
+  }
+
+  const cli: NonNullable<ServerConfig["cli"]> = {};
+  const transportRaw = env[CONFIG.ENV.PROMPT_TRANSPORT]?.trim().toLowerCase();
+  if (transportRaw) {
+    const transports = Object.values(CLI.PROMPT_TRANSPORTS) as string[];
+    if (transports.includes(transportRaw)) {
+      cli.promptTransport = transportRaw as PromptTransport;
+    } else {
+      warnings.push(
+        `Ignoring ${CONFIG.ENV.PROMPT_TRANSPORT}=${transportRaw} (expected one of: ${transports.join(", ")})`
+      );
+    }
+  }
+
+  const argMaxRaw = env[CONFIG.ENV.PROMPT_ARG_MAX_BYTES];
+  if (argMaxRaw) {
+    const promptArgMaxBytes = Number(argMaxRaw);
+    if (Number.isInteger(promptArgMaxBytes) && promptArgMaxBytes > 0) {
+      cli.promptArgMaxBytes = promptArgMaxBytes;
+    } else {
+      warnings.push(`Ignoring ${CONFIG.ENV.PROMPT_ARG_MAX_BYTES}=${argMaxRaw} (expected a positive integer)`);
+    }
+  }
+
+  if (Object.keys(cli).length > 0) {
+    config.cli = cli;
+  }
+
+  const storage: NonNullable<ServerConfig["storage"]> = {};
+  const storageRaw = env[CONFIG.ENV.STORAGE]?.trim().toLowerCase();
+  if (storageRaw) {
+    const types = Object.values(STORAGE) as string[];
+    if (types.includes(storageRaw)) {
+      storage.type = storageRaw as StorageType;
+    } else {
+      warnings.push(`Ignoring ${CONFIG.ENV.STORAGE}=${storageRaw} (expected one of: ${types.join(", ")})`);
+    }
+  }
+
+  const stateDir = env[CONFIG.ENV.STATE_DIR]?.trim();
+  if (stateDir) {
+    storage.stateDir = stateDir;
+  }
+
+  const maxBytesRaw = env[CONFIG.ENV.STATE_MAX_BYTES];
+  if (maxBytesRaw) {
+    const maxBytes = Number(maxBytesRaw);
+    if (Number.isInteger(maxBytes) && maxBytes > 0) {
+      storage.maxBytes = maxBytes;
+    } else {
+      warnings.push(`Ignoring ${CONFIG.ENV.STATE_MAX_BYTES}=${maxBytesRaw} (expected a positive integer)`);
+    }
+  }
+
+  if (Object.keys(storage).length > 0) {
+    config.storage = storage;
+  }
+
+  const cache: NonNullable<ServerConfig["cache"]> = {};
+  const cacheLimits = [
+    ["maxEntries", CONFIG.ENV.CACHE_MAX_ENTRIES],
+    ["maxBytes", CONFIG.ENV.CACHE_MAX_BYTES],
+  ] as const;
+  for (const [field, envName] of cacheLimits) {
+    const raw = env[envName];
+    if (!raw) continue;
+    const value = Number(raw);
+    if (Number.isInteger(value) && value > 0) {
+      cache[field] = value;
+    } else {
+      warnings.push(`Ignoring ${envName}=${raw} (expected a positive integer)`);
+    }
+  }
+
+  if (Object.keys(cache).length > 0) {
+    config.cache = cache;
+  }
+
+  const chunking: NonNullable<ServerConfig["chunking"]> = {};
+  const chunkLimits = [
+    ["sizeKB", CONFIG.ENV.RESPONSE_CHUNK_SIZE_KB, 1],
+    ["maxTokens", CONFIG.ENV.RESPONSE_CHUNK_MAX_TOKENS, DEFAULTS.MIN_CHUNK_MAX_TOKENS],
+  ] as const;
+  for (const [field, envName, min] of chunkLimits) {
+    const raw = env[envName];
+    if (!raw) continue;
+    const value = Number(raw);
+    if (Number.isInteger(value) && value >= min) {
+      chunking[field] = value;
+    } else {
+      const expected = min > 1 ? `an integer of at least ${min}` : "a positive integer";
+      warnings.push(`Ignoring ${envName}=${raw} (expected ${expected})`);
+    }
+  }
+
+  if (Object.keys(chunking).length > 0) {
+    config.chunking = chunking;
+  }
+
+  return config;
+}
+
+/**
+ * Last loaded configuration, keyed by a fingerprint of its inputs
+ */
+let cachedConfig: { fingerprint: string; loaded: LoadedConfig } | null = null;
+
+/**
+ * Fingerprint the config inputs: each file's identity and mtime, plus every
+ * BGMCP_* variable. A change to any of them forces a reload.
+ */
+function fingerprintInputs(files: string[]): string {
+  const fileParts = files.map((filePath) => {
+    try {
+      const stats = fs.statSync(filePath);
+      return `${filePath}:${stats.ino}:${stats.size}:${stats.mtimeMs}`;
+    } catch {
+      return `${filePath}:missing`;
+    }
+  });
+
+  const envParts = Object.keys(process.env)
+    .filter((key) => key.startsWith(CONFIG.ENV_PREFIX))
+    .sort()
+    .map((key) => `${key}=${process.env[key]}`);
+
+  return [...fileParts, ...envParts].join("\n");
+}
+
+/**
+ * Drop the memoized configuration so the next loadConfig() re-reads everything
+ */
+export function resetConfigCache(): void {
+  cachedConfig = null;
+}
+
+/**
+ * Load configuration from all sources
+ * Precedence (lowest to highest): user file, project file, environment
+ *
+ * Backend settings (which host receives the API key and file contents, or
+ * which script the fake backend runs) are only taken from the user file and
+ * the environment; a project file may come from an untrusted checkout, so
+ * its backend section is ignored with a warning.
+ *
+ * The result is memoized until a config file's mtime or a BGMCP_* variable
+ * changes, so warnings are logged once per change rather than on every call.
+ *
+ * @param projectRoot - Project root used to locate the project config file
+ * @returns Merged config plus the sources used and any warnings
+ */
+export function loadConfig(projectRoot: string = getProjectRoot()): LoadedConfig {
+  const userPath = getUserConfigPath();
+  const files = [...new Set([userPath, getProjectConfigPath(projectRoot)])];
+  const fingerprint = fingerprintInputs(files);
+  if (cachedConfig?.fingerprint === fingerprint) {
+    return cachedConfig.loaded;
+  }
+
+  let config: ServerConfig = {};
+  const sources: string[] = [];
+  const warnings: string[] = [];
+
+  for (const filePath of files) {
+    const result = readConfigFile(filePath);
+    if (result === null) continue;
+    if (typeof result === "string") {
+      warnings.push(result);
+      continue;
+    }
+    if (filePath !== userPath && result.backend) {
+      warnings.push(
+        `Ignoring backend settings in ${filePath}; set them in ${userPath} or with ${CONFIG.ENV_PREFIX}* variables`
+      );
+      delete result.backend;
+    }
+    config = mergeConfig(config, result);
+    sources.push(filePath);
+  }
+
+  const envConfig = readEnvOverrides(warnings);
+  if (Object.keys(envConfig).length > 0) {
+    config = mergeConfig(config, envConfig);
+    sources.push("environment");
+  }
+
+  for (const warning of warnings) {
+    Logger.warn(`Config: ${warning}`);
+  }
+
+  const loaded = { config, sources, warnings };
+  cachedConfig = { fingerprint, loaded };
+  return loaded;
+}
+
+// ============================================================================
+// Model Chains
+// ============================================================================
+
+/**
+ * Resolve the effective model chain for a tool
+ *
+ * The chain is: default model, then the fallback models (duplicates removed),
+ * then null (auto-select) if enabled. Unset values fall back to MODEL_TIERS.
+ * If configuration leaves the chain empty, auto-select is used so the tool
+ * still works.
+ *
+ * @param toolName - The tool requesting Gemini execution
+ * @param config - Loaded configuration (default: loadConfig())
+ * @returns Array of model names to try in order (null = auto-select)
+ */
+export function resolveModelChain(
+  toolName: ModelToolName,
+  config: ServerConfig = loadConfig().config
+): (string | null)[] {
+  const defaults = MODEL_TIERS[toolName] ?? MODEL_TIERS.quick_query;
+  const toolConfig = config.models?.tools?.[toolName] ?? {};
+
+  const defaultModel = toolConfig.defaultModel ?? (toolConfig.models ? undefined : defaults.tier1);
+  const fallbacks = toolConfig.models ?? [defaults.tier2];
+  const autoSelect = toolConfig.autoSelect ?? config.models?.autoSelect ?? true;
+
+  const chain: (string | null)[] = [
+    ...new Set([...(defaultModel ? [defaultModel] : []), ...fallbacks]),
+  ];
+
+  if (autoSelect || chain.length === 0) {
+    chain.push(null);
+  }
+
+  return chain;
+}
+
+/**
+ * Resolve model chains for every configurable tool (for diagnostics)
+ *
+ * @param config - Loaded configuration
+ * @returns Map of tool name to chain, with auto-select shown as "auto"
+ */
+export function describeModelChains(config: ServerConfig): Record<ModelToolName, string[]> {
+  const chains = {} as Record<ModelToolName, string[]>;
+  for (const toolName of Object.keys(MODEL_TIERS) as ModelToolName[]) {
+    chains[toolName] = resolveModelChain(toolName, config).map((m) => m ?? "auto");
+  }
+  return chains;
+}
+
+// ============================================================================
+// Quota
+// ============================================================================
+
+/**
+ * Get the quota circuit-breaker cooldown
+ *
+ * @param config - Loaded configuration (default: loadConfig())
+ * @returns Cooldown in milliseconds
+ */
+export function getQuotaCooldownMs(config: ServerConfig = loadConfig().config): number {
+  return config.quota?.cooldownMs ?? DEFAULTS.QUOTA_COOLDOWN_MS;
+}
+
+// ============================================================================
+// Backend
+// ============================================================================
+
+/**
+ * Get the configured Gemini backend
+ *
+ * @param config - Loaded configuration (default: loadConfig())
+ * @returns Backend name
+ */
+export function getBackendName(config: ServerConfig = loadConfig().config): BackendName {
+  return config.backend?.type ?? DEFAULTS.BACKEND;
+}
+
+/**
+ * Get the fake backend script path, resolved against the project root
+ *
+ * @param config - Loaded configuration (default: loadConfig())
+ * @param projectRoot - Project root used to resolve relative paths
+ * @returns Absolute script path, or null if none is configured
+ */
+export function getFakeScriptPath(
+  config: ServerConfig = loadConfig().config,
+  projectRoot: string = getProjectRoot()
+): string | null {
+  const scriptPath = config.backend?.fakeScript;
+  if (!scriptPath) {
+    return null;
+  }
+  return path.isAbsolute(scriptPath) ? scriptPath : path.resolve(projectRoot, scriptPath);
+}
+
+/**
+ * Get the Gemini REST API base URL used by the api backend
+ *
+ * @param config - Loaded configuration (default: loadConfig())
+ * @returns Base URL without a trailing slash
+ */
+export function getApiBaseUrl(config: ServerConfig = loadConfig().config): string {
+  return (config.backend?.baseUrl ?? API.BASE_URL).replace(/\/+$/, "");
+}
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+/**
+ * Get the prompt transport settings for the CLI backend
+ *
+ * @param config - Loaded configuration (default: loadConfig())
+ * @returns Transport mode and the auto-mode size threshold in bytes
+ */
+export function getPromptTransportConfig(config: ServerConfig = loadConfig().config): {
+  transport: PromptTransport;
+  argMaxBytes: number;
+} {
+  return {
+    transport: config.cli?.promptTransport ?? DEFAULTS.PROMPT_TRANSPORT,
+    argMaxBytes: config.cli?.promptArgMaxBytes ?? DEFAULTS.PROMPT_ARG_MAX_BYTES,
+  };
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Get the default state directory
+ * Uses $XDG_STATE_HOME when set, otherwise ~/.local/state
+ */
+export function getDefaultStateDir(): string {
+  const base = process.env.XDG_STATE_HOME || path.join(os.homedir(), ".local", "state");
+  return path.join(base, CONFIG.STATE_DIR);
+}
+
+/**
+ * Get the storage settings for chunk caches and async jobs
+ *
+ * @param config - Loaded configuration (default: loadConfig())
+ * @param projectRoot - Project root used to resolve a relative state directory
+ * @returns Store type, absolute state directory, and size cap in bytes
+ */
+export function getStorageConfig(
+  config: ServerConfig = loadConfig().config,
+  projectRoot: string = getProjectRoot()
+): { type: StorageType; stateDir: string; maxBytes: number } {
+  const stateDir = config.storage?.stateDir;
+  return {
+    type: config.storage?.type ?? DEFAULTS.STORAGE,
+    stateDir: !stateDir
+      ? getDefaultStateDir()
+      : path.isAbsolute(stateDir)
+        ? stateDir
+        : path.resolve(projectRoot, stateDir),
+    maxBytes: config.storage?.maxBytes ?? DEFAULTS.STATE_MAX_BYTES,
+  };
+}
+
+// ============================================================================
+// Response Cache
+// ============================================================================
+
+/**
+ * Get the response cache limits
+ *
+ * @param config - Loaded configuration (default: loadConfig())
+ * @returns Maximum cached responses and total cached bytes
+ */
+export function getCacheLimits(config: ServerConfig = loadConfig().config): {
+  maxEntries: number;
+  maxBytes: number;
+} {
+  return {
+    maxEntries: config.cache?.maxEntries ?? DEFAULTS.CACHE_MAX_ENTRIES,
+    maxBytes: config.cache?.maxBytes ?? DEFAULTS.CACHE_MAX_BYTES,
+  };
+}
@@ -0,0 +1,338 @@
+/**
+ * Error taxonomy for Gemini execution
+ *
+ * Failures are classified once, where they happen (commandExecutor,
+ * backends, geminiExecutor), into typed GeminiError subclasses carrying the
+ * exit code, stderr category, quota reset time and model. Tools and the MCP
+ * handler turn any error into the ErrorResponse shape with toErrorResponse()
+ * instead of inspecting messages, and isErrorResponse() tells the MCP handler
+ * which tool results to flag with isError.
+ */
+
+import { ZodError } from "zod";
+import { ERROR_CODES, ERROR_NEXT_STEPS, type ErrorCode } from "../constants.js";
+import type { ErrorResponse } from "../types.js";
+import { parseQuotaResetTime } from "./modelAvailability.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What a Gemini failure was about, as read from stderr or the error body
+ */
+export type ErrorCategory = "not_found" | "auth" | "quota" | "network" | "cancelled" | "path" | "unknown";
+
+/**
+ * One invalid tool argument
+ */
+export interface ArgumentIssue {
+  /** Dotted path of the argument ("(root)" for the arguments object itself) */
+  field: string;
+  message: string;
+}
+
+/**
+ * Optional metadata attached to a GeminiError
+ */
+export interface GeminiErrorOptions {
+  /** Category for errors without a narrower class (e.g. "network") */
+  category?: ErrorCategory;
+  /** Process exit code (CLI backend) */
+  exitCode?: number | null;
+  /** Captured stderr (CLI backend) */
+  stderr?: string;
+  /** When the quota resets (epoch ms) */
+  retryAfter?: number;
+  /** Model the failing attempt used (null = auto-select) */
+  model?: string | null;
+  /** Underlying error */
+  cause?: unknown;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+/**
+ * Base class for Gemini execution failures
+ * Used directly for failures that fit no narrower class (GEMINI_CLI_ERROR).
+ */
+export class GeminiError extends Error {
+  readonly code: ErrorCode = ERROR_CODES.GEMINI_CLI_ERROR;
+  readonly category: ErrorCategory;
+  readonly exitCode?: number | null;
+  readonly stderr?: string;
+  retryAfter?: number;
+  /** Set by geminiExecutor when the failing model is known */
+  model?: string | null;
+
+  constructor(message: string, options: GeminiErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = "GeminiError";
+    this.category = options.category ?? "unknown";
+    this.exitCode = options.exitCode;
+    this.stderr = options.stderr;
+    this.retryAfter = options.retryAfter;
+    this.model = options.model;
+  }
+}
+
+/**
+ * The Gemini CLI binary could not be started
+ */
+export class GeminiCliNotFoundError extends GeminiError {
+  override readonly code = ERROR_CODES.GEMINI_CLI_NOT_FOUND;
+  override readonly category = "not_found";
+
+  constructor(message: string, options: GeminiErrorOptions = {}) {
+    super(message, options);
+    this.name = "GeminiCliNotFoundError";
+  }
+}
+
+/**
+ * Gemini rejected the request for missing or invalid credentials
+ */
+export class GeminiAuthError extends GeminiError {
+  override readonly code = ERROR_CODES.AUTH_MISSING;
+  override readonly category = "auth";
+
+  constructor(message: string, options: GeminiErrorOptions = {}) {
+    super(message, options);
+    this.name = "GeminiAuthError";
+  }
+}
+
+/**
+ * Quota or rate limit exhausted; retryAfter is parsed from the message if not given
+ */
+export class GeminiQuotaError extends GeminiError {
+  override readonly code = ERROR_CODES.QUOTA_EXCEEDED;
+  override readonly category = "quota";
+
+  constructor(message: string, options: GeminiErrorOptions = {}) {
+    super(message, options);
+    this.name = "GeminiQuotaError";
+    this.retryAfter ??= parseQuotaResetTime(`${message}\n${options.stderr ?? ""}`) ?? undefined;
+  }
+}
+
+/**
+ * Error raised when a command or request is cancelled via its AbortSignal
+ */
+export class CommandCancelledError extends GeminiError {
+  override readonly code = ERROR_CODES.CANCELLED;
+  override readonly category = "cancelled";
+
+  constructor(command: string) {
+    super(`Command '${command}' was cancelled`);
+    this.name = "CommandCancelledError";
+  }
+}
+
+/**
+ * A prompt referenced a path outside the project root (or otherwise disallowed)
+ * Raised while preparing a request, so it passes through the executor untouched.
+ */
+export class PathNotAllowedError extends GeminiError {
+  override readonly code = ERROR_CODES.PATH_NOT_ALLOWED;
+  override readonly category = "path";
+  /** The rejected path as written in the prompt */
+  readonly path: string;
+
+  constructor(message: string, path: string) {
+    super(message);
+    this.name = "PathNotAllowedError";
+    this.path = path;
+  }
+}
+
+/**
+ * Tool arguments failed schema validation
+ */
+export class InvalidArgumentError extends Error {
+  readonly code = ERROR_CODES.INVALID_ARGUMENT;
+  readonly issues: ArgumentIssue[];
+
+  constructor(message: string, issues: ArgumentIssue[]) {
+    super(message);
+    this.name = "InvalidArgumentError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Convert Zod validation issues to per-field argument issues
+ *
+ * @param error - Zod validation error
+ * @returns One entry per issue
+ */
+export function toArgumentIssues(error: ZodError): ArgumentIssue[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.join(".") || "(root)",
+    message: issue.message,
+  }));
+}
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Patterns for classifying Gemini CLI / API failure text, checked in order
+ */
+const CATEGORY_PATTERNS: Array<[ErrorCategory, RegExp]> = [
+  ["quota", /quota|resource_exhausted|rate limit|too many requests|\b429\b|capacity/i],
+  [
+    "auth",
+    /\b(?:unauthenticated|unauthorized|authentication|authenticate|auth method|login|log in|credentials?|api key not valid|permission_denied)\b/i,
+  ],
+  ["not_found", /\bENOENT\b|command not found|is not recognized as an internal or external command/i],
+  ["network", /\b(?:ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT|EAI_AGAIN)\b|fetch failed|network error/i],
+];
+
+/**
+ * Classify Gemini failure text (stderr, a stream error event or an API error body)
+ *
+ * Only apply this to text produced by Gemini or the process running it,
+ * never to arbitrary errors.
+ *
+ * @param text - Failure text
+ * @returns Category ("unknown" if nothing matched)
+ */
+export function classifyGeminiFailure(text: string): ErrorCategory {
+  for (const [category, pattern] of CATEGORY_PATTERNS) {
+    if (pattern.test(text)) {
+      return category;
+    }
+  }
+  return "unknown";
+}
+
+/**
+ * Create the GeminiError subclass matching a failure
+ *
+ * @param message - Error message
+ * @param options - Metadata; `stderr` is classified when present, otherwise the message
+ * @returns Typed error
+ */
+export function createGeminiError(message: string, options: GeminiErrorOptions = {}): GeminiError {
+  const category = classifyGeminiFailure(options.stderr || message);
+  switch (category) {
+    case "quota":
+      return new GeminiQuotaError(message, options);
+    case "auth":
+      return new GeminiAuthError(message, options);
+    case "not_found":
+      return new GeminiCliNotFoundError(message, options);
+    default:
+      return new GeminiError(message, { ...options, category });
+  }
+}
+
+/**
+ * Wrap an unexpected error as a GeminiError without guessing its category
+ *
+ * @param error - Any thrown value
+ * @returns The error itself if already a GeminiError, otherwise a generic GeminiError
+ */
+export function toGeminiError(error: unknown): GeminiError {
+  if (error instanceof GeminiError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new GeminiError(message, { cause: error });
+}
+
+// ============================================================================
+// Error Responses
+// ============================================================================
+
+/**
+ * Tool-specific additions to an ErrorResponse
+ */
+export interface ErrorResponseContext {
+  /** Replaces the error's own message */
+  message?: string;
+  /** Additional details to include */
+  details?: Record<string, unknown>;
+  /** Per-code nextStep hints that take precedence over ERROR_NEXT_STEPS */
+  nextSteps?: Partial<Record<ErrorCode, string>>;
+}
+
+/**
+ * Map any error to the structured ErrorResponse returned by tools
+ *
+ * GeminiErrors keep their code and metadata, argument validation errors
+ * become INVALID_ARGUMENT with per-field issues, and anything else is INTERNAL. Every response carries a
+ * nextStep hint for the calling agent.
+ *
+ * @param error - Any thrown value
+ * @param tool - Tool that failed
+ * @param context - Message override, extra details and tool-specific next steps
+ * @returns ErrorResponse object (serialize with JSON.stringify)
+ */
+export function toErrorResponse(
+  error: unknown,
+  tool: string,
+  context: ErrorResponseContext = {}
+): ErrorResponse {
+  const message = context.message ?? (error instanceof Error ? error.message : String(error));
+
+  let code: ErrorCode = ERROR_CODES.INTERNAL;
+  const details: Record<string, unknown> = { tool };
+
+  if (error instanceof GeminiError) {
+    code = error.code;
+    if (error.model !== undefined) details.model = error.model ?? "auto";
+    if (error.category !== "unknown") details.category = error.category;
+    if (error.exitCode !== undefined && error.exitCode !== null) details.exitCode = error.exitCode;
+    if (error.retryAfter !== undefined) details.retryAfter = new Date(error.retryAfter).toISOString();
+    if (error instanceof PathNotAllowedError) details.invalidPaths = [error.path];
+  } else if (error instanceof InvalidArgumentError) {
+    code = error.code;
+    details.issues = error.issues;
+  } else if (error instanceof ZodError) {
+    code = ERROR_CODES.INVALID_ARGUMENT;
+    details.issues = toArgumentIssues(error);
+  }
+
+  return {
+    error: {
+      code,
+      message,
+      details: { ...details, ...context.details, nextStep: context.nextSteps?.[code] ?? ERROR_NEXT_STEPS[code] },
+    },
+  };
+}
+
+/**
+ * Check whether a tool result is an ErrorResponse
+ *
+ * Tools return their failures as JSON text; this recognizes that envelope
+ * (a top-level `error` object with a known code) so the MCP result can set
+ * isError.
+ *
+ * @param text - Tool result text
+ * @returns True if the text is a serialized ErrorResponse
+ */
+export function isErrorResponse(text: string): boolean {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return false;
+  }
+
+  if (parsed === null || typeof parsed !== "object" || !("error" in parsed)) {
+    return false;
+  }
+
+  const error = (parsed as { error: unknown }).error;
+  return (
+    error !== null &&
+    typeof error === "object" &&
+    Object.values(ERROR_CODES).includes((error as { code?: unknown }).code as ErrorCode)
+  );
+}
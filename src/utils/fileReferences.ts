@@ -0,0 +1,196 @@
+/**
+ * File reference utility
+ *
+ * Normalizes the files Gemini accessed (from its tool events) and the files
+ * it cited in its answer to project-relative paths, and flags references to
+ * files that do not exist.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { isWithinProjectRoot } from "./pathValidator.js";
+
+// ============================================================================
+// Patterns
+// ============================================================================
+
+/**
+ * Extensions accepted for citations without a directory part (e.g., `package.json`)
+ * Paths containing a slash are accepted with any extension.
+ */
+const FILE_EXTENSIONS = new Set([
+  "c", "cc", "cjs", "cpp", "cs", "css", "env", "go", "gradle", "h", "hpp", "html", "java",
+  "js", "json", "jsx", "kt", "lock", "md", "mjs", "php", "py", "rb", "rs", "scss", "sh",
+  "sql", "svelte", "swift", "toml", "ts", "tsx", "txt", "vue", "xml", "yaml", "yml",
+]);
+
+/**
+ * Path-like tokens in prose: at least one directory separator and an extension,
+ * optionally followed by :line or :start-end
+ */
+const PROSE_PATH_PATTERN = /(?:^|[\s(["'@])((?:\/|\.{1,2}\/)?(?:[\w.-]+\/)+[\w.-]+\.[A-Za-z0-9]+(?::\d+(?:-\d+)?)?)/g;
+
+/**
+ * Inline code spans and list items that may hold a single path
+ */
+const CODE_SPAN_PATTERN = /`([^`\s]+)`/g;
+const LIST_ITEM_PATTERN = /^\s*[-*]\s+([^\s`]+)\s*$/gm;
+
+/**
+ * Splits a mention into its path and optional :line or :start-end suffix
+ */
+const LINE_SUFFIX = /^(.*?)(?::(\d+)(?:-(\d+))?)?$/;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A file path mentioned in text
+ */
+export interface PathMention {
+  /** Path as written, without the line suffix or a leading @ */
+  path: string;
+  /** First cited line (1-based), if a :line suffix was given */
+  startLine?: number;
+  /** Last cited line; equals startLine for a single line */
+  endLine?: number;
+  /** Mention exactly as written (e.g., "src/auth.ts:10-20") */
+  raw: string;
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/**
+ * Convert a path to the form used in tool responses
+ *
+ * Paths inside the project root become relative with forward slashes;
+ * paths outside it are returned as normalized absolute paths.
+ *
+ * @param filePath - Absolute or project-relative path (a leading @ is ignored)
+ * @param projectRoot - Project root directory
+ * @returns Normalized path
+ */
+export function toProjectPath(filePath: string, projectRoot: string): string {
+  const root = path.resolve(projectRoot);
+  const resolved = path.resolve(root, filePath.replace(/^@/, ""));
+
+  if (!isWithinProjectRoot(resolved, root)) {
+    return resolved;
+  }
+
+  return path.relative(root, resolved).split(path.sep).join("/") || ".";
+}
+
+/**
+ * Normalize and deduplicate a list of paths, keeping first-seen order
+ *
+ * @param paths - Paths as reported by Gemini or extracted from text
+ * @param projectRoot - Project root directory
+ * @returns Unique normalized paths
+ */
+export function toProjectPaths(paths: string[], projectRoot: string): string[] {
+  return [...new Set(paths.map((p) => toProjectPath(p, projectRoot)))];
+}
+
+// ============================================================================
+// Citations
+// ============================================================================
+
+/**
+ * Check whether a code span or list item looks like a file path
+ */
+function looksLikeFilePath(candidate: string): boolean {
+  if (candidate.includes("://")) {
+    return false;
+  }
+
+  const extension = path.extname(candidate).slice(1).toLowerCase();
+  if (!extension) {
+    return false;
+  }
+
+  return candidate.includes("/") || FILE_EXTENSIONS.has(extension);
+}
+
+/**
+ * Parse a candidate mention into a PathMention, or null if it is not a path
+ */
+function parseMention(candidate: string): PathMention | null {
+  const raw = candidate.replace(/^@/, "");
+  const [, filePath, start, end] = raw.match(LINE_SUFFIX) ?? [];
+  if (!filePath || !looksLikeFilePath(filePath)) {
+    return null;
+  }
+
+  const mention: PathMention = { path: filePath, raw };
+  if (start) {
+    mention.startLine = parseInt(start, 10);
+    mention.endLine = end ? parseInt(end, 10) : mention.startLine;
+  }
+  return mention;
+}
+
+/**
+ * Extract every file path mention (with optional line range) from an answer
+ *
+ * Recognizes paths with a directory part anywhere in the text (including
+ * @path references and :line / :start-end suffixes), plus bare file names
+ * such as `package.json` when they appear in inline code or as a list item.
+ *
+ * @param text - Answer text
+ * @returns Distinct mentions in order of first appearance
+ */
+export function extractPathMentions(text: string): PathMention[] {
+  const found: Array<{ index: number; mention: PathMention }> = [];
+
+  for (const pattern of [PROSE_PATH_PATTERN, CODE_SPAN_PATTERN, LIST_ITEM_PATTERN]) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const mention = parseMention(match[1]);
+      if (mention) {
+        found.push({ index: match.index + match[0].indexOf(match[1]), mention });
+      }
+    }
+  }
+
+  found.sort((a, b) => a.index - b.index);
+
+  const seen = new Set<string>();
+  return found
+    .map((entry) => entry.mention)
+    .filter((mention) => !seen.has(mention.raw) && seen.add(mention.raw));
+}
+
+/**
+ * Extract the file paths mentioned in an answer
+ *
+ * @param text - Answer text
+ * @returns Mentioned paths without line suffixes, in order of first mention
+ */
+export function extractCitedPaths(text: string): string[] {
+  return [...new Set(extractPathMentions(text).map((mention) => mention.path))];
+}
+
+// ============================================================================
+// Existence
+// ============================================================================
+
+/**
+ * Find the paths inside the project root that do not exist on disk
+ * Paths outside the root are never checked, so nothing beyond it is probed.
+ *
+ * @param paths - Normalized paths (relative to the project root, or absolute)
+ * @param projectRoot - Project root directory
+ * @returns In-root paths that do not exist
+ */
+export function findMissingFiles(paths: string[], projectRoot: string): string[] {
+  const root = path.resolve(projectRoot);
+  return paths.filter((p) => {
+    const resolved = path.resolve(root, p);
+    return isWithinProjectRoot(resolved, root) && !fs.existsSync(resolved);
+  });
+}
@@ -1,14 +1,30 @@
 /**
  * Gemini CLI executor utility
  *
- * Handles all interactions with the Gemini CLI binary.
- * Implements a 3-tier model fallback strategy for resilience.
+ * Runs prompts through the configured Gemini backend (the CLI binary by default).
+ * Implements a configurable model fallback chain (3 tiers by default) for resilience.
  */
 
-import { SYSTEM_PROMPT, MODEL_TIERS, CLI, ERROR_MESSAGES, STATUS_MESSAGES } from "../constants.js";
+import { SYSTEM_PROMPT, CLI, ERROR_MESSAGES, STATUS_MESSAGES } from "../constants.js";
 import { Logger } from "./logger.js";
 import { executeCommand, commandExists, getCommandVersion } from "./commandExecutor.js";
-import type { ProgressCallback } from "../types.js";
+import {
+  CommandCancelledError,
+  GeminiAuthError,
+  GeminiError,
+  GeminiQuotaError,
+  toGeminiError,
+} from "./errors.js";
+import { resolveModelChain, getQuotaCooldownMs } from "./config.js";
+import { extractCitedPaths, findMissingFiles, toProjectPaths } from "./fileReferences.js";
+import { getProjectRoot } from "./pathValidator.js";
+import {
+  getExhaustedModel,
+  markModelExhausted,
+  markModelAvailable,
+} from "./modelAvailability.js";
+import type { ProgressCallback, ToolStats } from "../types.js";
+import { getBackend } from "../backends/index.js";
 
 // ============================================================================
 // Types
@@ -20,13 +36,16 @@ import type { ProgressCallback } from "../types.js";
 export interface GeminiResponse {
   /** The answer/content from Gemini */
   answer: string;
-  /** Files that were accessed during analysis */
+  /** Files Gemini's tools read or listed (relative to project root when inside it) */
   filesAccessed: string[];
-  /** Execution statistics */
-  stats: {
+  /** Files mentioned in the answer (relative to project root when inside it) */
+  filesCited: string[];
+  /** Accessed or cited files that do not exist */
+  missingFiles: string[];
+  /** Execution statistics, with per-model and per-tool breakdowns when reported */
+  stats: ToolStats & {
     tokensUsed: number;
     toolCalls: number;
-    latencyMs: number;
   };
   /** Model that was used (may differ from requested due to fallback) */
   model: string;
@@ -37,169 +56,19 @@ export interface GeminiResponse {
  */
 export type ToolName = "quick_query" | "deep_research" | "analyze_directory";
 
-/**
- * Internal type for model tier configuration
- */
-interface ModelTierConfig {
-  tier1: string;
-  tier2: string;
-  tier3: null;
-}
-
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
 /**
  * Get model tiers for a specific tool
+ * Resolved from config files and BGMCP_* env overrides (see config.ts)
  *
  * @param toolName - The tool requesting Gemini execution
  * @returns Array of model names to try in order (null = auto-select)
  */
 function getModelTiers(toolName: ToolName): (string | null)[] {
-  const config: ModelTierConfig = MODEL_TIERS[toolName] ?? MODEL_TIERS.quick_query;
-  return [config.tier1, config.tier2, config.tier3];
-}
-
-/**
- * Check if an error is a quota/capacity error that should trigger fallback
- *
- * @param error - The error to check
- * @returns true if this is a quota error
- */
-function isQuotaError(error: unknown): boolean {
-  if (!(error instanceof Error)) {
-    return false;
-  }
-
-  const message = error.message.toLowerCase();
-
-  return (
-    message.includes("quota") ||
-    message.includes("resource_exhausted") ||
-    message.includes("rate limit") ||
-    message.includes("capacity") ||
-    message.includes("too many requests") ||
-    message.includes("429")
-  );
-}
-
-/**
- * Build Gemini CLI arguments
- *
- * @param prompt - The full prompt to send
- * @param model - Model name or null for auto-select
- * @returns Array of CLI arguments
- */
-function buildGeminiArgs(prompt: string, model: string | null): string[] {
-  const args: string[] = [];
-
-  // Add model flag if specified (Tier 3 uses auto-select with no -m flag)
-  if (model !== null) {
-    args.push(CLI.FLAGS.MODEL, model);
-  }
-
-  // Required flags for headless mode
-  args.push(CLI.FLAGS.YES); // Auto-approve file reads
-  args.push(CLI.FLAGS.OUTPUT_FORMAT, CLI.OUTPUT_FORMATS.JSON);
-
-  // Add prompt
-  args.push(CLI.FLAGS.PROMPT, prompt);
-
-  // NEVER add --yolo flag (read-only enforcement)
-
-  return args;
-}
-
-/**
- * Parse JSON output from Gemini CLI
- *
- * @param output - Raw stdout from Gemini CLI
- * @returns Parsed response data
- */
-function parseGeminiOutput(output: string): {
-  text: string;
-  tokensUsed?: number;
-  toolCalls?: number;
-  filesAccessed?: string[];
-} {
-  try {
-    // Try to parse as JSON
-    const parsed = JSON.parse(output);
-
-    // Handle different possible response structures
-    if (typeof parsed === "object" && parsed !== null) {
-      // Look for common response fields
-      const text =
-        parsed.response ||
-        parsed.text ||
-        parsed.content ||
-        parsed.answer ||
-        parsed.result ||
-        (typeof parsed === "string" ? parsed : JSON.stringify(parsed, null, 2));
-
-      return {
-        text: String(text),
-        tokensUsed: parsed.usage?.totalTokens || parsed.tokensUsed || parsed.tokens,
-        toolCalls: parsed.toolCalls || parsed.tool_calls?.length || 0,
-        filesAccessed: extractFilesFromResponse(parsed),
-      };
-    }
-
-    return { text: output };
-  } catch {
-    // If not valid JSON, return raw output
-    // This handles cases where Gemini outputs plain text
-    return { text: output };
-  }
-}
-
-/**
- * Extract file paths from Gemini response
- *
- * @param response - Parsed Gemini response object
- * @returns Array of file paths that were accessed
- */
-function extractFilesFromResponse(response: unknown): string[] {
-  const files: string[] = [];
-
-  if (typeof response !== "object" || response === null) {
-    return files;
-  }
-
-  const obj = response as Record<string, unknown>;
-
-  // Check common fields for file references
-  if (Array.isArray(obj.filesAccessed)) {
-    files.push(...(obj.filesAccessed as string[]));
-  }
-
-  if (Array.isArray(obj.files)) {
-    files.push(...(obj.files as string[]));
-  }
-
-  // Extract from tool calls if present
-  if (Array.isArray(obj.tool_calls)) {
-    for (const call of obj.tool_calls as Array<Record<string, unknown>>) {
-      if (call.name === "read_file" && typeof call.path === "string") {
-        files.push(call.path);
-      }
-    }
-  }
-
-  // Parse "Files Referenced" section from text if present
-  const text = String(obj.response || obj.text || obj.content || "");
-  const fileMatches = text.match(/## Files Referenced\n([\s\S]*?)(?:\n##|$)/);
-  if (fileMatches) {
-    const fileLines = fileMatches[1]
-      .split("\n")
-      .map((line) => line.replace(/^[-*]\s*/, "").trim())
-      .filter((line) => line.length > 0 && !line.startsWith("#"));
-    files.push(...fileLines);
-  }
-
-  // Deduplicate
-  return [...new Set(files)];
+  return resolveModelChain(toolName);
 }
 
 // ============================================================================
@@ -207,85 +76,145 @@ function extractFilesFromResponse(response: unknown): string[] {
 // ============================================================================
 
 /**
- * Execute a prompt using Gemini CLI with model fallback
+ * Execute a prompt using the configured Gemini backend with model fallback
  *
  * @param prompt - The user's research prompt
  * @param toolName - The tool initiating this request (determines model selection)
  * @param onProgress - Optional callback for progress updates
+ * @param signal - Optional abort signal; cancels the running attempt and skips fallback
  * @returns GeminiResponse with the answer and metadata
+ * @throws GeminiError subclass describing the last failure (with `model` set)
  */
 export async function executeGeminiCLI(
   prompt: string,
   toolName: ToolName,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
 ): Promise<GeminiResponse> {
   const startTime = Date.now();
 
-  // Prepend system prompt
-  const finalPrompt = `${SYSTEM_PROMPT}\n\n---\n\nUSER REQUEST:\n${prompt}`;
+  const backend = getBackend();
 
-  // Get model tiers for this tool
-  const modelTiers = getModelTiers(toolName);
+  // Get model tiers for this tool, skipping models in quota cooldown
+  const configuredTiers = getModelTiers(toolName);
+  const modelTiers = configuredTiers.filter((model) => {
+    const exhausted = getExhaustedModel(model);
+    if (exhausted) {
+      const until = new Date(exhausted.availableAt).toISOString();
+      Logger.info(`${STATUS_MESSAGES.QUOTA_COOLDOWN_SKIP}: ${exhausted.model} (until ${until})`);
+    }
+    return exhausted === null;
+  });
+
+  Logger.info(`Executing Gemini (${backend.name} backend) for tool: ${toolName}`);
+
+  if (modelTiers.length === 0) {
+    const nextAvailable = Math.min(
+      ...configuredTiers.map((model) => getExhaustedModel(model)?.availableAt ?? Date.now())
+    );
+    throw new GeminiQuotaError(
+      `${ERROR_MESSAGES.ALL_MODELS_EXHAUSTED} (next model available at ${new Date(nextAvailable).toISOString()})`,
+      { retryAfter: nextAvailable }
+    );
+  }
 
-  Logger.info(`Executing Gemini CLI for tool: ${toolName}`);
+  if (modelTiers.length < configuredTiers.length) {
+    const skipped = configuredTiers.length - modelTiers.length;
+    const message = `${STATUS_MESSAGES.QUOTA_COOLDOWN_SKIP} (${skipped} of ${configuredTiers.length})`;
+    onProgress?.(message + "\n", { kind: "status", message });
+  }
 
   // Try each tier with fallback
-  let lastError: Error | null = null;
+  let lastError: GeminiError | null = null;
 
   for (let i = 0; i < modelTiers.length; i++) {
     const model = modelTiers[i];
     const tierName = model ?? "auto-select";
 
     try {
+      if (signal?.aborted) {
+        throw new CommandCancelledError(CLI.COMMANDS.GEMINI);
+      }
+
       Logger.debug(`Attempting tier ${i + 1} with model: ${tierName}`);
 
       if (i > 0) {
         // Log fallback attempt
-        const message = i === 1 ? STATUS_MESSAGES.FALLBACK_RETRY : STATUS_MESSAGES.AUTO_SELECT_RETRY;
+        const message = model === null ? STATUS_MESSAGES.AUTO_SELECT_RETRY : STATUS_MESSAGES.FALLBACK_RETRY;
         Logger.warn(message);
-        onProgress?.(message + "\n");
+        onProgress?.(message + "\n", { kind: "status", message });
       }
 
-      const args = buildGeminiArgs(finalPrompt, model);
-      const output = await executeCommand(CLI.COMMANDS.GEMINI, args, onProgress);
-
-      // Parse the output
-      const parsed = parseGeminiOutput(output);
+      const parsed = await backend.execute({
+        prompt,
+        systemPrompt: SYSTEM_PROMPT,
+        model,
+        toolName,
+        onProgress,
+        signal,
+      });
       const latencyMs = Date.now() - startTime;
 
-      Logger.info(`Gemini CLI completed in ${latencyMs}ms with model: ${tierName}`);
+      Logger.info(`Gemini (${backend.name} backend) completed in ${latencyMs}ms with model: ${tierName}`);
+
+      // A success closes the breaker for this model
+      markModelAvailable(model);
 
       if (i > 0) {
         Logger.info(STATUS_MESSAGES.FALLBACK_SUCCESS);
       }
 
+      const projectRoot = getProjectRoot();
+      const filesAccessed = toProjectPaths(parsed.filesAccessed ?? [], projectRoot);
+      const filesCited = toProjectPaths(extractCitedPaths(parsed.text), projectRoot);
+
       return {
         answer: parsed.text,
-        filesAccessed: parsed.filesAccessed || [],
+        filesAccessed,
+        filesCited,
+        missingFiles: findMissingFiles([...new Set([...filesAccessed, ...filesCited])], projectRoot),
         stats: {
           tokensUsed: parsed.tokensUsed || 0,
           toolCalls: parsed.toolCalls || 0,
           latencyMs,
+          apiLatencyMs: parsed.apiLatencyMs,
+          cachedTokens: parsed.cachedTokens,
+          models: parsed.models,
+          toolCallsByName: parsed.toolCallsByName,
         },
-        model: model ?? "auto",
+        model: model ?? parsed.model ?? "auto",
       };
     } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
+      lastError = toGeminiError(error);
+      lastError.model ??= model;
+
+      // Cancellation is final - never fall back to another tier
+      if (lastError instanceof CommandCancelledError) {
+        Logger.info(`Gemini (${backend.name} backend) cancelled for tool: ${toolName}`);
+        throw lastError;
+      }
+
+      const isQuotaError = lastError instanceof GeminiQuotaError;
+
+      // Remember quota failures so later calls skip this model during cooldown
+      if (isQuotaError) {
+        markModelExhausted(model, lastError.message, getQuotaCooldownMs());
+      }
 
       // Check if this is a quota error and we have more tiers to try
-      if (isQuotaError(error) && i < modelTiers.length - 1) {
+      if (isQuotaError && i < modelTiers.length - 1) {
         Logger.warn(`${ERROR_MESSAGES.QUOTA_EXCEEDED_SHORT} (tier ${i + 1})`);
         continue; // Try next tier
       }
 
       // Not a quota error or no more tiers - throw
-      Logger.error(`Gemini CLI failed: ${lastError.message}`);
+      Logger.error(`Gemini (${backend.name} backend) failed: ${lastError.message}`);
       throw lastError;
     }
   }
 
   // Should not reach here, but just in case
-  throw lastError ?? new Error("Gemini CLI execution failed");
+  throw lastError ?? new GeminiError("Gemini CLI execution failed");
 }
 
 // ============================================================================
@@ -340,8 +269,7 @@ export async function checkGeminiAuth(): Promise<{
     ]);
     return { configured: true, method: "google_login" };
   } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    if (message.includes("auth") || message.includes("login") || message.includes("credential")) {
+    if (error instanceof GeminiAuthError) {
       return { configured: false };
     }
     // Other errors might still mean auth is configured
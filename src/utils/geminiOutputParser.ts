@@ -0,0 +1,500 @@
+/**
+ * Gemini CLI output parser utility
+ *
+ * Parses `--output-format stream-json` output (newline-delimited JSON events)
+ * incrementally so partial answers and tool activity can be surfaced while
+ * Gemini is still working, and normalizes the usage statistics the CLI
+ * reports in both output formats.
+ */
+
+import * as path from "path";
+import type { ModelUsage, UsageBreakdown } from "../types.js";
+import { getProjectRoot } from "./pathValidator.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Session start event (first event in the stream)
+ */
+export interface StreamInitEvent {
+  type: "init";
+  session_id?: string;
+  model?: string;
+}
+
+/**
+ * Message event (assistant messages arrive as deltas)
+ */
+export interface StreamMessageEvent {
+  type: "message";
+  role: "user" | "assistant";
+  content: string;
+  delta?: boolean;
+}
+
+/**
+ * Tool invocation requested by the model
+ */
+export interface StreamToolUseEvent {
+  type: "tool_use";
+  tool_name: string;
+  tool_id?: string;
+  parameters?: Record<string, unknown>;
+}
+
+/**
+ * Result of a tool invocation
+ */
+export interface StreamToolResultEvent {
+  type: "tool_result";
+  tool_id?: string;
+  status?: "success" | "error";
+  output?: string;
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * Non-fatal warning or error reported mid-stream
+ */
+export interface StreamErrorEvent {
+  type: "error";
+  severity?: "warning" | "error";
+  message: string;
+}
+
+/**
+ * Final event with aggregated statistics
+ */
+export interface StreamResultEvent {
+  type: "result";
+  status?: "success" | "error";
+  error?: { type?: string; message?: string };
+  stats?: {
+    total_tokens?: number;
+    input_tokens?: number;
+    output_tokens?: number;
+    cached?: number;
+    duration_ms?: number;
+    tool_calls?: number;
+    /** Per-model token counts (newer CLI versions) */
+    models?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Any event emitted by `gemini --output-format stream-json`
+ */
+export type StreamJsonEvent =
+  | StreamInitEvent
+  | StreamMessageEvent
+  | StreamToolUseEvent
+  | StreamToolResultEvent
+  | StreamErrorEvent
+  | StreamResultEvent;
+
+/**
+ * Usage statistics normalized from either output format
+ */
+export interface GeminiStats extends UsageBreakdown {
+  tokensUsed?: number;
+  toolCalls?: number;
+}
+
+/**
+ * Aggregated result of a parsed stream
+ */
+export interface StreamJsonSummary extends UsageBreakdown {
+  /** Concatenated assistant message content */
+  text: string;
+  /** Model reported by the init event, if any */
+  model?: string;
+  tokensUsed?: number;
+  toolCalls: number;
+  /** Error reported by the final result event, if any */
+  error?: string;
+  /** Files read or listed by Gemini's tools, as reported (deduplicated) */
+  filesAccessed: string[];
+  /** Number of events successfully parsed */
+  eventCount: number;
+}
+
+/**
+ * Incremental parser for stream-json output
+ */
+export interface StreamJsonParser {
+  /** Feed a chunk of raw stdout (may contain partial lines) */
+  write(chunk: string): void;
+  /** Flush any buffered line and return the aggregated summary */
+  end(): StreamJsonSummary;
+}
+
+// ============================================================================
+// Stats
+// ============================================================================
+
+type JsonObject = Record<string, unknown>;
+
+function asObject(value: unknown): JsonObject | undefined {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as JsonObject)
+    : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Normalize one per-model entry
+ * The json format nests counts under `api` and `tokens`; stream-json result
+ * events report flat snake_case counts.
+ */
+function parseModelUsage(raw: JsonObject): { usage: ModelUsage; hasApiStats: boolean } {
+  const api = asObject(raw.api);
+  const tokens = asObject(raw.tokens) ?? raw;
+
+  const prompt = asNumber(tokens.prompt) ?? asNumber(tokens.input_tokens) ?? 0;
+  const candidates = asNumber(tokens.candidates) ?? asNumber(tokens.output_tokens) ?? 0;
+  const thoughts = asNumber(tokens.thoughts) ?? 0;
+  const tool = asNumber(tokens.tool) ?? 0;
+
+  return {
+    usage: {
+      requests: asNumber(api?.totalRequests) ?? 0,
+      errors: asNumber(api?.totalErrors) ?? 0,
+      latencyMs: asNumber(api?.totalLatencyMs) ?? 0,
+      tokens: {
+        prompt,
+        candidates,
+        cached: asNumber(tokens.cached) ?? 0,
+        thoughts,
+        tool,
+        total: asNumber(tokens.total) ?? asNumber(tokens.total_tokens) ?? prompt + candidates + thoughts + tool,
+      },
+    },
+    hasApiStats: api !== undefined,
+  };
+}
+
+/**
+ * Normalize the `stats` object reported by Gemini CLI
+ *
+ * Accepts both the `stats` field of `--output-format json` output
+ * (`models.<name>.api/tokens`, `tools.totalCalls/byName`) and the stats of a
+ * stream-json result event (`total_tokens`, `cached`, `tool_calls`, optional `models`).
+ * Unknown or missing fields are left undefined rather than guessed.
+ *
+ * @param raw - The stats value from the CLI output
+ * @returns Totals plus per-model and per-tool breakdowns where available
+ */
+export function parseGeminiStats(raw: unknown): GeminiStats {
+  const stats = asObject(raw);
+  if (!stats) {
+    return {};
+  }
+
+  const result: GeminiStats = {};
+
+  const models = asObject(stats.models);
+  if (models) {
+    const usages: Record<string, ModelUsage> = {};
+    let hasApiStats = false;
+
+    for (const [name, value] of Object.entries(models)) {
+      const entry = asObject(value);
+      if (!entry) continue;
+      const parsed = parseModelUsage(entry);
+      usages[name] = parsed.usage;
+      hasApiStats ||= parsed.hasApiStats;
+    }
+
+    const entries = Object.values(usages);
+    if (entries.length > 0) {
+      result.models = usages;
+      result.tokensUsed = entries.reduce((sum, usage) => sum + usage.tokens.total, 0);
+      result.cachedTokens = entries.reduce((sum, usage) => sum + usage.tokens.cached, 0);
+      if (hasApiStats) {
+        result.apiLatencyMs = entries.reduce((sum, usage) => sum + usage.latencyMs, 0);
+      }
+    }
+  }
+
+  const totalTokens = asNumber(stats.total_tokens);
+  if (totalTokens !== undefined) {
+    result.tokensUsed = totalTokens;
+  }
+  const cachedTokens = asNumber(stats.cached);
+  if (cachedTokens !== undefined) {
+    result.cachedTokens = cachedTokens;
+  }
+
+  const tools = asObject(stats.tools);
+  const totalCalls = asNumber(stats.tool_calls) ?? asNumber(tools?.totalCalls);
+  if (totalCalls !== undefined) {
+    result.toolCalls = totalCalls;
+  }
+  if (tools) {
+    const byName = asObject(tools.byName);
+    if (byName) {
+      result.toolCallsByName = Object.fromEntries(
+        Object.entries(byName).map(([name, value]) => [name, asNumber(asObject(value)?.count) ?? 0])
+      );
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * Parse a single line of stream-json output
+ *
+ * @param line - One line of stdout
+ * @returns The parsed event, or null if the line is not a recognizable event
+ */
+export function parseStreamJsonLine(line: string): StreamJsonEvent | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (typeof parsed === "object" && parsed !== null && typeof parsed.type === "string") {
+      return parsed as StreamJsonEvent;
+    }
+  } catch {
+    // Not a JSON line (e.g., CLI banner or warning text)
+  }
+
+  return null;
+}
+
+/**
+ * Create an incremental stream-json parser
+ *
+ * @param onEvent - Optional callback invoked for every parsed event, in order
+ * @returns Parser that accepts stdout chunks and produces a summary at the end
+ */
+export function createStreamJsonParser(
+  onEvent?: (event: StreamJsonEvent) => void
+): StreamJsonParser {
+  let buffer = "";
+  let text = "";
+  let model: string | undefined;
+  let stats: GeminiStats = {};
+  let toolCalls = 0;
+  const toolCallsByName: Record<string, number> = {};
+  const toolNames = new Map<string, string>();
+  const filesAccessed = new Set<string>();
+  let error: string | undefined;
+  let eventCount = 0;
+
+  const handleLine = (line: string): void => {
+    const event = parseStreamJsonLine(line);
+    if (!event) {
+      return;
+    }
+
+    eventCount++;
+
+    switch (event.type) {
+      case "init":
+        model = event.model ?? model;
+        break;
+      case "message":
+        if (event.role === "assistant" && typeof event.content === "string") {
+          text += event.content;
+        }
+        break;
+      case "tool_use":
+        toolCalls++;
+        toolCallsByName[event.tool_name] = (toolCallsByName[event.tool_name] ?? 0) + 1;
+        if (event.tool_id) {
+          toolNames.set(event.tool_id, event.tool_name);
+        }
+        getToolUseFiles(event).forEach((file) => filesAccessed.add(file));
+        break;
+      case "tool_result": {
+        const toolName = event.tool_id ? toolNames.get(event.tool_id) : undefined;
+        if (toolName && event.status !== "error") {
+          getToolResultFiles(toolName, event.output).forEach((file) => filesAccessed.add(file));
+        }
+        break;
+      }
+      case "result":
+        stats = parseGeminiStats(event.stats);
+        if (event.status === "error") {
+          error = event.error?.message ?? "Gemini CLI reported an error";
+        }
+        break;
+      default:
+        break;
+    }
+
+    onEvent?.(event);
+  };
+
+  return {
+    write(chunk: string): void {
+      buffer += chunk;
+
+      let newlineIndex = buffer.indexOf("\n");
+      while (newlineIndex !== -1) {
+        handleLine(buffer.slice(0, newlineIndex));
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf("\n");
+      }
+    },
+
+    end(): StreamJsonSummary {
+      if (buffer.length > 0) {
+        handleLine(buffer);
+        buffer = "";
+      }
+
+      return {
+        text,
+        model,
+        tokensUsed: stats.tokensUsed,
+        toolCalls: stats.toolCalls ?? toolCalls,
+        apiLatencyMs: stats.apiLatencyMs,
+        cachedTokens: stats.cachedTokens,
+        models: stats.models,
+        toolCallsByName: stats.toolCallsByName ?? (toolCalls > 0 ? toolCallsByName : undefined),
+        filesAccessed: [...filesAccessed],
+        error,
+        eventCount,
+      };
+    },
+  };
+}
+
+// ============================================================================
+// Tool File Access
+// ============================================================================
+
+/**
+ * Glob metacharacters; read_many_files entries containing them are patterns
+ */
+const GLOB_CHARS = /[*?[\]{}]/;
+
+/**
+ * Get the files a tool_use event reads, as passed to the tool
+ * (absolute or relative to the CLI's working directory)
+ *
+ * @param event - The tool_use event
+ * @returns File paths read by read_file / read_many_files; empty for other tools
+ */
+export function getToolUseFiles(event: StreamToolUseEvent): string[] {
+  const params = event.parameters ?? {};
+
+  switch (event.tool_name) {
+    case "read_file": {
+      const target = params.absolute_path ?? params.file_path ?? params.path;
+      return typeof target === "string" && target.length > 0 ? [target] : [];
+    }
+    case "read_many_files": {
+      const paths = Array.isArray(params.paths) ? params.paths : [];
+      return paths.filter(
+        (entry): entry is string => typeof entry === "string" && entry.length > 0 && !GLOB_CHARS.test(entry)
+      );
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Get the files listed in a glob or read_many_files result
+ *
+ * glob lists matches as absolute paths, one per line; read_many_files lists
+ * the files it processed as a bulleted list of `backticked` paths.
+ *
+ * @param toolName - Tool that produced the result
+ * @param output - Result output text
+ * @returns Listed file paths; empty for other tools or unrecognized output
+ */
+export function getToolResultFiles(toolName: string, output: string | undefined): string[] {
+  if (!output) {
+    return [];
+  }
+
+  const lines = output.split(/\r?\n/).map((line) => line.trim());
+
+  switch (toolName) {
+    case "glob":
+      return lines.filter((line) => path.isAbsolute(line));
+    case "read_many_files":
+      return lines.flatMap((line) => {
+        const match = line.match(/^[-*]\s+`([^`]+)`/);
+        return match ? [match[1]] : [];
+      });
+    default:
+      return [];
+  }
+}
+
+// ============================================================================
+// Progress Descriptions
+// ============================================================================
+
+/**
+ * Convert a tool parameter path to a project-relative display path
+ */
+function toDisplayPath(value: unknown): string | null {
+  if (typeof value !== "string" || value.length === 0) {
+    return null;
+  }
+
+  if (!path.isAbsolute(value)) {
+    return value;
+  }
+
+  const relative = path.relative(getProjectRoot(), value);
+  return relative && !relative.startsWith("..") ? relative.replace(/\\/g, "/") : value;
+}
+
+/**
+ * Build a short human-readable description of a tool_use event
+ *
+ * @param event - The tool_use event
+ * @returns Description such as "reading src/auth.ts"
+ */
+export function describeToolUse(event: StreamToolUseEvent): string {
+  const params = event.parameters ?? {};
+
+  switch (event.tool_name) {
+    case "read_file": {
+      const target = toDisplayPath(params.absolute_path ?? params.file_path ?? params.path);
+      return target ? `reading ${target}` : "reading a file";
+    }
+    case "read_many_files": {
+      const paths = Array.isArray(params.paths) ? params.paths : [];
+      if (paths.length === 1) {
+        return `reading ${toDisplayPath(paths[0]) ?? paths[0]}`;
+      }
+      return `reading ${paths.length || "multiple"} files`;
+    }
+    case "list_directory": {
+      const target = toDisplayPath(params.path ?? params.dir_path);
+      return target ? `listing ${target}` : "listing a directory";
+    }
+    case "glob":
+      return typeof params.pattern === "string"
+        ? `finding files matching ${params.pattern}`
+        : "finding files";
+    case "search_file_content":
+    case "grep":
+      return typeof params.pattern === "string"
+        ? `searching for "${params.pattern}"`
+        : "searching file contents";
+    default:
+      return `using ${event.tool_name}`;
+  }
+}
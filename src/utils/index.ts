@@ -10,8 +10,30 @@ export {
   executeCommand,
   commandExists,
   getCommandVersion,
+  CommandCancelledError,
+  type ExecuteCommandOptions,
 } from "./commandExecutor.js";
 
+// Error taxonomy
+export {
+  GeminiError,
+  GeminiCliNotFoundError,
+  GeminiAuthError,
+  GeminiQuotaError,
+  PathNotAllowedError,
+  InvalidArgumentError,
+  classifyGeminiFailure,
+  createGeminiError,
+  toGeminiError,
+  toArgumentIssues,
+  toErrorResponse,
+  isErrorResponse,
+  type ArgumentIssue,
+  type ErrorResponseContext,
+  type ErrorCategory,
+  type GeminiErrorOptions,
+} from "./errors.js";
+
 // Gemini CLI execution
 export {
   executeGeminiCLI,
@@ -23,6 +45,67 @@ export {
   type ToolName,
 } from "./geminiExecutor.js";
 
+// Gemini CLI output parsing
+export {
+  parseStreamJsonLine,
+  createStreamJsonParser,
+  describeToolUse,
+  parseGeminiStats,
+  getToolUseFiles,
+  getToolResultFiles,
+  type GeminiStats,
+  type StreamJsonEvent,
+  type StreamJsonSummary,
+  type StreamJsonParser,
+} from "./geminiOutputParser.js";
+
+// Model availability (quota circuit breaker)
+export {
+  parseQuotaResetTime,
+  markModelExhausted,
+  markModelAvailable,
+  isModelAvailable,
+  getExhaustedModel,
+  getModelAvailability,
+  resetModelAvailability,
+  type ExhaustedModel,
+} from "./modelAvailability.js";
+
+// Progress tracking
+export {
+  ProgressTracker,
+  TrackedOperation,
+  type ProgressToken,
+  type ProgressNotifier,
+  type ProgressOutcome,
+  type ProgressTrackerOptions,
+} from "./progressTracker.js";
+
+// Configuration
+export {
+  configSchema,
+  loadConfig,
+  resetConfigCache,
+  resolveModelChain,
+  describeModelChains,
+  getUserConfigPath,
+  getProjectConfigPath,
+  parseBooleanEnv,
+  getQuotaCooldownMs,
+  getBackendName,
+  getFakeScriptPath,
+  getApiBaseUrl,
+  getPromptTransportConfig,
+  getDefaultStateDir,
+  getStorageConfig,
+  getCacheLimits,
+  type ServerConfig,
+  type ToolModelConfig,
+  type ModelToolName,
+  type PromptTransport,
+  type LoadedConfig,
+} from "./config.js";
+
 // Path validation
 export {
   validatePath,
@@ -33,6 +116,23 @@ export {
   getProjectRoot,
 } from "./pathValidator.js";
 
+// File references
+export {
+  toProjectPath,
+  toProjectPaths,
+  extractPathMentions,
+  extractCitedPaths,
+  findMissingFiles,
+  type PathMention,
+} from "./fileReferences.js";
+
+// Citation verification
+export {
+  verifyCitations,
+  describeUnverifiedCitations,
+  type VerifyCitationsOptions,
+} from "./citationVerifier.js";
+
 // Ignore patterns
 export {
   HARD_CODED_IGNORES,
@@ -44,24 +144,80 @@ export {
   type DirectoryEnumerationEntry,
 } from "./ignorePatterns.js";
 
+// State storage
+export {
+  createMemoryStore,
+  createDiskStore,
+  defineStateStore,
+  resetStateStores,
+  type StateStore,
+  type StoredEntry,
+  type StateStoreOptions,
+  type DiskStoreOptions,
+} from "./stateStore.js";
+
+// Answer memoization
+export {
+  normalizePrompt,
+  hashReferencedFiles,
+  buildAnswerCacheKey,
+  getCachedAnswer,
+  cacheAnswer,
+  clearExpiredAnswers,
+  clearAnswerCache,
+  type AnswerCacheQuery,
+} from "./answerCache.js";
+
 // Response caching
 export {
   generateCacheKey,
   cacheResponse,
   getResponse,
+  peekResponse,
   getChunk,
   hasValidCache,
   getCacheMetadata,
+  listCachedResponses,
   deleteCache,
   clearExpired,
   clearAll,
   getCacheStats,
+  isEvicted,
 } from "./responseCache.js";
 
+// Cached response search
+export {
+  compileSearchPattern,
+  searchCacheEntry,
+  searchChunks,
+  type CacheSearchOptions,
+  type CacheSearchResult,
+} from "./cacheSearch.js";
+
 // Response chunking
 export {
   chunkResponse,
   needsChunking,
   estimateChunkCount,
   getChunkSizeKB,
+  getChunkMaxTokens,
+  estimateTokens,
+  buildTableOfContents,
+  findSectionRange,
 } from "./responseChunker.js";
+
+// Async jobs
+export {
+  generateJobId,
+  startJob,
+  getJob,
+  listJobs,
+  waitForJob,
+  clearExpiredJobs,
+  clearJobs,
+  cancelJob,
+  type JobRunner,
+} from "./jobStore.js";
+
+// Argument completion
+export { completePath, completeArgumentValue, toCompletionValues } from "./completion.js";
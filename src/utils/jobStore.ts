@@ -0,0 +1,263 @@
+/**
+ * Job store for async tool executions
+ *
+ * Runs a tool in the background and keeps its progress and final response
+ * text so clients can poll instead of holding a request open. Finished jobs
+ * are kept for 1 hour (DEFAULTS.JOB_TTL_MS) and removed lazily. Each job gets
+ * an AbortSignal so cancelJob() can stop it. With the disk store, a job still
+ * running when the server that started it stopped is reported as failed; jobs
+ * of other live servers sharing the state directory are left alone.
+ */
+
+import { randomUUID } from "crypto";
+import type { Job, JobOwner, ProgressCallback } from "../types.js";
+import { DEFAULTS, ERROR_MESSAGES } from "../constants.js";
+import { CommandCancelledError, isErrorResponse, toErrorResponse } from "./errors.js";
+import { Logger } from "./logger.js";
+import { defineStateStore } from "./stateStore.js";
+
+/**
+ * Runs the tool; receives a progress callback that updates the job and a
+ * signal that is aborted when the job is cancelled
+ */
+export type JobRunner = (onProgress: ProgressCallback, signal: AbortSignal) => Promise<string>;
+
+/**
+ * Job storage selected by config
+ */
+const jobStore = defineStateStore<Job>("jobs");
+
+/**
+ * A job running in this process
+ */
+interface RunningJob {
+  job: Job;
+  /** Aborted by cancelJob() and clearJobs() */
+  controller: AbortController;
+  completion: Promise<Job>;
+}
+
+/**
+ * Jobs running in this process, with their completion promises
+ * (progress is tracked here and persisted when the job finishes)
+ */
+const running = new Map<string, RunningJob>();
+
+/**
+ * This server process, recorded on the jobs it starts
+ */
+const owner: JobOwner = { pid: process.pid, nonce: randomUUID() };
+
+/**
+ * Generate a unique job ID
+ *
+ * @returns Job ID in format "job_<random>"
+ */
+export function generateJobId(): string {
+  const random = Math.random().toString(36).substring(2, 10);
+  const timestamp = Date.now().toString(36);
+  return `job_${timestamp}${random}`;
+}
+
+/**
+ * Remove finished jobs past their expiry
+ *
+ * @returns Number of jobs removed
+ */
+export function clearExpiredJobs(): number {
+  return jobStore().clearExpired();
+}
+
+/**
+ * Start a job in the background
+ *
+ * The runner's response text becomes the job result. A thrown error is
+ * stored as an error response; either way the job never rejects. A runner
+ * that settles after its job was cancelled or cleared is ignored.
+ *
+ * @param tool - Tool being run
+ * @param run - Function performing the work
+ * @param ttlMs - How long to keep the job after it finishes (default: 1 hour)
+ * @returns The running job
+ */
+export function startJob(tool: string, run: JobRunner, ttlMs: number = DEFAULTS.JOB_TTL_MS): Job {
+  clearExpiredJobs();
+
+  const job: Job = {
+    id: generateJobId(),
+    tool,
+    status: "running",
+    createdAt: Date.now(),
+    progress: { updates: 0, outputChars: 0 },
+    owner,
+  };
+  jobStore().set(job.id, job);
+
+  const onProgress: ProgressCallback = (output, event) => {
+    job.progress.updates++;
+    if (event?.kind === "text") {
+      job.progress.outputChars += event.message.length;
+    } else if (event) {
+      job.progress.lastMessage = event.message;
+    }
+  };
+
+  const controller = new AbortController();
+
+  const finish = (result: string): Job => {
+    // Cancelled or cleared while running: the recorded outcome stands
+    if (running.get(job.id)?.job !== job) {
+      return job;
+    }
+    job.result = result;
+    job.status = isErrorResponse(result) ? "failed" : "completed";
+    job.finishedAt = Date.now();
+    job.expiresAt = job.finishedAt + ttlMs;
+    running.delete(job.id);
+    jobStore().set(job.id, job);
+    Logger.info(`Job ${job.id} (${tool}) ${job.status} in ${job.finishedAt - job.createdAt}ms`);
+    return job;
+  };
+
+  const completion = run(onProgress, controller.signal).then(finish, (error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    Logger.error(`Job ${job.id} (${tool}) crashed: ${message}`);
+    return finish(JSON.stringify(toErrorResponse(error, tool, { details: { jobId: job.id } }), null, 2));
+  });
+  running.set(job.id, { job, controller, completion });
+
+  Logger.info(`Job ${job.id} started for ${tool}`);
+  return job;
+}
+
+/**
+ * Get a job by ID
+ *
+ * @param id - Job ID
+ * @returns The job, or null if unknown or expired
+ */
+export function getJob(id: string): Job | null {
+  const active = running.get(id);
+  if (active) {
+    return active.job;
+  }
+
+  // Expired jobs are removed by the store
+  const job = jobStore().get(id);
+  if (job?.status === "running" && isOrphaned(job)) {
+    return markInterrupted(job);
+  }
+  return job;
+}
+
+/**
+ * List all unexpired jobs
+ *
+ * @returns Jobs running in this process and those kept in the store
+ */
+export function listJobs(): Job[] {
+  const jobs = new Map<string, Job>();
+  for (const [id, job] of jobStore().entries()) {
+    jobs.set(id, job.status === "running" && !running.has(id) && isOrphaned(job) ? markInterrupted(job) : job);
+  }
+  for (const { job } of running.values()) {
+    jobs.set(job.id, job);
+  }
+  return [...jobs.values()];
+}
+
+/**
+ * Whether a stored running job (not running here) has no live server behind it
+ *
+ * True when it predates owner tracking, when this process started it (and
+ * it has since been cleared), when an earlier process with this pid started
+ * it, or when its owner process has exited.
+ */
+function isOrphaned(job: Job): boolean {
+  if (!job.owner || job.owner.nonce === owner.nonce || job.owner.pid === owner.pid) {
+    return true;
+  }
+  try {
+    process.kill(job.owner.pid, 0);
+    return false;
+  } catch (err) {
+    // EPERM: the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === "ESRCH";
+  }
+}
+
+/**
+ * Fail a job that was running in a previous server process
+ */
+function markInterrupted(job: Job): Job {
+  const now = Date.now();
+  job.status = "failed";
+  job.result = JSON.stringify(
+    toErrorResponse(new Error(ERROR_MESSAGES.JOB_INTERRUPTED), job.tool, { details: { jobId: job.id } }),
+    null,
+    2
+  );
+  job.finishedAt = now;
+  job.expiresAt = now + DEFAULTS.JOB_TTL_MS;
+  jobStore().set(job.id, job);
+
+  Logger.warn(`Job ${job.id} (${job.tool}) was interrupted by a server restart`);
+  return job;
+}
+
+/**
+ * Wait for a job to finish
+ *
+ * @param id - Job ID
+ * @returns The finished job, or null if unknown or expired
+ */
+export async function waitForJob(id: string): Promise<Job | null> {
+  return (await running.get(id)?.completion) ?? getJob(id);
+}
+
+/**
+ * Cancel a running job
+ *
+ * Aborts the job's signal (stopping its Gemini process) and records it as
+ * cancelled straight away, without waiting for the runner to wind down.
+ *
+ * @param id - Job ID
+ * @returns The job (unchanged if it had already finished), or null if unknown or expired
+ */
+export function cancelJob(id: string): Job | null {
+  const active = running.get(id);
+  if (!active) {
+    return getJob(id);
+  }
+
+  const { job, controller } = active;
+  running.delete(id);
+  controller.abort();
+
+  job.status = "cancelled";
+  job.result = JSON.stringify(
+    toErrorResponse(new CommandCancelledError(job.tool), job.tool, {
+      message: ERROR_MESSAGES.JOB_CANCELLED,
+      details: { jobId: job.id },
+    }),
+    null,
+    2
+  );
+  job.finishedAt = Date.now();
+  job.expiresAt = job.finishedAt + DEFAULTS.JOB_TTL_MS;
+  jobStore().set(job.id, job);
+
+  Logger.info(`Job ${job.id} (${job.tool}) cancelled after ${job.finishedAt - job.createdAt}ms`);
+  return job;
+}
+
+/**
+ * Remove all jobs, cancelling those still running
+ */
+export function clearJobs(): void {
+  for (const { controller } of running.values()) {
+    controller.abort();
+  }
+  running.clear();
+  jobStore().clear();
+}
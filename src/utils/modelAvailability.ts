@@ -0,0 +1,221 @@
+/**
+ * Model availability tracker (quota circuit breaker)
+ *
+ * Remembers models that recently returned quota/capacity errors so the
+ * fallback loop can skip them instead of paying for a failed attempt on
+ * every request. A model stays exhausted for the configured cooldown, or
+ * until the reset time reported by the API when one can be parsed.
+ * State is process-wide and in-memory.
+ */
+
+import { Logger } from "./logger.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Breaker state for a single exhausted model
+ */
+export interface ExhaustedModel {
+  /** Model name ("auto" for auto-select) */
+  model: string;
+  /** When the quota error was observed (epoch ms) */
+  exhaustedAt: number;
+  /** When the model may be tried again (epoch ms) */
+  availableAt: number;
+  /** Whether availableAt came from the error message or the default cooldown */
+  source: "reset_time" | "cooldown";
+  /** Truncated error message that tripped the breaker */
+  reason: string;
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+/**
+ * Exhausted models keyed by model name
+ */
+const exhaustedModels = new Map<string, ExhaustedModel>();
+
+/**
+ * Key used for the auto-select tier (no -m flag)
+ */
+const AUTO_SELECT_KEY = "auto";
+
+/**
+ * Maximum length of the stored error reason
+ */
+const MAX_REASON_LENGTH = 200;
+
+/**
+ * Normalize a model (null = auto-select) to its tracking key
+ */
+function toKey(model: string | null): string {
+  return model ?? AUTO_SELECT_KEY;
+}
+
+// ============================================================================
+// Reset Time Parsing
+// ============================================================================
+
+/**
+ * Parse a compound duration such as "2h25m13s", "23.6s" or "90s"
+ *
+ * @returns Duration in milliseconds, or null if nothing matched
+ */
+function parseDuration(text: string): number | null {
+  const match = text.match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/i);
+  if (!match || match.slice(1).every((part) => part === undefined)) {
+    return null;
+  }
+
+  const [, hours, minutes, seconds, millis] = match;
+  return (
+    (parseFloat(hours ?? "0") * 3600 +
+      parseFloat(minutes ?? "0") * 60 +
+      parseFloat(seconds ?? "0")) *
+      1000 +
+    parseFloat(millis ?? "0")
+  );
+}
+
+/**
+ * Extract a quota reset time from a Gemini error message
+ *
+ * Recognizes the formats used by the Gemini API and CLI:
+ * - "Please retry in 23.639s"
+ * - "retryDelay": "23s"
+ * - "Your quota will reset after 2h25m13s"
+ * - "Retry-After: 60"
+ *
+ * @param message - Error message (stderr or API error body)
+ * @param now - Reference time (epoch ms)
+ * @returns Epoch ms when the quota resets, or null if not found
+ */
+export function parseQuotaResetTime(message: string, now: number = Date.now()): number | null {
+  const durationPatterns = [
+    /retry in\s+([\d.hms]+)/i,
+    /"?retryDelay"?\s*[:=]\s*"?([\d.hms]+)"?/i,
+    /reset (?:after|in)\s+([\d.hms]+)/i,
+  ];
+
+  for (const pattern of durationPatterns) {
+    const match = message.match(pattern);
+    if (match) {
+      const duration = parseDuration(match[1].replace(/\.$/, ""));
+      if (duration !== null && duration > 0) {
+        return now + Math.ceil(duration);
+      }
+    }
+  }
+
+  const retryAfter = message.match(/retry-after:?\s*(\d+)/i);
+  if (retryAfter) {
+    return now + parseInt(retryAfter[1], 10) * 1000;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Breaker Operations
+// ============================================================================
+
+/**
+ * Mark a model as exhausted after a quota error
+ *
+ * @param model - Model name, or null for auto-select
+ * @param errorMessage - The quota error message (used to parse a reset time)
+ * @param cooldownMs - Cooldown applied when no reset time can be parsed
+ * @returns The recorded breaker state
+ */
+export function markModelExhausted(
+  model: string | null,
+  errorMessage: string,
+  cooldownMs: number
+): ExhaustedModel {
+  const now = Date.now();
+  const resetAt = parseQuotaResetTime(errorMessage, now);
+
+  const entry: ExhaustedModel = {
+    model: toKey(model),
+    exhaustedAt: now,
+    availableAt: resetAt ?? now + cooldownMs,
+    source: resetAt !== null ? "reset_time" : "cooldown",
+    reason: errorMessage.slice(0, MAX_REASON_LENGTH),
+  };
+
+  exhaustedModels.set(entry.model, entry);
+  Logger.warn(
+    `Model ${entry.model} marked exhausted until ${new Date(entry.availableAt).toISOString()} (${entry.source})`
+  );
+
+  return entry;
+}
+
+/**
+ * Mark a model as available again (e.g., after a successful call)
+ *
+ * @param model - Model name, or null for auto-select
+ */
+export function markModelAvailable(model: string | null): void {
+  if (exhaustedModels.delete(toKey(model))) {
+    Logger.info(`Model ${toKey(model)} is available again`);
+  }
+}
+
+/**
+ * Check whether a model may be tried
+ * Expired breaker entries are removed lazily.
+ *
+ * @param model - Model name, or null for auto-select
+ * @returns true if the model is not in cooldown
+ */
+export function isModelAvailable(model: string | null): boolean {
+  const entry = exhaustedModels.get(toKey(model));
+  if (!entry) {
+    return true;
+  }
+
+  if (Date.now() >= entry.availableAt) {
+    exhaustedModels.delete(entry.model);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Get the breaker entry for a model, if it is currently exhausted
+ *
+ * @param model - Model name, or null for auto-select
+ */
+export function getExhaustedModel(model: string | null): ExhaustedModel | null {
+  return isModelAvailable(model) ? null : (exhaustedModels.get(toKey(model)) ?? null);
+}
+
+/**
+ * Get all currently exhausted models (for diagnostics)
+ *
+ * @returns Snapshot of active breaker entries, soonest-available first
+ */
+export function getModelAvailability(): ExhaustedModel[] {
+  const now = Date.now();
+
+  for (const [key, entry] of exhaustedModels.entries()) {
+    if (now >= entry.availableAt) {
+      exhaustedModels.delete(key);
+    }
+  }
+
+  return [...exhaustedModels.values()].sort((a, b) => a.availableAt - b.availableAt);
+}
+
+/**
+ * Clear all breaker state
+ */
+export function resetModelAvailability(): void {
+  exhaustedModels.clear();
+}
@@ -0,0 +1,289 @@
+/**
+ * Progress tracking utility for in-flight tool calls
+ *
+ * Each tool call gets its own progress state (counter, output preview,
+ * keepalive timer), keyed by request ID, so overlapping calls never
+ * overwrite each other's previews or stop each other's keepalives.
+ */
+
+import { PROTOCOL } from "../constants.js";
+import type { ProgressEvent } from "../types.js";
+import { Logger } from "./logger.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Progress token supplied by the client in `_meta.progressToken`
+ */
+export type ProgressToken = string | number;
+
+/**
+ * Function that delivers a progress notification to the client
+ */
+export type ProgressNotifier = (
+  progressToken: ProgressToken,
+  progress: number,
+  total?: number,
+  message?: string
+) => Promise<void>;
+
+/**
+ * Final outcome of a tool call, reported in the last progress notification
+ */
+export type ProgressOutcome = "success" | "failure" | "cancelled";
+
+/**
+ * Options for a ProgressTracker
+ */
+export interface ProgressTrackerOptions {
+  /** Keepalive interval in milliseconds (default: PROTOCOL.KEEPALIVE_INTERVAL) */
+  keepaliveIntervalMs?: number;
+  /** Minimum gap between partial-text notifications (default: PROTOCOL.PROGRESS_THROTTLE_MS) */
+  throttleMs?: number;
+}
+
+/**
+ * Maximum characters of streamed output kept for progress previews
+ */
+const OUTPUT_PREVIEW_BUFFER = 1000;
+
+/**
+ * Characters of output included in a progress message
+ */
+const OUTPUT_PREVIEW_LENGTH = 150;
+
+/**
+ * Rotating keepalive messages for long-running operations
+ */
+function buildKeepaliveMessages(operationName: string): string[] {
+  return [
+    `${operationName} - Gemini is analyzing your request...`,
+    `${operationName} - Processing files and generating insights...`,
+    `${operationName} - Creating structured response for your review...`,
+    `${operationName} - Large analysis in progress (this is normal for big requests)...`,
+    `${operationName} - Still working... Gemini takes time for quality results...`,
+  ];
+}
+
+// ============================================================================
+// Tracked Operation
+// ============================================================================
+
+/**
+ * Progress state for a single in-flight tool call
+ */
+export class TrackedOperation {
+  readonly requestKey: string;
+  readonly operationName: string;
+  readonly progressToken?: ProgressToken;
+
+  private progress = 0;
+  private latestOutput = "";
+  private messageIndex = 0;
+  private lastSentAt = Date.now();
+  private finished = false;
+  private readonly interval: NodeJS.Timeout | null;
+  private readonly keepaliveMessages: string[];
+
+  constructor(
+    requestKey: string,
+    operationName: string,
+    progressToken: ProgressToken | undefined,
+    private readonly notify: ProgressNotifier,
+    private readonly options: Required<ProgressTrackerOptions>,
+    private readonly onFinish: (operation: TrackedOperation) => void
+  ) {
+    this.requestKey = requestKey;
+    this.operationName = operationName;
+    this.progressToken = progressToken;
+    this.keepaliveMessages = buildKeepaliveMessages(operationName);
+
+    if (progressToken === undefined) {
+      // Nothing to report - no timer needed
+      this.interval = null;
+      return;
+    }
+
+    // Send immediate acknowledgment
+    this.send(0, undefined, `Starting ${operationName}`);
+
+    // Keep client alive with periodic updates
+    this.interval = setInterval(() => this.sendKeepalive(), options.keepaliveIntervalMs);
+    this.interval.unref();
+  }
+
+  /**
+   * Current output preview (last characters of streamed output)
+   */
+  get outputPreview(): string {
+    return this.latestOutput.slice(-OUTPUT_PREVIEW_LENGTH).trim();
+  }
+
+  /**
+   * Whether the operation has finished
+   */
+  get isFinished(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Record streamed output and forward structured events to the client
+   * Tool activity and status changes are sent immediately; partial answer
+   * text is throttled so fast streams don't flood the client.
+   *
+   * @param newOutput - Raw output to append to the preview
+   * @param event - Optional structured progress event
+   */
+  report(newOutput: string, event?: ProgressEvent): void {
+    if (this.finished) return;
+
+    if (newOutput) {
+      this.latestOutput = (this.latestOutput + newOutput).slice(-OUTPUT_PREVIEW_BUFFER);
+    }
+
+    if (!event || this.progressToken === undefined) return;
+
+    if (event.kind === "text" && Date.now() - this.lastSentAt < this.options.throttleMs) {
+      return;
+    }
+
+    const message =
+      event.kind === "text"
+        ? `${this.operationName} - Output: ...${this.outputPreview}`
+        : `${this.operationName} - ${event.message}`;
+
+    this.progress += 1;
+    this.send(this.progress, undefined, message);
+  }
+
+  /**
+   * Stop the keepalive timer and send the final notification
+   *
+   * @param outcome - How the tool call ended
+   */
+  finish(outcome: ProgressOutcome = "success"): void {
+    if (this.finished) return;
+    this.finished = true;
+
+    if (this.interval) {
+      clearInterval(this.interval);
+    }
+
+    this.onFinish(this);
+
+    if (this.progressToken === undefined) return;
+
+    // Final progress must still be greater than anything sent before
+    const final = Math.max(this.progress + 1, 100);
+    const message =
+      outcome === "success"
+        ? `✅ ${this.operationName} completed successfully`
+        : outcome === "cancelled"
+          ? `🚫 ${this.operationName} cancelled`
+          : `❌ ${this.operationName} failed`;
+
+    this.send(final, final, message);
+  }
+
+  /**
+   * Send a periodic keepalive with the latest output preview
+   */
+  private sendKeepalive(): void {
+    if (this.finished) return;
+
+    this.progress += 1;
+
+    const baseMessage = this.keepaliveMessages[this.messageIndex % this.keepaliveMessages.length];
+    this.messageIndex++;
+
+    const preview = this.outputPreview;
+    const message = preview ? `${baseMessage}\nOutput: ...${preview}` : baseMessage;
+
+    this.send(this.progress, undefined, message);
+  }
+
+  /**
+   * Deliver a notification, logging (not throwing) on failure
+   */
+  private send(progress: number, total: number | undefined, message: string): void {
+    if (this.progressToken === undefined) return;
+
+    this.lastSentAt = Date.now();
+    this.notify(this.progressToken, progress, total, message).catch((error) => {
+      Logger.error(`Failed to send progress for ${this.operationName}:`, error);
+    });
+  }
+}
+
+// ============================================================================
+// Tracker
+// ============================================================================
+
+/**
+ * Registry of in-flight operations keyed by request ID
+ */
+export class ProgressTracker {
+  private readonly operations = new Map<string, TrackedOperation>();
+  private readonly options: Required<ProgressTrackerOptions>;
+
+  constructor(
+    private readonly notify: ProgressNotifier,
+    options: ProgressTrackerOptions = {}
+  ) {
+    this.options = {
+      keepaliveIntervalMs: options.keepaliveIntervalMs ?? PROTOCOL.KEEPALIVE_INTERVAL,
+      throttleMs: options.throttleMs ?? PROTOCOL.PROGRESS_THROTTLE_MS,
+    };
+  }
+
+  /**
+   * Start tracking a tool call
+   *
+   * @param requestId - JSON-RPC request ID (unique per in-flight request)
+   * @param operationName - Name shown in progress messages (usually the tool name)
+   * @param progressToken - Client progress token, if progress was requested
+   * @returns The tracked operation
+   */
+  start(
+    requestId: string | number,
+    operationName: string,
+    progressToken?: ProgressToken
+  ): TrackedOperation {
+    const requestKey = String(requestId);
+
+    // A reused request ID means the previous call is gone - don't leak its timer
+    this.operations.get(requestKey)?.finish("failure");
+
+    const operation = new TrackedOperation(
+      requestKey,
+      operationName,
+      progressToken,
+      this.notify,
+      this.options,
+      (op) => {
+        if (this.operations.get(op.requestKey) === op) {
+          this.operations.delete(op.requestKey);
+        }
+      }
+    );
+
+    this.operations.set(requestKey, operation);
+    return operation;
+  }
+
+  /**
+   * Get an in-flight operation by request ID
+   */
+  get(requestId: string | number): TrackedOperation | undefined {
+    return this.operations.get(String(requestId));
+  }
+
+  /**
+   * Number of in-flight operations
+   */
+  get activeCount(): number {
+    return this.operations.size;
+  }
+}
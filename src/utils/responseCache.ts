@@ -1,16 +1,26 @@
 /**
  * Response cache utility for chunked responses
  *
- * Implements in-memory cache with 1-hour TTL for large response chunks.
+ * Caches large response chunks with a 1-hour TTL, in memory or on disk
+ * (storage.type / BGMCP_STORAGE) so cache keys survive a server restart.
+ * The cache is bounded by entry count and total chunk bytes; the least
+ * recently used responses are evicted first. Sizes and access order are kept
+ * in an in-process index, so storing a response never re-reads the store.
  */
 
 import type { CacheEntry, CachedChunk } from "../types.js";
 import { DEFAULTS } from "../constants.js";
+import { getCacheLimits } from "./config.js";
+import { Logger } from "./logger.js";
+import { defineStateStore, type StateStore } from "./stateStore.js";
 
 /**
- * In-memory cache storage
+ * Cache storage selected by config
+ * Entries the disk store evicts for its size cap are recorded like LRU evictions.
  */
-const cache = new Map<string, CacheEntry>();
+const cacheStore = defineStateStore<CacheEntry>("cache", {
+  onEvict: (key) => recordEviction(key),
+});
 
 /**
  * Generate a unique cache key
@@ -28,22 +38,27 @@ export function generateCacheKey(): string {
  *
  * @param chunks - Array of cached chunks to store
  * @param ttlMs - Time-to-live in milliseconds (default: 1 hour)
+ * @param response - The unchunked response, served as the whole cached response
  * @returns The generated cache key
  */
 export function cacheResponse(
   chunks: CachedChunk[],
-  ttlMs: number = DEFAULTS.CACHE_TTL_MS
+  ttlMs: number = DEFAULTS.CACHE_TTL_MS,
+  response?: string
 ): string {
   const key = generateCacheKey();
   const now = Date.now();
 
   const entry: CacheEntry = {
     chunks,
+    ...(response !== undefined && { response }),
     createdAt: now,
     expiresAt: now + ttlMs,
   };
 
-  cache.set(key, entry);
+  store().set(key, entry);
+  touch(key, entry);
+  evictLeastRecentlyUsed(key);
 
   // Schedule cleanup of expired entries
   scheduleCleanup();
@@ -58,15 +73,29 @@ export function cacheResponse(
  * @returns CacheEntry if found and not expired, null otherwise
  */
 export function getResponse(key: string): CacheEntry | null {
-  const entry = cache.get(key);
+  const entry = peekResponse(key);
 
   if (!entry) {
     return null;
   }
 
-  // Check if expired
-  if (Date.now() > entry.expiresAt) {
-    cache.delete(key);
+  touch(key, entry);
+  return entry;
+}
+
+/**
+ * Retrieve a cached response without marking it as used
+ * Reads only this key, so it is cheap enough for periodic existence checks.
+ *
+ * @param key - The cache key
+ * @returns CacheEntry if found and not expired, null otherwise
+ */
+export function peekResponse(key: string): CacheEntry | null {
+  // Expired entries are removed by the store
+  const entry = store().get(key);
+
+  if (!entry) {
+    index.delete(key);
     return null;
   }
 
@@ -127,6 +156,27 @@ export function getCacheMetadata(
   };
 }
 
+/**
+ * List cached responses without marking them as used
+ *
+ * @returns Key and metadata of every unexpired entry
+ */
+export function listCachedResponses(): Array<{
+  key: string;
+  totalChunks: number;
+  expiresAt: Date;
+  createdAt: Date;
+}> {
+  return store()
+    .entries()
+    .map(([key, entry]) => ({
+      key,
+      totalChunks: entry.chunks.length,
+      expiresAt: new Date(entry.expiresAt),
+      createdAt: new Date(entry.createdAt),
+    }));
+}
+
 /**
  * Delete a cache entry
  *
@@ -134,7 +184,8 @@ export function getCacheMetadata(
  * @returns true if entry was deleted
  */
 export function deleteCache(key: string): boolean {
-  return cache.delete(key);
+  index.delete(key);
+  return store().delete(key);
 }
 
 /**
@@ -144,23 +195,28 @@ export function deleteCache(key: string): boolean {
  */
 export function clearExpired(): number {
   const now = Date.now();
-  let removed = 0;
-
-  for (const [key, entry] of cache.entries()) {
-    if (now > entry.expiresAt) {
-      cache.delete(key);
-      removed++;
+  for (const [key, expiresAt] of evictedKeys.entries()) {
+    if (now > expiresAt) {
+      evictedKeys.delete(key);
+    }
+  }
+  for (const [key, indexed] of index.entries()) {
+    if (now > indexed.expiresAt) {
+      index.delete(key);
     }
   }
 
-  return removed;
+  return store().clearExpired();
 }
 
 /**
  * Clear the entire cache
  */
 export function clearAll(): void {
-  cache.clear();
+  store().clear();
+  index.clear();
+  evictedKeys.clear();
+  evictionCount = 0;
 }
 
 /**
@@ -170,28 +226,181 @@ export function clearAll(): void {
  */
 export function getCacheStats(): {
   size: number;
+  totalBytes: number;
+  evictions: number;
   oldestEntry: Date | null;
   newestEntry: Date | null;
 } {
   let oldest: number | null = null;
   let newest: number | null = null;
+  let totalBytes = 0;
+  const entries = store().entries();
 
-  for (const entry of cache.values()) {
+  for (const [, entry] of entries) {
     if (oldest === null || entry.createdAt < oldest) {
       oldest = entry.createdAt;
     }
     if (newest === null || entry.createdAt > newest) {
       newest = entry.createdAt;
     }
+    totalBytes += entryBytes(entry);
   }
 
   return {
-    size: cache.size,
+    size: entries.length,
+    totalBytes,
+    evictions: evictionCount,
     oldestEntry: oldest ? new Date(oldest) : null,
     newestEntry: newest ? new Date(newest) : null,
   };
 }
 
+// ============================================================================
+// LRU eviction
+// ============================================================================
+
+/**
+ * Size, expiry and access order of a cached response
+ */
+interface IndexedEntry {
+  bytes: number;
+  expiresAt: number;
+  /** Higher = more recently used; 0 for entries left by a previous run */
+  lastAccess: number;
+}
+
+/**
+ * Every response in the current store, in insertion order
+ */
+const index = new Map<string, IndexedEntry>();
+let indexedStore: StateStore<CacheEntry> | null = null;
+let accessCounter = 0;
+
+/**
+ * Evicted keys with the time their entry would have expired, so a lookup can
+ * tell eviction from expiry
+ */
+const evictedKeys = new Map<string, number>();
+let evictionCount = 0;
+
+/**
+ * The cache store, with the index rebuilt whenever the store instance changes
+ * A disk store may hold entries from a previous run; they are read once here
+ * and treated as least recently used, oldest first.
+ */
+function store(): StateStore<CacheEntry> {
+  const current = cacheStore();
+  if (current !== indexedStore) {
+    indexedStore = current;
+    index.clear();
+    const entries = current.entries().sort(([, a], [, b]) => a.createdAt - b.createdAt);
+    for (const [key, entry] of entries) {
+      index.set(key, { bytes: entryBytes(entry), expiresAt: entry.expiresAt, lastAccess: 0 });
+    }
+  }
+  return current;
+}
+
+/**
+ * Mark a key as most recently used
+ */
+function touch(key: string, entry: CacheEntry): void {
+  const indexed = index.get(key);
+  if (indexed) {
+    indexed.lastAccess = ++accessCounter;
+  } else {
+    index.set(key, { bytes: entryBytes(entry), expiresAt: entry.expiresAt, lastAccess: ++accessCounter });
+  }
+}
+
+/**
+ * Size of an entry's chunk content and original response in UTF-8 bytes
+ */
+function entryBytes(entry: CacheEntry): number {
+  return entry.chunks.reduce(
+    (sum, chunk) => sum + Buffer.byteLength(chunk.content, "utf-8"),
+    entry.response === undefined ? 0 : Buffer.byteLength(entry.response, "utf-8")
+  );
+}
+
+/**
+ * Record that an entry was evicted, by this module or by the store itself
+ *
+ * @param key - The evicted cache key
+ */
+function recordEviction(key: string): void {
+  const indexed = index.get(key);
+  if (!indexed) {
+    return;
+  }
+
+  index.delete(key);
+  evictedKeys.set(key, indexed.expiresAt);
+  evictionCount++;
+  Logger.debug(`Response cache: Evicted ${key} (${indexed.bytes} bytes)`);
+}
+
+/**
+ * Evict least recently used entries until the cache is within its limits
+ *
+ * @param keep - Key that is never evicted (the entry just stored)
+ */
+function evictLeastRecentlyUsed(keep: string): void {
+  const { maxEntries, maxBytes } = getCacheLimits();
+  const now = Date.now();
+
+  // Expired entries don't count against the limits
+  let count = 0;
+  let bytes = 0;
+  for (const [key, indexed] of index.entries()) {
+    if (now > indexed.expiresAt) {
+      index.delete(key);
+    } else {
+      count++;
+      bytes += indexed.bytes;
+    }
+  }
+  if (count <= maxEntries && bytes <= maxBytes) {
+    return;
+  }
+
+  // Stable sort: ties keep insertion order
+  const candidates = [...index.entries()].sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+  for (const [key, indexed] of candidates) {
+    if (count <= maxEntries && bytes <= maxBytes) {
+      break;
+    }
+    if (key === keep) {
+      continue;
+    }
+
+    store().delete(key);
+    recordEviction(key);
+    count--;
+    bytes -= indexed.bytes;
+  }
+}
+
+/**
+ * Check whether a cache key was evicted (rather than expired or never issued)
+ *
+ * @param key - The cache key
+ * @returns true if the entry was evicted before its TTL ran out
+ */
+export function isEvicted(key: string): boolean {
+  const expiresAt = evictedKeys.get(key);
+  if (expiresAt === undefined) {
+    return false;
+  }
+
+  if (Date.now() > expiresAt) {
+    evictedKeys.delete(key);
+    return false;
+  }
+
+  return true;
+}
+
 // ============================================================================
 // Cleanup scheduling
 // ============================================================================
@@ -214,7 +423,7 @@ function scheduleCleanup(): void {
     clearExpired();
 
     // Stop cleanup if cache is empty
-    if (cache.size === 0) {
+    if (index.size === 0) {
       clearInterval(timer);
       cleanupScheduled = false;
     }
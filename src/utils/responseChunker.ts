@@ -1,115 +1,547 @@
 /**
  * Response chunker utility for splitting large responses
  *
- * Implements chunking with configurable size (default: 10KB per chunk).
+ * Implements chunking with configurable size (default: 10KB per chunk),
+ * measured in UTF-8 bytes, with an optional estimated-token budget. Splits
+ * fall on code-point boundaries and are markdown-aware: section boundaries
+ * are preferred, fenced code blocks and tables are kept whole when they fit,
+ * and a fence or table that must be split is reopened in the next chunk.
+ * Continuation chunks start with a breadcrumb of the headings they fall under.
  */
 
-import type { CachedChunk } from "../types.js";
+import type { CachedChunk, TocEntry } from "../types.js";
 import { DEFAULTS } from "../constants.js";
+import { loadConfig, type ServerConfig } from "./config.js";
+
+// ============================================================================
+// Markdown Structure
+// ============================================================================
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Start of the breadcrumb line on continuation chunks
+ */
+const BREADCRUMB_PREFIX = "_Continued from: ";
+
+/**
+ * A heading in effect at some point of the response
+ */
+interface Heading {
+  level: number;
+  text: string;
+}
+
+/**
+ * A line of the response with the markdown context it appears in
+ */
+interface LineInfo {
+  /** Line text including its trailing newline (if any) */
+  text: string;
+  /**
+   * How good a chunk boundary the start of this line is
+   * (0 = inside a fence or table; higher = section boundary)
+   */
+  priority: number;
+  /** Headings open before this line */
+  headings: Heading[];
+  /** Opening line of the fence this line is inside of */
+  fence?: string;
+  /** Header and delimiter rows of the table this line is a body row of */
+  tableHeader?: string;
+}
+
+/**
+ * A possible chunk end: the chunk would stop before line `end`
+ */
+interface Boundary {
+  end: number;
+  /** Share of the chunk budget used up to the boundary (0-1) */
+  fill: number;
+  priority: number;
+}
+
+/**
+ * Boundary priorities (headings rank above these: h1 = 9 ... h6 = 4)
+ */
+const PRIORITY = {
+  PARAGRAPH: 3,
+  LIST_ITEM: 2,
+  LINE: 1,
+  NONE: 0,
+} as const;
+
+/**
+ * Split a response into lines annotated with their markdown context
+ */
+function analyzeLines(response: string): LineInfo[] {
+  const texts = response.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  const lines: LineInfo[] = [];
+  let headings: Heading[] = [];
+  let fence: { opener: string; char: string; length: number } | null = null;
+  let tableHeader: string | null = null;
+
+  for (let i = 0; i < texts.length; i++) {
+    const text = texts[i];
+    const line = text.replace(/\r?\n$/, "");
+    const info: LineInfo = { text, priority: PRIORITY.LINE, headings };
+
+    if (fence) {
+      info.fence = fence.opener;
+      info.priority = PRIORITY.NONE;
+      const close = line.match(FENCE_PATTERN);
+      if (close && close[1][0] === fence.char && close[1].length >= fence.length && close[2].trim() === "") {
+        fence = null;
+      }
+      lines.push(info);
+      continue;
+    }
+
+    if (tableHeader !== null) {
+      if (line.includes("|") && line.trim() !== "") {
+        info.tableHeader = tableHeader;
+        info.priority = PRIORITY.NONE;
+        lines.push(info);
+        continue;
+      }
+      tableHeader = null;
+    }
+
+    const previous = i > 0 ? texts[i - 1].trim() : null;
+    const open = line.match(FENCE_PATTERN);
+    const heading = line.match(HEADING_PATTERN);
+    const next = texts[i + 1]?.replace(/\r?\n$/, "");
+
+    if (open) {
+      fence = { opener: text.endsWith("\n") ? text : `${text}\n`, char: open[1][0], length: open[1].length };
+    } else if (heading) {
+      const level = heading[1].length;
+      info.priority = 10 - level;
+      headings = [...headings.filter((h) => h.level < level), { level, text: heading[2] }];
+    } else if (line.includes("|") && next !== undefined && next.includes("-") && TABLE_DELIMITER_PATTERN.test(next)) {
+      // Header row; the delimiter row below it is part of the header
+      tableHeader = text + texts[i + 1];
+      lines.push(info);
+      lines.push({ text: texts[i + 1], priority: PRIORITY.NONE, headings });
+      i++;
+      continue;
+    } else if (LIST_ITEM_PATTERN.test(line)) {
+      info.priority = PRIORITY.LIST_ITEM;
+    }
+
+    if (previous === "" && line.trim() !== "") {
+      info.priority = Math.max(info.priority, PRIORITY.PARAGRAPH);
+    }
+
+    lines.push(info);
+  }
+
+  return lines;
+}
+
+/**
+ * Text that restores the context at the start of a continuation chunk:
+ * a heading breadcrumb, then the reopened fence or repeated table header
+ */
+function continuationPrefix(line: LineInfo): string {
+  const heading = line.text.match(HEADING_PATTERN);
+  const level = heading && !line.fence ? heading[1].length : 7;
+  const trail = line.headings.filter((h) => h.level < level).map((h) => h.text);
+
+  let prefix = trail.length > 0 ? `${BREADCRUMB_PREFIX}${trail.join(" › ")}_\n\n` : "";
+  if (line.fence) {
+    prefix += line.fence;
+  } else if (line.tableHeader) {
+    prefix += line.tableHeader;
+  }
+  return prefix;
+}
+
+/**
+ * Text that closes the fence left open when a chunk ends before this line
+ */
+function closingSuffix(line: LineInfo | undefined, body: string): string {
+  if (!line?.fence) {
+    return "";
+  }
+  const marker = line.fence.match(FENCE_PATTERN)?.[1] ?? "```";
+  return `${body.endsWith("\n") ? "" : "\n"}${marker}\n`;
+}
+
+// ============================================================================
+// Size Measurement
+// ============================================================================
+
+/**
+ * Size of a piece of text in both budget units
+ */
+interface TextSize {
+  bytes: number;
+  tokens: number;
+}
+
+/**
+ * Limits for one chunk
+ */
+interface ChunkBudget {
+  maxBytes: number;
+  maxTokens?: number;
+}
+
+/**
+ * Estimate the tokens a text takes up for a language model
+ *
+ * Deliberately conservative: about 4 ASCII characters per token, and one
+ * token per other code point (CJK, emoji, box drawing).
+ *
+ * @param text - Text to measure
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 0x80) {
+      ascii++;
+    } else {
+      other++;
+    }
+  }
+  return Math.ceil(ascii / 4) + other;
+}
+
+/**
+ * Measure a text in UTF-8 bytes and estimated tokens
+ */
+function measure(text: string): TextSize {
+  return { bytes: Buffer.byteLength(text, "utf-8"), tokens: estimateTokens(text) };
+}
+
+/**
+ * Add two sizes
+ */
+function addSize(a: TextSize, b: TextSize): TextSize {
+  return { bytes: a.bytes + b.bytes, tokens: a.tokens + b.tokens };
+}
+
+/**
+ * Share of the budget a size uses (above 1 = does not fit)
+ */
+function fillOf(size: TextSize, budget: ChunkBudget): number {
+  const byteFill = size.bytes / budget.maxBytes;
+  return budget.maxTokens ? Math.max(byteFill, size.tokens / budget.maxTokens) : byteFill;
+}
+
+/**
+ * Find the longest start of a line that fits the remaining budget,
+ * cutting only between code points
+ *
+ * @returns UTF-16 index to cut at (at least one code point)
+ */
+function fitLine(text: string, used: TextSize, reserve: TextSize, budget: ChunkBudget): number {
+  let index = 0;
+  let bytes = 0;
+  let ascii = 0;
+  let other = 0;
+
+  for (const char of text) {
+    const isAscii = char.charCodeAt(0) < 0x80;
+    const next: TextSize = {
+      bytes: used.bytes + reserve.bytes + bytes + Buffer.byteLength(char, "utf-8"),
+      tokens: used.tokens + reserve.tokens + Math.ceil((ascii + (isAscii ? 1 : 0)) / 4) + other + (isAscii ? 0 : 1),
+    };
+    if (index > 0 && fillOf(next, budget) > 1) {
+      break;
+    }
+    index += char.length;
+    bytes += Buffer.byteLength(char, "utf-8");
+    if (isAscii) ascii++;
+    else other++;
+  }
+
+  return index;
+}
+
+// ============================================================================
+// Chunking
+// ============================================================================
 
 /**
  * Chunk a response string into smaller pieces
  *
+ * Plain text is split losslessly (joining the chunks restores it); breadcrumbs
+ * and reopened fences or table headers are added only where markdown
+ * structure is split.
+ *
  * @param response - The full response string to chunk
- * @param chunkSizeKB - Size of each chunk in kilobytes (default: 10KB)
+ * @param chunkSizeKB - Size of each chunk in kilobytes of UTF-8 (default: 10KB)
+ * @param maxTokens - Optional limit on estimated tokens per chunk
  * @returns Array of CachedChunk objects with metadata
  */
 export function chunkResponse(
   response: string,
-  chunkSizeKB: number = DEFAULTS.RESPONSE_CHUNK_SIZE_KB
+  chunkSizeKB: number = DEFAULTS.RESPONSE_CHUNK_SIZE_KB,
+  maxTokens?: number
 ): CachedChunk[] {
-  const chunkSizeBytes = chunkSizeKB * 1024;
+  const budget: ChunkBudget = { maxBytes: chunkSizeKB * 1024, maxTokens };
 
   // If response fits in one chunk, return single chunk
-  if (response.length <= chunkSizeBytes) {
+  if (fillOf(measure(response), budget) <= 1) {
     return [
       {
         content: response,
         index: 1,
         total: 1,
+        offset: 0,
+        prefixLength: 0,
       },
     ];
   }
 
-  const chunks: CachedChunk[] = [];
+  const lines = analyzeLines(response);
+  const contents: Array<{ content: string; offset: number; prefixLength: number }> = [];
+  let start = 0;
+  let offset = 0;
 
-  // Split at natural boundaries (newlines) when possible
-  let currentPosition = 0;
-  let chunkIndex = 1;
+  while (start < lines.length) {
+    let prefix = start === 0 ? "" : continuationPrefix(lines[start]);
+    if (fillOf(measure(prefix), budget) > 0.5) {
+      // Context too large to repeat within the chunk size
+      prefix = "";
+    }
+    const used = measure(prefix);
 
-  while (currentPosition < response.length) {
-    let endPosition = currentPosition + chunkSizeBytes;
+    // Collect every line boundary that fits, with the budget used up to it
+    const candidates: Boundary[] = [];
+    let size = used;
+    let end = -1;
+    for (let j = start + 1; j <= lines.length; j++) {
+      size = addSize(size, measure(lines[j - 1].text));
+      if (j === lines.length) {
+        if (fillOf(size, budget) <= 1) end = j;
+        break;
+      }
+      if (fillOf(addSize(size, measure(closingSuffix(lines[j], ""))), budget) > 1) break;
+      candidates.push({ end: j, fill: fillOf(size, budget), priority: lines[j].priority });
+    }
 
-    // If we're not at the end, try to find a natural break point
-    if (endPosition < response.length) {
-      // Look for the last newline within the chunk size
-      const searchStart = Math.max(currentPosition, endPosition - 500); // Search within last 500 chars
-      const lastNewline = response.lastIndexOf("\n", endPosition);
+    if (end === -1) {
+      end = pickBoundary(lines, candidates, budget);
+    }
 
-      if (lastNewline > searchStart) {
-        endPosition = lastNewline + 1; // Include the newline
+    if (end === -1) {
+      // A single line longer than the chunk: cut it, keeping its context
+      const line = lines[start];
+      const cut = fitLine(line.text, used, measure(closingSuffix(line, "")), budget);
+      if (cut < line.text.length) {
+        lines.splice(
+          start,
+          1,
+          { ...line, text: line.text.slice(0, cut) },
+          { ...line, text: line.text.slice(cut), priority: PRIORITY.NONE }
+        );
       }
-    } else {
-      endPosition = response.length;
+      end = start + 1;
     }
 
-    const chunkContent = response.slice(currentPosition, endPosition);
+    const body = lines
+      .slice(start, end)
+      .map((line) => line.text)
+      .join("");
+    contents.push({ content: prefix + body + closingSuffix(lines[end], body), offset, prefixLength: prefix.length });
+    offset += body.length;
+    start = end;
+  }
 
-    chunks.push({
-      content: chunkContent,
-      index: chunkIndex,
-      total: 0, // Will be updated after all chunks are created
-    });
+  return contents.map((chunk, i) => ({ ...chunk, index: i + 1, total: contents.length }));
+}
 
-    currentPosition = endPosition;
-    chunkIndex++;
+/**
+ * Size of the block starting at a line, up to the next allowed boundary
+ * (e.g., a whole fenced code block or table)
+ */
+function blockSize(lines: LineInfo[], from: number): TextSize {
+  let size = measure(lines[from].text);
+  for (let i = from + 1; i < lines.length && lines[i].priority === PRIORITY.NONE; i++) {
+    size = addSize(size, measure(lines[i].text));
   }
+  return size;
+}
+
+/**
+ * Choose where to end a chunk
+ *
+ * Scores allowed boundaries by priority plus how full the chunk would be, so
+ * a section break is preferred but chunks are not left nearly empty. A fence
+ * or table is split only if it would not fit whole in the next chunk either.
+ *
+ * @returns Index of the first line of the next chunk, or -1 if no line boundary fits
+ */
+function pickBoundary(lines: LineInfo[], candidates: Boundary[], budget: ChunkBudget): number {
+  const allowed = candidates.filter((c) => c.priority > PRIORITY.NONE);
+
+  let best: Boundary | null = null;
+  let bestScore = -Infinity;
+  for (const candidate of allowed) {
+    if (candidate.fill < 0.25) continue;
+    const score = candidate.priority + 4 * candidate.fill;
+    if (score >= bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  if (best) {
+    return best.end;
+  }
+
+  // Only early boundaries remain: keep the following block whole if it fits a fresh chunk
+  const lastAllowed = allowed[allowed.length - 1];
+  if (lastAllowed && fillOf(blockSize(lines, lastAllowed.end), budget) <= 1) {
+    return lastAllowed.end;
+  }
+
+  // The block will be split anyway: fill this chunk
+  return candidates.length > 0 ? candidates[candidates.length - 1].end : -1;
+}
+
+// ============================================================================
+// Table of Contents
+// ============================================================================
+
+/**
+ * A heading of a chunked response, and whether it is the first content of its chunk
+ */
+interface ChunkHeading extends TocEntry {
+  startsChunk: boolean;
+}
+
+/**
+ * Collect the headings of every chunk, skipping fenced code and breadcrumbs
+ */
+function collectHeadings(chunks: CachedChunk[]): ChunkHeading[] {
+  const headings: ChunkHeading[] = [];
 
-  // Update total count for all chunks
-  const totalChunks = chunks.length;
   for (const chunk of chunks) {
-    chunk.total = totalChunks;
+    let hasContent = false;
+    for (const line of analyzeLines(chunk.content)) {
+      const text = line.text.trim();
+      if (text === "" || (!hasContent && text.startsWith(BREADCRUMB_PREFIX))) {
+        continue;
+      }
+
+      const heading = line.priority === PRIORITY.NONE ? null : line.text.match(HEADING_PATTERN);
+      if (heading) {
+        headings.push({
+          level: heading[1].length,
+          title: heading[2],
+          chunkIndex: chunk.index,
+          startsChunk: !hasContent,
+        });
+      }
+      hasContent = true;
+    }
   }
 
-  return chunks;
+  return headings;
+}
+
+/**
+ * Build a table of contents of a chunked response from its headings
+ *
+ * @param chunks - Chunks of the response
+ * @returns Headings in order, each with the chunk it appears in
+ */
+export function buildTableOfContents(chunks: CachedChunk[]): TocEntry[] {
+  return collectHeadings(chunks).map(({ level, title, chunkIndex }) => ({ level, title, chunkIndex }));
+}
+
+/**
+ * Find the chunks covering a markdown section
+ *
+ * The section is matched by heading title (case-insensitive, exact match
+ * preferred over a partial one) and runs until the next heading of the same
+ * or a higher level.
+ *
+ * @param chunks - Chunks of the response
+ * @param section - Heading title to look for
+ * @returns 1-based chunk range, or null if no heading matches
+ */
+export function findSectionRange(
+  chunks: CachedChunk[],
+  section: string
+): { fromIndex: number; toIndex: number } | null {
+  const normalize = (title: string): string => title.replace(/^#+\s*/, "").trim().toLowerCase();
+  const wanted = normalize(section);
+  if (!wanted) {
+    return null;
+  }
+
+  const headings = collectHeadings(chunks);
+  let start = headings.findIndex((h) => normalize(h.title) === wanted);
+  if (start === -1) {
+    start = headings.findIndex((h) => normalize(h.title).includes(wanted));
+  }
+  if (start === -1) {
+    return null;
+  }
+
+  const heading = headings[start];
+  const next = headings.slice(start + 1).find((h) => h.level <= heading.level);
+  let toIndex = chunks.length;
+  if (next) {
+    toIndex = next.startsChunk ? next.chunkIndex - 1 : next.chunkIndex;
+  }
+
+  return { fromIndex: heading.chunkIndex, toIndex: Math.max(toIndex, heading.chunkIndex) };
 }
 
 /**
  * Check if a response needs chunking
  *
  * @param response - The response string to check
- * @param chunkSizeKB - Chunk size threshold in KB
+ * @param chunkSizeKB - Chunk size threshold in KB of UTF-8
+ * @param maxTokens - Optional limit on estimated tokens per chunk
  * @returns true if the response exceeds the chunk size
  */
 export function needsChunking(
   response: string,
-  chunkSizeKB: number = DEFAULTS.RESPONSE_CHUNK_SIZE_KB
+  chunkSizeKB: number = DEFAULTS.RESPONSE_CHUNK_SIZE_KB,
+  maxTokens?: number
 ): boolean {
-  const chunkSizeBytes = chunkSizeKB * 1024;
-  return response.length > chunkSizeBytes;
+  return fillOf(measure(response), { maxBytes: chunkSizeKB * 1024, maxTokens }) > 1;
 }
 
 /**
  * Get the number of chunks that would be created for a response
  *
  * @param response - The response string
- * @param chunkSizeKB - Chunk size in KB
+ * @param chunkSizeKB - Chunk size in KB of UTF-8
+ * @param maxTokens - Optional limit on estimated tokens per chunk
  * @returns Estimated number of chunks
  */
 export function estimateChunkCount(
   response: string,
-  chunkSizeKB: number = DEFAULTS.RESPONSE_CHUNK_SIZE_KB
+  chunkSizeKB: number = DEFAULTS.RESPONSE_CHUNK_SIZE_KB,
+  maxTokens?: number
 ): number {
-  const chunkSizeBytes = chunkSizeKB * 1024;
-  return Math.ceil(response.length / chunkSizeBytes);
+  return Math.ceil(fillOf(measure(response), { maxBytes: chunkSizeKB * 1024, maxTokens }));
 }
 
 /**
- * Get the chunk size configuration from environment or default
+ * Get the configured chunk size (chunking.sizeKB / BGMCP_RESPONSE_CHUNK_SIZE_KB)
+ * The legacy RESPONSE_CHUNK_SIZE_KB variable is still honoured when neither is set.
  *
+ * @param config - Loaded configuration (default: loadConfig())
  * @returns Chunk size in KB
  */
-export function getChunkSizeKB(): number {
+export function getChunkSizeKB(config: ServerConfig = loadConfig().config): number {
+  if (config.chunking?.sizeKB !== undefined) {
+    return config.chunking.sizeKB;
+  }
+
   const envValue = process.env.RESPONSE_CHUNK_SIZE_KB;
   if (envValue) {
     const parsed = parseInt(envValue, 10);
@@ -119,3 +551,14 @@ export function getChunkSizeKB(): number {
   }
   return DEFAULTS.RESPONSE_CHUNK_SIZE_KB;
 }
+
+/**
+ * Get the configured per-chunk token budget
+ * (chunking.maxTokens / BGMCP_RESPONSE_CHUNK_MAX_TOKENS)
+ *
+ * @param config - Loaded configuration (default: loadConfig())
+ * @returns Estimated tokens per chunk, or undefined if unset (bytes only)
+ */
+export function getChunkMaxTokens(config: ServerConfig = loadConfig().config): number | undefined {
+  return config.chunking?.maxTokens;
+}
@@ -0,0 +1,353 @@
+/**
+ * State store for chunk caches and async jobs
+ *
+ * Keyed storage with per-entry expiry, kept either in memory or as JSON files
+ * under the state directory so entries survive a server restart. Disk writes
+ * are atomic (temp file + rename), expired entries are removed when loaded,
+ * and the oldest entries are evicted once a disk store exceeds its size cap.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { STORAGE } from "../constants.js";
+import { getStorageConfig } from "./config.js";
+import { Logger } from "./logger.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Fields every stored entry carries
+ * Entries without expiresAt (e.g., running jobs) never expire.
+ */
+export interface StoredEntry {
+  createdAt: number;
+  expiresAt?: number;
+}
+
+/**
+ * Keyed store of entries
+ * Every read skips (and removes) expired entries.
+ */
+export interface StateStore<T extends StoredEntry> {
+  /** Store type ("memory" or "disk") */
+  readonly type: string;
+  get(key: string): T | null;
+  set(key: string, value: T): void;
+  delete(key: string): boolean;
+  /** All unexpired entries */
+  entries(): Array<[string, T]>;
+  /** Remove expired entries; returns the number removed */
+  clearExpired(): number;
+  clear(): void;
+}
+
+/**
+ * Options for a namespace's store
+ */
+export interface StateStoreOptions {
+  /** Called for every entry the store evicts on its own (disk size cap) */
+  onEvict?: (key: string) => void;
+}
+
+/**
+ * Options for the disk store
+ */
+export interface DiskStoreOptions extends StateStoreOptions {
+  /** Evict the oldest entries once the store's files exceed this size */
+  maxBytes: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Keys become file names, so only generated-key characters are accepted
+ */
+const VALID_KEY = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Check whether an entry is past its expiry
+ */
+function isExpired(entry: StoredEntry, now: number = Date.now()): boolean {
+  return entry.expiresAt !== undefined && now > entry.expiresAt;
+}
+
+/**
+ * Remove a file, ignoring files that are already gone
+ */
+function removeFile(filePath: string): boolean {
+  try {
+    fs.unlinkSync(filePath);
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return false;
+    }
+    throw err;
+  }
+}
+
+// ============================================================================
+// Memory Store
+// ============================================================================
+
+/**
+ * Create a store backed by an in-memory Map
+ */
+export function createMemoryStore<T extends StoredEntry>(): StateStore<T> {
+  const entries = new Map<string, T>();
+
+  return {
+    type: STORAGE.MEMORY,
+
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      if (isExpired(entry)) {
+        entries.delete(key);
+        return null;
+      }
+      return entry;
+    },
+
+    set(key, value) {
+      entries.set(key, value);
+    },
+
+    delete(key) {
+      return entries.delete(key);
+    },
+
+    entries() {
+      return [...entries.entries()].filter(([, entry]) => !isExpired(entry));
+    },
+
+    clearExpired() {
+      const now = Date.now();
+      let removed = 0;
+      for (const [key, entry] of entries.entries()) {
+        if (isExpired(entry, now)) {
+          entries.delete(key);
+          removed++;
+        }
+      }
+      return removed;
+    },
+
+    clear() {
+      entries.clear();
+    },
+  };
+}
+
+// ============================================================================
+// Disk Store
+// ============================================================================
+
+/**
+ * Create a store that keeps one JSON file per entry in a directory
+ *
+ * Expired entries left by a previous run are removed when the store is created.
+ *
+ * @param dir - Directory holding the entry files (created on first write)
+ * @param options - Size cap and eviction callback
+ */
+export function createDiskStore<T extends StoredEntry>(dir: string, options: DiskStoreOptions): StateStore<T> {
+  const fileFor = (key: string): string => path.join(dir, `${key}.json`);
+
+  const listKeys = (): string[] => {
+    try {
+      return fs
+        .readdirSync(dir)
+        .filter((name) => name.endsWith(".json"))
+        .map((name) => name.slice(0, -".json".length));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw err;
+    }
+  };
+
+  /**
+   * Read an entry; unreadable files are treated as missing and removed
+   */
+  const read = (key: string): T | null => {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(fileFor(key), "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw err;
+    }
+
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      Logger.warn(`State store: Removing corrupt entry ${fileFor(key)}`);
+      removeFile(fileFor(key));
+      return null;
+    }
+  };
+
+  /**
+   * Evict the oldest entries (by modification time) until the store fits its cap
+   */
+  const enforceSizeCap = (keep: string): void => {
+    const files = listKeys().map((key) => {
+      const stat = fs.statSync(fileFor(key));
+      return { key, size: stat.size, mtimeMs: stat.mtimeMs };
+    });
+
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    if (total <= options.maxBytes) {
+      return;
+    }
+
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const file of files) {
+      if (total <= options.maxBytes) {
+        break;
+      }
+      if (file.key === keep) {
+        continue;
+      }
+      removeFile(fileFor(file.key));
+      total -= file.size;
+      Logger.info(`State store: Evicted ${file.key} to stay under ${options.maxBytes} bytes`);
+      options.onEvict?.(file.key);
+    }
+  };
+
+  const store: StateStore<T> = {
+    type: STORAGE.DISK,
+
+    get(key) {
+      if (!VALID_KEY.test(key)) {
+        return null;
+      }
+      const entry = read(key);
+      if (entry && isExpired(entry)) {
+        removeFile(fileFor(key));
+        return null;
+      }
+      return entry;
+    },
+
+    set(key, value) {
+      if (!VALID_KEY.test(key)) {
+        throw new Error(`Invalid state store key: ${key}`);
+      }
+
+      fs.mkdirSync(dir, { recursive: true });
+      const tempFile = `${fileFor(key)}.${process.pid}.${Date.now().toString(36)}.tmp`;
+      try {
+        fs.writeFileSync(tempFile, JSON.stringify(value), "utf-8");
+        fs.renameSync(tempFile, fileFor(key));
+      } catch (err) {
+        removeFile(tempFile);
+        throw err;
+      }
+
+      enforceSizeCap(key);
+    },
+
+    delete(key) {
+      return VALID_KEY.test(key) && removeFile(fileFor(key));
+    },
+
+    entries() {
+      const result: Array<[string, T]> = [];
+      for (const key of listKeys()) {
+        const entry = store.get(key);
+        if (entry) {
+          result.push([key, entry]);
+        }
+      }
+      return result;
+    },
+
+    clearExpired() {
+      const now = Date.now();
+      let removed = 0;
+      for (const key of listKeys()) {
+        const entry = read(key);
+        if (entry && isExpired(entry, now) && removeFile(fileFor(key))) {
+          removed++;
+        }
+      }
+      return removed;
+    },
+
+    clear() {
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+
+  const removed = store.clearExpired();
+  if (removed > 0) {
+    Logger.debug(`State store: Removed ${removed} expired entries from ${dir}`);
+  }
+
+  return store;
+}
+
+// ============================================================================
+// Store Selection
+// ============================================================================
+
+/**
+ * Reset callbacks of every store accessor defined so far
+ */
+const accessorResets = new Set<() => void>();
+
+/**
+ * Define the store for a namespace (e.g., "cache", "jobs")
+ *
+ * The returned accessor picks the store type from config (storage.type) or
+ * BGMCP_STORAGE on first use and keeps that store afterwards, so cache and
+ * job operations never re-read the configuration. Storage changes take
+ * effect after a restart (or resetStateStores()).
+ *
+ * @param namespace - Subdirectory of the state directory used by the disk store
+ * @param options - Eviction callback, so callers can keep their own bookkeeping
+ * @returns Accessor for the namespace's store (memory by default)
+ */
+export function defineStateStore<T extends StoredEntry>(
+  namespace: string,
+  options: StateStoreOptions = {}
+): () => StateStore<T> {
+  let store: StateStore<T> | null = null;
+  accessorResets.add(() => {
+    store = null;
+  });
+
+  return () => {
+    if (!store) {
+      const { type, stateDir, maxBytes } = getStorageConfig();
+      store =
+        type === STORAGE.DISK
+          ? createDiskStore<T>(path.join(stateDir, namespace), { ...options, maxBytes })
+          : createMemoryStore<T>();
+    }
+    return store;
+  };
+}
+
+/**
+ * Forget every store instance (memory stores lose their entries; disk stores
+ * are re-read from disk, as after a server restart) and pick up storage
+ * settings again on next use
+ */
+export function resetStateStores(): void {
+  for (const reset of accessorResets) {
+    reset();
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Integration tests for MCP prompts
+ * Tests built-in prompts, project-local templates and argument validation
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+import {
+  getPromptDefinitions,
+  getPrompt,
+  loadProjectPrompts,
+  getProjectPromptsDir,
+  completePromptArgument,
+} from "../../src/prompts/index.js";
+import { FOCUS_INSTRUCTIONS, STYLE_INSTRUCTIONS } from "../../src/constants.js";
+import { InvalidArgumentError } from "../../src/utils/errors.js";
+
+describe("Prompt Integration Tests", () => {
+  const testDir = path.join(os.tmpdir(), "test-prompts-integration-" + Date.now());
+  const promptsDir = getProjectPromptsDir(testDir);
+
+  const writeTemplate = (file: string, template: unknown): void => {
+    fs.writeFileSync(path.join(promptsDir, file), JSON.stringify(template));
+  };
+
+  const textOf = (name: string, args: Record<string, string> = {}): string => {
+    const [message] = getPrompt(name, args, testDir).messages;
+    assert.strictEqual(message.role, "user");
+    assert.strictEqual(message.content.type, "text");
+    return message.content.type === "text" ? message.content.text : "";
+  };
+
+  beforeEach(() => {
+    fs.mkdirSync(promptsDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("built-in prompts", () => {
+    it("should list built-in prompts with arguments from their schemas", () => {
+      const definitions = getPromptDefinitions(testDir);
+      const review = definitions.find((d) => d.name === "security_review");
+
+      assert.deepStrictEqual(
+        definitions.map((d) => d.name),
+        ["security_review", "architecture_overview", "explain_stack_trace"]
+      );
+      assert.deepStrictEqual(
+        review?.arguments?.map((arg) => [arg.name, arg.required]),
+        [
+          ["path", true],
+          ["responseStyle", false],
+        ]
+      );
+      assert.ok(review?.arguments?.[0].description);
+    });
+
+    it("should render with focus and style instructions", () => {
+      const text = textOf("security_review", { path: "src/auth", responseStyle: "concise" });
+
+      assert.ok(text.startsWith(STYLE_INSTRUCTIONS.concise));
+      assert.ok(text.includes(FOCUS_INSTRUCTIONS.security));
+      assert.ok(text.includes("@src/auth"));
+    });
+
+    it("should fill optional arguments", () => {
+      assert.ok(textOf("architecture_overview").includes("@."));
+
+      const trace = textOf("explain_stack_trace", { stackTrace: "TypeError: x is undefined", path: "src/server.ts" });
+      assert.ok(trace.includes("TypeError: x is undefined"));
+      assert.ok(trace.includes("@src/server.ts"));
+    });
+
+    it("should apply a focus argument in place of the prompt's default focus", () => {
+      assert.ok(textOf("architecture_overview").includes(FOCUS_INSTRUCTIONS.architecture));
+
+      const text = textOf("architecture_overview", { path: "src", focus: "performance" });
+      assert.ok(text.includes(FOCUS_INSTRUCTIONS.performance));
+      assert.ok(!text.includes(FOCUS_INSTRUCTIONS.architecture));
+
+      const trace = textOf("explain_stack_trace", { stackTrace: "Timeout", focus: "performance" });
+      assert.ok(trace.startsWith(FOCUS_INSTRUCTIONS.performance));
+    });
+
+    it("should reject invalid arguments and unknown prompts", () => {
+      assert.throws(
+        () => getPrompt("security_review", { responseStyle: "verbose" }, testDir),
+        (error: unknown) => {
+          assert.ok(error instanceof InvalidArgumentError);
+          assert.deepStrictEqual(error.issues.map((issue) => issue.field).sort(), ["path", "responseStyle"]);
+          return true;
+        }
+      );
+      assert.throws(() => getPrompt("no_such_prompt", {}, testDir), /Unknown prompt/);
+    });
+  });
+
+  describe("project prompts", () => {
+    it("should load templates from the project prompt directory", () => {
+      writeTemplate("migration.json", {
+        name: "review_migration",
+        description: "Review a database migration",
+        arguments: [
+          { name: "path", description: "Migration file", required: true },
+          { name: "database", enum: ["postgres", "mysql"] },
+        ],
+        focus: "performance",
+        responseStyle: "detailed",
+        template: "Review @{{path}} for locking risks on {{ database }}.",
+      });
+
+      const definition = getPromptDefinitions(testDir).find((d) => d.name === "review_migration");
+      assert.deepStrictEqual(
+        definition?.arguments?.map((arg) => [arg.name, arg.required]),
+        [
+          ["path", true],
+          ["database", false],
+        ]
+      );
+
+      const text = textOf("review_migration", { path: "db/001.sql", database: "postgres" });
+      assert.ok(text.startsWith(STYLE_INSTRUCTIONS.detailed));
+      assert.ok(text.includes(FOCUS_INSTRUCTIONS.performance));
+      assert.ok(text.endsWith("Review @db/001.sql for locking risks on postgres."));
+
+      assert.throws(() => getPrompt("review_migration", { path: "x", database: "oracle" }, testDir), InvalidArgumentError);
+    });
+
+    it("should skip invalid templates and names taken by built-ins", () => {
+      writeTemplate("a-broken.json", { name: "Not Snake", description: "x", template: "y" });
+      writeTemplate("b-undeclared.json", { name: "uses_unknown", description: "x", template: "{{missing}}" });
+      writeTemplate("c-builtin.json", { name: "security_review", description: "x", template: "y" });
+      writeTemplate("d-valid.json", { name: "valid_prompt", description: "x", template: "y" });
+      fs.writeFileSync(path.join(promptsDir, "e-not-json.json"), "{");
+
+      assert.deepStrictEqual(
+        loadProjectPrompts(testDir, new Set(["security_review"])).map((p) => p.name),
+        ["valid_prompt"]
+      );
+    });
+
+    it("should return no project prompts when the directory is missing", () => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+      assert.deepStrictEqual(loadProjectPrompts(testDir), []);
+    });
+  });
+
+  describe("argument completion", () => {
+    it("should suggest paths and enum values for prompt arguments", () => {
+      fs.mkdirSync(path.join(testDir, "src", "auth"), { recursive: true });
+
+      assert.deepStrictEqual(completePromptArgument("security_review", "path", "src/a", testDir).values, ["src/auth/"]);
+      assert.deepStrictEqual(completePromptArgument("security_review", "responseStyle", "d", testDir).values, [
+        "detailed",
+      ]);
+      assert.deepStrictEqual(completePromptArgument("architecture_overview", "focus", "perf", testDir).values, [
+        "performance",
+      ]);
+      assert.deepStrictEqual(completePromptArgument("explain_stack_trace", "path", "src/a", testDir).values, [
+        "src/auth/",
+      ]);
+    });
+
+    it("should complete project template arguments", () => {
+      writeTemplate("migration.json", {
+        name: "review_migration",
+        description: "Review a database migration",
+        arguments: [{ name: "database", enum: ["postgres", "mysql"] }],
+        template: "Check {{database}}",
+      });
+
+      assert.deepStrictEqual(completePromptArgument("review_migration", "database", "p", testDir).values, ["postgres"]);
+      assert.strictEqual(completePromptArgument("no_such_prompt", "path", "", testDir).total, 0);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Integration tests for MCP resources
+ * Tests listing and reading cached responses and job results, and expiry notifications
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+
+import {
+  listResources,
+  listResourceTemplates,
+  readResource,
+  completeResourceArgument,
+  ResourceSubscriptions,
+} from "../../src/resources/index.js";
+import { cacheResponse, clearAll as clearCache, deleteCache } from "../../src/utils/responseCache.js";
+import { chunkResponse } from "../../src/utils/responseChunker.js";
+import { DEFAULTS } from "../../src/constants.js";
+import { clearJobs, startJob, waitForJob } from "../../src/utils/jobStore.js";
+import type { CachedChunk } from "../../src/types.js";
+
+describe("Resource Integration Tests", () => {
+  const chunks: CachedChunk[] = [
+    { content: "First part\n", index: 1, total: 2 },
+    { content: "Second part", index: 2, total: 2 },
+  ];
+
+  beforeEach(() => {
+    clearCache();
+    clearJobs();
+  });
+
+  afterEach(() => {
+    clearCache();
+    clearJobs();
+  });
+
+  describe("resources/list", () => {
+    it("should list cached responses and completed jobs", async () => {
+      const cacheKey = cacheResponse(chunks);
+      const done = startJob("deep_research", async () => JSON.stringify({ tool: "deep_research", answer: "Done" }));
+      const failed = startJob("deep_research", async () => {
+        throw new Error("boom");
+      });
+      await waitForJob(done.id);
+      await waitForJob(failed.id);
+
+      const uris = listResources().map((resource) => resource.uri);
+
+      assert.deepStrictEqual(uris, [`bgmcp://cache/${cacheKey}`, `bgmcp://job/${done.id}`]);
+    });
+
+    it("should publish a template for single chunks", () => {
+      assert.deepStrictEqual(
+        listResourceTemplates().map((template) => template.uriTemplate),
+        ["bgmcp://cache/{cacheKey}/chunk/{chunkIndex}"]
+      );
+    });
+  });
+
+  describe("resources/read", () => {
+    it("should read a whole cached response and single chunks", () => {
+      const cacheKey = cacheResponse(chunks);
+
+      const [whole] = readResource(`bgmcp://cache/${cacheKey}`);
+      assert.strictEqual(whole.text, "First part\nSecond part");
+      assert.strictEqual(whole.mimeType, "text/markdown");
+
+      const [second] = readResource(`bgmcp://cache/${cacheKey}/chunk/2`);
+      assert.strictEqual(second.text, "Second part");
+    });
+
+    it("should serve the original response rather than the joined chunks", () => {
+      const code = Array.from({ length: 80 }, (_, i) => `const value${i} = ${i};`).join("\n");
+      const original = `# Setup\n\nIntro text.\n\n\`\`\`ts\n${code}\n\`\`\`\n\nDone.`;
+      const chunked = chunkResponse(original, 1);
+      assert.ok(chunked.length > 1);
+      assert.notStrictEqual(chunked.map((chunk) => chunk.content).join(""), original);
+
+      const cacheKey = cacheResponse(chunked, DEFAULTS.CACHE_TTL_MS, original);
+      const [whole] = readResource(`bgmcp://cache/${cacheKey}`);
+
+      assert.strictEqual(whole.text, original);
+    });
+
+    it("should read a completed job result", async () => {
+      const result = JSON.stringify({ tool: "deep_research", answer: "Done" });
+      const job = startJob("deep_research", async () => result);
+      await waitForJob(job.id);
+
+      const [contents] = readResource(`bgmcp://job/${job.id}`);
+      assert.strictEqual(contents.text, result);
+      assert.strictEqual(contents.mimeType, "application/json");
+    });
+
+    it("should reject unknown, expired and out-of-range URIs", () => {
+      const cacheKey = cacheResponse(chunks);
+
+      for (const uri of [
+        "bgmcp://cache/cache_missing",
+        `bgmcp://cache/${cacheKey}/chunk/3`,
+        "bgmcp://job/job_missing",
+        "file:///etc/passwd",
+      ]) {
+        assert.throws(
+          () => readResource(uri),
+          (error: unknown) => error instanceof McpError && error.code === -32002,
+          uri
+        );
+      }
+    });
+  });
+
+  describe("subscriptions", () => {
+    it("should notify once when a subscribed entry goes away", async () => {
+      const updated: string[] = [];
+      const subscriptions = new ResourceSubscriptions(async (uri) => {
+        updated.push(uri);
+      });
+      const cacheKey = cacheResponse(chunks);
+      const uri = `bgmcp://cache/${cacheKey}/chunk/1`;
+
+      try {
+        subscriptions.subscribe(uri);
+        assert.deepStrictEqual(await subscriptions.check(), []);
+
+        deleteCache(cacheKey);
+        assert.deepStrictEqual(await subscriptions.check(), [uri]);
+        assert.deepStrictEqual(updated, [uri]);
+        assert.deepStrictEqual(subscriptions.list(), []);
+
+        await subscriptions.check();
+        assert.strictEqual(updated.length, 1);
+      } finally {
+        subscriptions.clear();
+      }
+    });
+
+    it("should refuse subscriptions to missing resources and allow unsubscribing", () => {
+      const subscriptions = new ResourceSubscriptions(async () => {});
+      const cacheKey = cacheResponse(chunks);
+
+      try {
+        assert.throws(() => subscriptions.subscribe("bgmcp://cache/cache_missing"), McpError);
+
+        subscriptions.subscribe(`bgmcp://cache/${cacheKey}`);
+        subscriptions.unsubscribe(`bgmcp://cache/${cacheKey}`);
+        assert.deepStrictEqual(subscriptions.list(), []);
+      } finally {
+        subscriptions.clear();
+      }
+    });
+  });
+
+  describe("argument completion", () => {
+    const template = "bgmcp://cache/{cacheKey}/chunk/{chunkIndex}";
+
+    it("should suggest cache keys and the chunk indexes of the chosen key", () => {
+      const cacheKey = cacheResponse(chunks);
+
+      assert.deepStrictEqual(completeResourceArgument(template, "cacheKey", "cache_").values, [cacheKey]);
+      assert.deepStrictEqual(completeResourceArgument(template, "chunkIndex", "", { cacheKey }).values, ["1", "2"]);
+      assert.deepStrictEqual(completeResourceArgument(template, "chunkIndex", "", {}).values, []);
+      assert.deepStrictEqual(completeResourceArgument("bgmcp://other/{x}", "x", "").values, []);
+    });
+  });
+});
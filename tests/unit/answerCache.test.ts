@@ -0,0 +1,154 @@
+/**
+ * Unit tests for answerCache utility
+ * Tests key construction from prompts, options and referenced file contents
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+import {
+  normalizePrompt,
+  hashReferencedFiles,
+  buildAnswerCacheKey,
+  getCachedAnswer,
+  cacheAnswer,
+  clearExpiredAnswers,
+  clearAnswerCache,
+} from "../../src/utils/answerCache.js";
+import { DEFAULTS } from "../../src/constants.js";
+
+describe("answerCache", () => {
+  const testDir = path.join(os.tmpdir(), "test-answer-cache-" + Date.now());
+
+  const keyFor = async (prompt: string, options: Record<string, string | undefined> = {}): Promise<string> => {
+    const key = await buildAnswerCacheKey({ tool: "quick_query", prompt, options }, testDir);
+    assert.ok(key);
+    return key;
+  };
+
+  beforeEach(() => {
+    fs.mkdirSync(path.join(testDir, "src", "lib"), { recursive: true });
+    fs.writeFileSync(path.join(testDir, "src", "index.ts"), "export const a = 1;");
+    fs.writeFileSync(path.join(testDir, "src", "lib", "util.ts"), "export const b = 2;");
+    clearAnswerCache();
+  });
+
+  afterEach(() => {
+    clearAnswerCache();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("normalizePrompt", () => {
+    it("should collapse whitespace and trim", () => {
+      assert.strictEqual(normalizePrompt("  Explain \n\n @src/index.ts\tplease "), "Explain @src/index.ts please");
+    });
+  });
+
+  describe("hashReferencedFiles", () => {
+    it("should hash each referenced file and directory", async () => {
+      const hashes = await hashReferencedFiles("Compare @src/index.ts with @src/lib", testDir);
+
+      assert.ok(hashes);
+      assert.deepStrictEqual(Object.keys(hashes), ["src/index.ts", "src/lib"]);
+      assert.match(hashes["src/index.ts"], /^[0-9a-f]{64}$/);
+      assert.match(hashes["src/lib"], /^[0-9a-f]{64}$/);
+    });
+
+    it("should mark missing paths", async () => {
+      const hashes = await hashReferencedFiles("Explain @src/missing.ts", testDir);
+      assert.deepStrictEqual(hashes, { "src/missing.ts": "unreadable" });
+    });
+
+    it("should return null when a directory has more files than can be hashed", async () => {
+      const bigDir = path.join(testDir, "big");
+      fs.mkdirSync(bigDir);
+      for (let i = 0; i <= DEFAULTS.MAX_FILES; i++) {
+        fs.writeFileSync(path.join(bigDir, `f${i}.txt`), String(i));
+      }
+
+      assert.strictEqual(await hashReferencedFiles("Review @big", testDir), null);
+      assert.strictEqual(
+        await buildAnswerCacheKey({ tool: "quick_query", prompt: "Review @big", options: {} }, testDir),
+        null
+      );
+    });
+  });
+
+  describe("buildAnswerCacheKey", () => {
+    it("should give the same key for prompts differing only in whitespace", async () => {
+      const key = await keyFor("Explain @src/index.ts");
+
+      assert.match(key, /^answer_[0-9a-f]{64}$/);
+      assert.strictEqual(await keyFor("  Explain   @src/index.ts\n"), key);
+    });
+
+    it("should separate tools and options", async () => {
+      const key = await keyFor("Explain @src/index.ts", { focus: "security" });
+
+      assert.notStrictEqual(await keyFor("Explain @src/index.ts", { focus: "performance" }), key);
+      assert.notStrictEqual(
+        await buildAnswerCacheKey(
+          { tool: "deep_research", prompt: "Explain @src/index.ts", options: { focus: "security" } },
+          testDir
+        ),
+        key
+      );
+      assert.strictEqual(await keyFor("Explain @src/index.ts", { focus: "security", style: undefined }), key);
+    });
+
+    it("should change when a referenced file changes", async () => {
+      const key = await keyFor("Explain @src/index.ts");
+      fs.writeFileSync(path.join(testDir, "src", "index.ts"), "export const a = 2;");
+
+      assert.notStrictEqual(await keyFor("Explain @src/index.ts"), key);
+    });
+
+    it("should change when a file inside a referenced directory changes", async () => {
+      const key = await keyFor("Review @src");
+      fs.writeFileSync(path.join(testDir, "src", "lib", "util.ts"), "export const b = 3;");
+
+      assert.notStrictEqual(await keyFor("Review @src"), key);
+    });
+
+    it("should change when a missing referenced file is created", async () => {
+      const key = await keyFor("Explain @src/new.ts");
+      fs.writeFileSync(path.join(testDir, "src", "new.ts"), "export {};");
+
+      assert.notStrictEqual(await keyFor("Explain @src/new.ts"), key);
+    });
+  });
+
+  describe("storage", () => {
+    it("should return memoized values until they expire", async () => {
+      const key = await keyFor("Explain @src/index.ts");
+      assert.strictEqual(getCachedAnswer(key), null);
+
+      cacheAnswer(key, { answer: "cached" });
+      assert.deepStrictEqual(getCachedAnswer(key), { answer: "cached" });
+
+      cacheAnswer(key, { answer: "stale" }, -1);
+      assert.strictEqual(getCachedAnswer(key), null);
+    });
+
+    it("should sweep expired entries that are never requested again", () => {
+      cacheAnswer("answer_expired", { answer: "old" }, -1);
+      cacheAnswer("answer_live", { answer: "new" });
+
+      assert.strictEqual(clearExpiredAnswers(), 1);
+      assert.deepStrictEqual(getCachedAnswer("answer_live"), { answer: "new" });
+    });
+
+    it("should evict the oldest entries beyond the entry cap", () => {
+      for (let i = 0; i <= DEFAULTS.ANSWER_CACHE_MAX_ENTRIES; i++) {
+        cacheAnswer(`answer_${i}`, i);
+      }
+
+      assert.strictEqual(getCachedAnswer("answer_0"), null);
+      assert.strictEqual(getCachedAnswer("answer_1"), 1);
+      assert.strictEqual(getCachedAnswer(`answer_${DEFAULTS.ANSWER_CACHE_MAX_ENTRIES}`), DEFAULTS.ANSWER_CACHE_MAX_ENTRIES);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Unit tests for the Gemini REST API backend
+ * Runs against a local mock server via BGMCP_API_BASE_URL
+ */
+
+import { describe, it, before, after, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import * as os from "os";
+import type { AddressInfo } from "net";
+
+import { apiBackend, expandAtPaths } from "../../src/backends/index.js";
+import type { BackendRequest } from "../../src/backends/index.js";
+import { executeGeminiCLI } from "../../src/utils/geminiExecutor.js";
+import { CommandCancelledError } from "../../src/utils/commandExecutor.js";
+import { PathNotAllowedError } from "../../src/utils/errors.js";
+import { getExhaustedModel, resetModelAvailability } from "../../src/utils/modelAvailability.js";
+
+const ENV_KEYS = ["PROJECT_ROOT", "XDG_CONFIG_HOME", "GEMINI_API_KEY", "BGMCP_BACKEND", "BGMCP_API_BASE_URL"];
+
+interface ReceivedRequest {
+  url: string;
+  apiKey: string | undefined;
+  body: {
+    systemInstruction: { parts: Array<{ text: string }> };
+    contents: Array<{ parts: Array<{ text: string }> }>;
+  };
+}
+
+type MockReply = { status: number; body: unknown; headers?: Record<string, string>; delayMs?: number };
+
+/**
+ * Successful generateContent response
+ */
+function success(text: string, totalTokenCount = 30): MockReply {
+  return {
+    status: 200,
+    body: {
+      candidates: [{ content: { parts: [{ text }] }, finishReason: "STOP" }],
+      usageMetadata: { promptTokenCount: 20, candidatesTokenCount: 10, totalTokenCount },
+      modelVersion: "gemini-2.5-flash-001",
+    },
+  };
+}
+
+describe("apiBackend", () => {
+  const testDir = path.join(os.tmpdir(), "test-api-backend-" + Date.now());
+  const savedEnv: Record<string, string | undefined> = {};
+  const received: ReceivedRequest[] = [];
+  let replies: Array<(req: ReceivedRequest) => MockReply | null> = [];
+  let server: http.Server;
+  let baseUrl: string;
+
+  const request = (overrides: Partial<BackendRequest> = {}): BackendRequest => ({
+    prompt: "Explain @src/auth.ts",
+    systemPrompt: "You are a research assistant",
+    model: "gemini-2.5-pro",
+    toolName: "quick_query",
+    ...overrides,
+  });
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const entry: ReceivedRequest = {
+          url: req.url ?? "",
+          apiKey: req.headers["x-goog-api-key"] as string | undefined,
+          body: JSON.parse(raw),
+        };
+        received.push(entry);
+
+        const reply = replies.map((r) => r(entry)).find((r) => r !== null) ?? success("default");
+        setTimeout(() => {
+          res.writeHead(reply.status, { "Content-Type": "application/json", ...reply.headers });
+          res.end(JSON.stringify(reply.body));
+        }, reply.delayMs ?? 0);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1beta`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+    fs.mkdirSync(path.join(testDir, "src"), { recursive: true });
+    fs.writeFileSync(path.join(testDir, "src", "auth.ts"), "export const login = () => true;");
+    fs.writeFileSync(path.join(testDir, "src", "db.ts"), "export const query = () => [];");
+
+    process.env.PROJECT_ROOT = testDir;
+    process.env.XDG_CONFIG_HOME = testDir;
+    process.env.GEMINI_API_KEY = "test-key";
+    process.env.BGMCP_API_BASE_URL = baseUrl;
+
+    received.length = 0;
+    replies = [];
+    resetModelAvailability();
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] !== undefined) {
+        process.env[key] = savedEnv[key];
+      } else {
+        delete process.env[key];
+      }
+    }
+    resetModelAvailability();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("expandAtPaths", () => {
+    it("should inline referenced files", async () => {
+      const expanded = await expandAtPaths("Explain @src/auth.ts", testDir);
+
+      assert.deepStrictEqual(expanded.files, ["src/auth.ts"]);
+      assert.ok(expanded.text.startsWith("Explain @src/auth.ts"));
+      assert.ok(expanded.text.includes("--- src/auth.ts ---\nexport const login"));
+    });
+
+    it("should expand directories and skip missing paths", async () => {
+      const expanded = await expandAtPaths("Compare @src and @src/missing.ts", testDir);
+
+      assert.deepStrictEqual(expanded.files.sort(), ["src/auth.ts", "src/db.ts"]);
+      assert.deepStrictEqual(expanded.skipped, ["src/missing.ts (does not exist)"]);
+    });
+
+    it("should reject paths outside the project root", async () => {
+      await assert.rejects(expandAtPaths("Read @../../etc/passwd", testDir), PathNotAllowedError);
+    });
+
+    it("should leave prompts without references unchanged", async () => {
+      const expanded = await expandAtPaths("What is 2+2?", testDir);
+      assert.strictEqual(expanded.text, "What is 2+2?");
+    });
+  });
+
+  describe("execute", () => {
+    it("should call generateContent with the key, system instruction and file contents", async () => {
+      replies.push(() => success("Login always succeeds.", 42));
+
+      const result = await apiBackend.execute(request());
+
+      assert.strictEqual(result.text, "Login always succeeds.");
+      assert.strictEqual(result.tokensUsed, 42);
+      assert.strictEqual(result.model, "gemini-2.5-flash-001");
+      assert.deepStrictEqual(result.filesAccessed, ["src/auth.ts"]);
+
+      const [sent] = received;
+      assert.strictEqual(sent.url, "/v1beta/models/gemini-2.5-pro:generateContent");
+      assert.strictEqual(sent.apiKey, "test-key");
+      assert.strictEqual(sent.body.systemInstruction.parts[0].text, "You are a research assistant");
+      assert.ok(sent.body.contents[0].parts[0].text.includes("export const login"));
+    });
+
+    it("should use a concrete model for the auto-select tier", async () => {
+      await apiBackend.execute(request({ model: null }));
+      assert.strictEqual(received[0].url, "/v1beta/models/gemini-2.5-flash:generateContent");
+    });
+
+    it("should fail without GEMINI_API_KEY", async () => {
+      delete process.env.GEMINI_API_KEY;
+      await assert.rejects(apiBackend.execute(request()), /GEMINI_API_KEY is not set/);
+      assert.strictEqual(received.length, 0);
+    });
+
+    it("should report 429 as a quota error with the retry delay", async () => {
+      replies.push(() => ({
+        status: 429,
+        body: {
+          error: {
+            code: 429,
+            message: "You exceeded your current quota",
+            status: "RESOURCE_EXHAUSTED",
+            details: [{ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "23s" }],
+          },
+        },
+      }));
+
+      await assert.rejects(
+        apiBackend.execute(request()),
+        /429 RESOURCE_EXHAUSTED: You exceeded your current quota \(retryDelay: 23s\)/
+      );
+    });
+
+    it("should report 403 as an authentication error", async () => {
+      replies.push(() => ({
+        status: 403,
+        body: { error: { code: 403, message: "API key not valid", status: "PERMISSION_DENIED" } },
+      }));
+
+      await assert.rejects(apiBackend.execute(request()), /authentication failed \(403 PERMISSION_DENIED\)/);
+    });
+
+    it("should reject with CommandCancelledError when aborted", async () => {
+      replies.push(() => ({ ...success("too late"), delayMs: 5000 }));
+      const controller = new AbortController();
+
+      const pending = apiBackend.execute(request({ signal: controller.signal }));
+      setTimeout(() => controller.abort(), 20);
+
+      await assert.rejects(pending, CommandCancelledError);
+    });
+  });
+
+  describe("with executeGeminiCLI", () => {
+    it("should fall back to the next model on 429 and trip the breaker", async () => {
+      process.env.BGMCP_BACKEND = "api";
+      replies.push((req) =>
+        req.url.includes("gemini-3-flash-preview")
+          ? { status: 429, body: { error: { code: 429, message: "Quota exceeded", status: "RESOURCE_EXHAUSTED" } } }
+          : null
+      );
+      replies.push(() => success("Fallback answer"));
+
+      const response = await executeGeminiCLI("What does @src/db.ts do?", "quick_query");
+
+      assert.strictEqual(response.answer, "Fallback answer");
+      assert.strictEqual(response.model, "gemini-2.5-flash");
+      assert.deepStrictEqual(response.filesAccessed, ["src/db.ts"]);
+      assert.deepStrictEqual(
+        received.map((r) => r.url),
+        [
+          "/v1beta/models/gemini-3-flash-preview:generateContent",
+          "/v1beta/models/gemini-2.5-flash:generateContent",
+        ]
+      );
+      assert.ok(getExhaustedModel("gemini-3-flash-preview"));
+    });
+  });
+});
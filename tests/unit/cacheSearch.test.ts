@@ -0,0 +1,148 @@
+/**
+ * Unit tests for cacheSearch utility
+ * Tests literal and regex matching, context, match caps, the time limit and
+ * searching the original response of an entry
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+
+import { compileSearchPattern, searchCacheEntry, searchChunks } from "../../src/utils/cacheSearch.js";
+import { chunkResponse } from "../../src/utils/responseChunker.js";
+import { InvalidArgumentError } from "../../src/utils/errors.js";
+import type { CachedChunk } from "../../src/types.js";
+
+describe("cacheSearch", () => {
+  const chunks: CachedChunk[] = [
+    { content: "# Auth\nLogin lives in src/auth.ts\nTokens expire after 1h", index: 1, total: 2 },
+    { content: "# Database\nsrc/db.ts opens the pool\r\nSee src/auth.ts for sessions", index: 2, total: 2 },
+  ];
+
+  describe("compileSearchPattern", () => {
+    it("should escape literal queries", () => {
+      const pattern = compileSearchPattern("src/auth.ts", false, false);
+      assert.ok(pattern.test("see src/auth.ts"));
+      assert.strictEqual(pattern.test("see src/authXts"), false);
+    });
+
+    it("should honour caseSensitive", () => {
+      assert.ok(compileSearchPattern("login", false, false).test("Login"));
+      assert.strictEqual(compileSearchPattern("login", false, true).test("Login"), false);
+    });
+
+    it("should reject regular expressions that do not compile", () => {
+      assert.throws(
+        () => compileSearchPattern("(unclosed", true, false),
+        (error: unknown) => error instanceof InvalidArgumentError && error.issues[0].field === "query"
+      );
+    });
+  });
+
+  describe("searchChunks", () => {
+    it("should return matching lines with their chunk, line number and context", () => {
+      const { matches, totalMatches } = searchChunks(chunks, compileSearchPattern("src/auth.ts", false, false), {
+        contextLines: 1,
+      });
+
+      assert.strictEqual(totalMatches, 2);
+      assert.deepStrictEqual(matches[0], {
+        chunkIndex: 1,
+        line: 2,
+        text: "Login lives in src/auth.ts",
+        before: ["# Auth"],
+        after: ["Tokens expire after 1h"],
+      });
+      assert.deepStrictEqual(matches[1], {
+        chunkIndex: 2,
+        line: 3,
+        text: "See src/auth.ts for sessions",
+        before: ["src/db.ts opens the pool"],
+        after: [],
+      });
+    });
+
+    it("should count matches beyond maxMatches", () => {
+      const { matches, totalMatches } = searchChunks(chunks, compileSearchPattern("src/", false, false), {
+        maxMatches: 1,
+      });
+
+      assert.strictEqual(matches.length, 1);
+      assert.strictEqual(totalMatches, 3);
+    });
+
+    it("should match regular expressions", () => {
+      const { matches } = searchChunks(chunks, compileSearchPattern("^#\\s+\\w+$", true, false));
+      assert.deepStrictEqual(matches.map((match) => match.text), ["# Auth", "# Database"]);
+    });
+
+    it("should stop a catastrophically backtracking pattern at the time limit", () => {
+      const longLine: CachedChunk[] = [{ content: "a".repeat(40) + "!", index: 1, total: 1 }];
+      const started = Date.now();
+
+      assert.throws(
+        () => searchChunks(longLine, compileSearchPattern("(a+)+$", true, false), { timeoutMs: 100 }),
+        (error: unknown) => error instanceof InvalidArgumentError && /took longer than 100ms/.test(error.message)
+      );
+      assert.ok(Date.now() - started < 5000);
+    });
+  });
+
+  describe("searchCacheEntry", () => {
+    const rows = Array.from({ length: 80 }, (_, i) => `| row ${i + 1} | value ${i + 1} |`);
+    const response = ["# Results", "", "| Name | Value |", "| --- | --- |", ...rows, "", "Done."].join("\n");
+    const tableChunks = chunkResponse(response, 1);
+
+    it("should split the fixture table across chunks with repeated headers", () => {
+      assert.ok(tableChunks.length > 1);
+      assert.ok(tableChunks.slice(1).every((chunk) => chunk.content.includes("| Name | Value |")));
+    });
+
+    it("should match a split table's header once", () => {
+      const pattern = compileSearchPattern("| Name | Value |", false, false);
+      const result = searchCacheEntry({ chunks: tableChunks, response }, pattern);
+
+      assert.strictEqual(result.totalMatches, 1);
+      assert.deepStrictEqual(
+        { chunkIndex: result.matches[0].chunkIndex, line: result.matches[0].line },
+        { chunkIndex: 1, line: 3 }
+      );
+      assert.ok(searchChunks(tableChunks, pattern).totalMatches > 1);
+    });
+
+    it("should not match context the chunker injected", () => {
+      const result = searchCacheEntry(
+        { chunks: tableChunks, response },
+        compileSearchPattern("Continued from", false, false)
+      );
+      assert.strictEqual(result.totalMatches, 0);
+    });
+
+    it("should map matches in later chunks to their chunk and line", () => {
+      const result = searchCacheEntry(
+        { chunks: tableChunks, response },
+        compileSearchPattern("^\\| row \\d+ \\|", true, false),
+        { maxMatches: rows.length, contextLines: 1 }
+      );
+
+      assert.strictEqual(result.totalMatches, rows.length);
+      for (const match of result.matches) {
+        const chunk = tableChunks[match.chunkIndex - 1];
+        assert.strictEqual(chunk.content.split("\n")[match.line - 1], match.text);
+      }
+      const last = result.matches[result.matches.length - 1];
+      assert.strictEqual(last.chunkIndex, tableChunks.length);
+      assert.deepStrictEqual(last.after, [""]);
+    });
+
+    it("should fall back to the chunks for entries without the response", () => {
+      const result = searchCacheEntry({ chunks }, compileSearchPattern("src/auth.ts", false, false));
+      assert.deepStrictEqual(
+        result.matches.map((match) => [match.chunkIndex, match.line]),
+        [
+          [1, 2],
+          [2, 3],
+        ]
+      );
+    });
+  });
+});
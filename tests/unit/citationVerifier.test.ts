@@ -0,0 +1,133 @@
+/**
+ * Unit tests for citationVerifier utility
+ * Tests path and line-range verification of answer citations
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+import { verifyCitations, describeUnverifiedCitations } from "../../src/utils/citationVerifier.js";
+import { extractPathMentions } from "../../src/utils/fileReferences.js";
+
+describe("citationVerifier", () => {
+  const testDir = path.join(os.tmpdir(), "test-citation-verifier-" + Date.now());
+
+  before(() => {
+    fs.mkdirSync(path.join(testDir, "src"), { recursive: true });
+    // 5 lines, trailing newline
+    fs.writeFileSync(path.join(testDir, "src", "auth.ts"), "a\nb\nc\nd\ne\n");
+    // 2 lines, no trailing newline
+    fs.writeFileSync(path.join(testDir, "src", "db.ts"), "x\ny");
+  });
+
+  after(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("extractPathMentions", () => {
+    it("should parse single lines and line ranges", () => {
+      const mentions = extractPathMentions("See src/auth.ts:3 and `src/db.ts:1-2`.");
+      assert.deepStrictEqual(mentions, [
+        { path: "src/auth.ts", raw: "src/auth.ts:3", startLine: 3, endLine: 3 },
+        { path: "src/db.ts", raw: "src/db.ts:1-2", startLine: 1, endLine: 2 },
+      ]);
+    });
+  });
+
+  describe("verifyCitations", () => {
+    it("should verify existing files and line ranges", () => {
+      const citations = verifyCitations("Tokens are checked in src/auth.ts:2-5 and src/db.ts:2.", testDir);
+
+      assert.deepStrictEqual(citations, [
+        { path: "src/auth.ts", lines: { start: 2, end: 5 }, status: "verified" },
+        { path: "src/db.ts", lines: { start: 2, end: 2 }, status: "verified" },
+      ]);
+    });
+
+    it("should flag missing files", () => {
+      const [citation] = verifyCitations("Sessions live in src/session.ts.", testDir);
+      assert.strictEqual(citation.status, "unverified");
+      assert.strictEqual(citation.reason, "Path does not exist");
+    });
+
+    it("should flag lines past the end of the file", () => {
+      const [citation] = verifyCitations("See src/auth.ts:4-6", testDir);
+      assert.strictEqual(citation.status, "unverified");
+      assert.match(citation.reason ?? "", /5 lines/);
+    });
+
+    it("should flag paths outside the project root", () => {
+      const [citation] = verifyCitations("Compare with ../other/src/auth.ts", testDir);
+      assert.strictEqual(citation.status, "unverified");
+      assert.match(citation.reason ?? "", /parent directory traversal/);
+    });
+
+    it("should flag line numbers on directories and zero lines", () => {
+      fs.mkdirSync(path.join(testDir, "src", "lib.d"), { recursive: true });
+      const citations = verifyCitations("See src/lib.d:3 and src/db.ts:0", testDir);
+
+      assert.deepStrictEqual(
+        citations.map((c) => c.reason),
+        ["Line numbers cited for a directory", "Invalid line range 0-0"]
+      );
+    });
+
+    it("should not read files larger than the limit to check line numbers", () => {
+      fs.writeFileSync(path.join(testDir, "src", "bundle.js"), "x\n".repeat(100));
+      const citations = verifyCitations("See src/bundle.js:3 and src/bundle.js", testDir, { maxFileBytes: 100 });
+
+      assert.deepStrictEqual(
+        citations.map((c) => [c.status, c.reason]),
+        [
+          ["unverified", "File is larger than 100 bytes; cited lines were not checked"],
+          ["verified", undefined],
+        ]
+      );
+    });
+  });
+
+  describe("excerpts", () => {
+    it("should attach the cited lines to verified citations", () => {
+      const citations = verifyCitations("See src/auth.ts:2-3 and src/db.ts", testDir, { excerpts: true });
+
+      assert.deepStrictEqual(citations, [
+        { path: "src/auth.ts", lines: { start: 2, end: 3 }, status: "verified", excerpt: "b\nc" },
+        { path: "src/db.ts", status: "verified" },
+      ]);
+    });
+
+    it("should not attach excerpts to out-of-range citations", () => {
+      const [citation] = verifyCitations("See src/db.ts:1-3", testDir, { excerpts: true });
+      assert.strictEqual(citation.status, "unverified");
+      assert.strictEqual(citation.excerpt, undefined);
+    });
+
+    it("should truncate long excerpts", () => {
+      const byLines = verifyCitations("src/auth.ts:1-5", testDir, { excerpts: true, maxExcerptLines: 2 });
+      assert.strictEqual(byLines[0].excerpt, "a\nb");
+      assert.strictEqual(byLines[0].excerptTruncated, true);
+
+      const byChars = verifyCitations("src/auth.ts:1-5", testDir, { excerpts: true, maxExcerptChars: 3 });
+      assert.strictEqual(byChars[0].excerpt, "a\nb");
+      assert.strictEqual(byChars[0].excerptTruncated, true);
+    });
+  });
+
+  describe("describeUnverifiedCitations", () => {
+    it("should list unverified citations with their lines", () => {
+      const citations = verifyCitations("src/auth.ts:1 src/auth.ts:9 src/gone.ts src/db.ts:3-4", testDir);
+      const warning = describeUnverifiedCitations(citations);
+      assert.strictEqual(
+        warning,
+        "3 citation(s) could not be verified and may be hallucinated: src/auth.ts:9, src/gone.ts, src/db.ts:3-4"
+      );
+    });
+
+    it("should return null when everything is verified", () => {
+      assert.strictEqual(describeUnverifiedCitations(verifyCitations("src/auth.ts", testDir)), null);
+    });
+  });
+});
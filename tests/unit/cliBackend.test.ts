@@ -0,0 +1,178 @@
+/**
+ * Unit tests for the Gemini CLI backend
+ * Runs a stub `gemini` executable on PATH that reports the argv and stdin it received
+ */
+
+import { describe, it, before, after, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+import { cliBackend, parseGeminiOutput, shouldUseStdin } from "../../src/backends/cli.backend.js";
+import type { BackendRequest } from "../../src/backends/index.js";
+
+const ENV_KEYS = [
+  "PATH",
+  "PROJECT_ROOT",
+  "XDG_CONFIG_HOME",
+  "GEMINI_OUTPUT_FORMAT",
+  "BGMCP_PROMPT_TRANSPORT",
+  "BGMCP_PROMPT_ARG_MAX_BYTES",
+];
+
+/**
+ * Stub CLI: answers with a stream-json message describing its argv and stdin
+ */
+const STUB_GEMINI = `#!${process.execPath}
+let stdin = "";
+process.stdin.on("data", (chunk) => (stdin += chunk));
+process.stdin.on("end", () => {
+  const report = JSON.stringify({ args: process.argv.slice(2), stdin });
+  const events = [
+    { type: "init", model: "stub-model" },
+    { type: "message", role: "assistant", content: report, delta: true },
+    { type: "result", status: "success", stats: { total_tokens: 7, tool_calls: 0 } },
+  ];
+  for (const event of events) console.log(JSON.stringify(event));
+});
+`;
+
+interface StubReport {
+  args: string[];
+  stdin: string;
+}
+
+describe("cliBackend", { skip: process.platform === "win32" }, () => {
+  const testDir = path.join(os.tmpdir(), "test-cli-backend-" + Date.now());
+  const binDir = path.join(testDir, "bin");
+  const savedEnv: Record<string, string | undefined> = {};
+
+  const run = async (overrides: Partial<BackendRequest> = {}): Promise<StubReport> => {
+    const result = await cliBackend.execute({
+      prompt: "Explain @src/auth.ts",
+      systemPrompt: "SYSTEM",
+      model: "gemini-2.5-flash",
+      toolName: "quick_query",
+      ...overrides,
+    });
+    return JSON.parse(result.text) as StubReport;
+  };
+
+  before(() => {
+    fs.mkdirSync(binDir, { recursive: true });
+    fs.writeFileSync(path.join(binDir, "gemini"), STUB_GEMINI, { mode: 0o755 });
+  });
+
+  after(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      if (key !== "PATH") delete process.env[key];
+    }
+    process.env.PATH = `${binDir}${path.delimiter}${savedEnv.PATH ?? ""}`;
+    process.env.PROJECT_ROOT = testDir;
+    process.env.XDG_CONFIG_HOME = testDir;
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] !== undefined) {
+        process.env[key] = savedEnv[key];
+      } else {
+        delete process.env[key];
+      }
+    }
+  });
+
+  describe("shouldUseStdin", () => {
+    it("should switch to stdin above the threshold in auto mode", () => {
+      assert.strictEqual(shouldUseStdin("short", "auto", 10), false);
+      assert.strictEqual(shouldUseStdin("x".repeat(11), "auto", 10), true);
+    });
+
+    it("should measure UTF-8 bytes rather than characters", () => {
+      assert.strictEqual(shouldUseStdin("é".repeat(6), "auto", 10), true);
+    });
+
+    it("should honor forced modes", () => {
+      assert.strictEqual(shouldUseStdin("x".repeat(100), "argv", 10), false);
+      assert.strictEqual(shouldUseStdin("x", "stdin", 10), true);
+    });
+  });
+
+  describe("parseGeminiOutput", () => {
+    it("should read the answer and usage from recorded json output", () => {
+      const output = fs.readFileSync(new URL("../fixtures/gemini-cli/json-output.json", import.meta.url), "utf-8");
+      const result = parseGeminiOutput(output);
+
+      assert.ok(result.text.startsWith("The auth module validates JWTs"));
+      assert.strictEqual(result.tokensUsed, 31748);
+      assert.strictEqual(result.toolCalls, 3);
+      assert.strictEqual(result.apiLatencyMs, 10233);
+      assert.deepStrictEqual(result.toolCallsByName, { read_file: 2, glob: 1 });
+      assert.strictEqual(result.models?.["gemini-2.5-flash-lite"].tokens.thoughts, 86);
+    });
+
+    it("should read accessed files from the response without tool events", () => {
+      const output = JSON.stringify({
+        response: "The config is loaded early.\n\n## Files Referenced\n- src/config.ts\n- src/index.ts\n",
+      });
+
+      // Paths the answer only cites are not files Gemini accessed
+      assert.deepStrictEqual(parseGeminiOutput(output).filesAccessed, []);
+    });
+
+    it("should read explicit file and tool-call fields as accessed files", () => {
+      const output = JSON.stringify({
+        response: "Done",
+        filesAccessed: ["package.json"],
+        tool_calls: [{ name: "read_file", path: "src/index.ts" }],
+      });
+
+      assert.deepStrictEqual(parseGeminiOutput(output).filesAccessed, ["package.json", "src/index.ts"]);
+    });
+
+    it("should return plain text output unchanged", () => {
+      assert.deepStrictEqual(parseGeminiOutput("just text"), { text: "just text" });
+    });
+  });
+
+  describe("prompt transport", () => {
+    it("should pass small prompts with -p", async () => {
+      const report = await run();
+
+      const promptIndex = report.args.indexOf("-p");
+      assert.ok(promptIndex >= 0, "Should use -p");
+      assert.ok(report.args[promptIndex + 1].endsWith("USER REQUEST:\nExplain @src/auth.ts"));
+      assert.strictEqual(report.stdin, "");
+      assert.deepStrictEqual(report.args.slice(0, 2), ["-m", "gemini-2.5-flash"]);
+    });
+
+    it("should pipe large prompts through stdin instead of argv", async () => {
+      const bigPrompt = "Review this log:\n" + "error line\n".repeat(20000);
+      const report = await run({ prompt: bigPrompt });
+
+      assert.ok(!report.args.includes("-p"), "Prompt should not be in argv");
+      assert.ok(report.stdin.startsWith("SYSTEM\n\n---\n\nUSER REQUEST:\nReview this log:"));
+      assert.strictEqual(report.stdin.length, "SYSTEM\n\n---\n\nUSER REQUEST:\n".length + bigPrompt.length);
+    });
+
+    it("should always use stdin when configured", async () => {
+      process.env.BGMCP_PROMPT_TRANSPORT = "stdin";
+      const report = await run();
+
+      assert.ok(!report.args.includes("-p"));
+      assert.ok(report.stdin.endsWith("Explain @src/auth.ts"));
+    });
+
+    it("should respect a custom threshold", async () => {
+      process.env.BGMCP_PROMPT_ARG_MAX_BYTES = "10";
+      const report = await run();
+      assert.ok(!report.args.includes("-p"));
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for commandExecutor utility
+ * Tests stdout capture, exit code handling, stdin input, and AbortSignal cancellation
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+
+import {
+  executeCommand,
+  killActiveProcessTrees,
+  CommandCancelledError,
+} from "../../src/utils/commandExecutor.js";
+import { GeminiCliNotFoundError, GeminiError, GeminiQuotaError } from "../../src/utils/errors.js";
+
+// Use the running Node binary so tests don't depend on shell utilities
+const NODE = process.execPath;
+
+/**
+ * Check whether a process is still alive
+ */
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe("commandExecutor", () => {
+  describe("executeCommand", () => {
+    it("should resolve with trimmed stdout on success", async () => {
+      const output = await executeCommand(NODE, ["-e", "console.log('  hello  ')"]);
+      assert.strictEqual(output, "hello");
+    });
+
+    it("should reject with stderr on non-zero exit", async () => {
+      await assert.rejects(
+        executeCommand(NODE, ["-e", "console.error('boom'); process.exit(3)"]),
+        /exit code 3: boom/
+      );
+    });
+
+    it("should reject with a typed error carrying exit code and stderr", async () => {
+      await assert.rejects(
+        executeCommand(NODE, ["-e", "console.error('429 RESOURCE_EXHAUSTED, retry in 30s'); process.exit(1)"]),
+        (error: unknown) => {
+          assert.ok(error instanceof GeminiQuotaError);
+          assert.strictEqual(error.exitCode, 1);
+          assert.match(error.stderr ?? "", /RESOURCE_EXHAUSTED/);
+          assert.ok(error.retryAfter && error.retryAfter > Date.now());
+          return true;
+        }
+      );
+    });
+
+    it("should reject with GeminiCliNotFoundError when the binary is missing", async () => {
+      await assert.rejects(executeCommand("definitely-not-a-real-command-xyz", []), GeminiCliNotFoundError);
+    });
+
+    it("should reject with a generic GeminiError for unclassified failures", async () => {
+      await assert.rejects(executeCommand(NODE, ["-e", "process.exit(2)"]), (error: unknown) => {
+        assert.ok(error instanceof GeminiError);
+        assert.strictEqual(error.category, "unknown");
+        assert.strictEqual(error.exitCode, 2);
+        return true;
+      });
+    });
+
+    it("should report streamed output through onProgress", async () => {
+      const seen: string[] = [];
+      await executeCommand(NODE, ["-e", "process.stdout.write('a'); process.stdout.write('b')"], (chunk) =>
+        seen.push(chunk)
+      );
+      assert.strictEqual(seen.join(""), "ab");
+    });
+  });
+
+  describe("stdin", () => {
+    const ECHO_STDIN =
+      "let d = ''; process.stdin.on('data', (c) => (d += c)); process.stdin.on('end', () => console.log(JSON.stringify(d)))";
+
+    it("should write input to the child's stdin", async () => {
+      const input = "line one\n" + "x".repeat(200000);
+      const output = await executeCommand(NODE, ["-e", ECHO_STDIN], undefined, { input });
+      assert.strictEqual(JSON.parse(output), input);
+    });
+
+    it("should give the child an empty stdin without input", async () => {
+      const output = await executeCommand(NODE, ["-e", ECHO_STDIN]);
+      assert.strictEqual(JSON.parse(output), "");
+    });
+
+    it("should not fail when the child exits without reading stdin", async () => {
+      const output = await executeCommand(NODE, ["-e", "console.log('done')"], undefined, {
+        input: "y".repeat(1024 * 1024),
+      });
+      assert.strictEqual(output, "done");
+    });
+  });
+
+  describe("cancellation", () => {
+    it("should reject immediately when signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await assert.rejects(
+        executeCommand(NODE, ["-e", "setTimeout(() => {}, 10000)"], undefined, {
+          signal: controller.signal,
+        }),
+        CommandCancelledError
+      );
+    });
+
+    it("should kill the child process tree when aborted", async () => {
+      // Parent spawns a grandchild, prints its pid, then waits
+      const script = [
+        "const { spawn } = require('child_process');",
+        "const child = spawn(process.execPath, ['-e', 'setTimeout(() => {}, 30000)'], { stdio: 'ignore' });",
+        "console.log(child.pid);",
+        "setTimeout(() => {}, 30000);",
+      ].join("\n");
+
+      const controller = new AbortController();
+      let grandchildPid: number | null = null;
+      const started = Date.now();
+
+      await assert.rejects(
+        executeCommand(
+          NODE,
+          ["-e", script],
+          (chunk) => {
+            const pid = parseInt(chunk.trim(), 10);
+            if (!isNaN(pid)) {
+              grandchildPid = pid;
+              controller.abort();
+            }
+          },
+          { signal: controller.signal, killTree: true }
+        ),
+        CommandCancelledError
+      );
+
+      assert.ok(Date.now() - started < 10000, "Should not wait for the process to finish");
+      assert.ok(grandchildPid !== null, "Should have observed grandchild pid");
+
+      if (process.platform !== "win32") {
+        // Give the signal a moment to be delivered
+        const deadline = Date.now() + 2000;
+        while (isAlive(grandchildPid!) && Date.now() < deadline) {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+        assert.strictEqual(isAlive(grandchildPid!), false, "Grandchild should be killed");
+      }
+    });
+
+    it("should kill the child directly when killTree is not set", async () => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 100);
+
+      const started = Date.now();
+      await assert.rejects(
+        executeCommand(NODE, ["-e", "setTimeout(() => {}, 30000)"], undefined, {
+          signal: controller.signal,
+        }),
+        CommandCancelledError
+      );
+      assert.ok(Date.now() - started < 10000, "Should not wait for the process to finish");
+    });
+  });
+
+  describe("killActiveProcessTrees", () => {
+    it("should kill running process trees spawned with killTree", async () => {
+      const started = Date.now();
+      const pending = executeCommand(
+        NODE,
+        ["-e", "console.log('up'); setTimeout(() => {}, 30000)"],
+        () => killActiveProcessTrees(),
+        { killTree: true }
+      );
+
+      await assert.rejects(pending, GeminiError);
+      assert.ok(Date.now() - started < 10000, "Should not wait for the process to finish");
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for completion utility
+ * Tests path suggestions with ignore rules, enum values from Zod schemas and @path completion
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { z } from "zod";
+
+import { completePath, completeArgumentValue, toCompletionValues } from "../../src/utils/completion.js";
+
+describe("completion", () => {
+  const testDir = path.join(os.tmpdir(), "test-completion-" + Date.now());
+
+  beforeEach(() => {
+    fs.mkdirSync(path.join(testDir, "src", "utils"), { recursive: true });
+    fs.mkdirSync(path.join(testDir, "node_modules", "lodash"), { recursive: true });
+    fs.mkdirSync(path.join(testDir, "secrets"), { recursive: true });
+    fs.writeFileSync(path.join(testDir, "src", "server.ts"), "");
+    fs.writeFileSync(path.join(testDir, "src", "Setup.ts"), "");
+    fs.writeFileSync(path.join(testDir, "src", "utils", "helper.ts"), "");
+    fs.writeFileSync(path.join(testDir, "package.json"), "{}");
+    fs.writeFileSync(path.join(testDir, ".env"), "");
+    fs.writeFileSync(path.join(testDir, ".gitignore"), "secrets/\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("completePath", () => {
+    it("should suggest entries one level at a time, directories with a slash", () => {
+      assert.deepStrictEqual(completePath("src/", testDir), ["src/server.ts", "src/Setup.ts", "src/utils/"]);
+      assert.deepStrictEqual(completePath("src/ut", testDir), ["src/utils/"]);
+      assert.deepStrictEqual(completePath("./src/utils/h", testDir), ["src/utils/helper.ts"]);
+    });
+
+    it("should match case-insensitively", () => {
+      assert.deepStrictEqual(completePath("src/se", testDir), ["src/server.ts", "src/Setup.ts"]);
+    });
+
+    it("should honor .gitignore and hard-coded ignores", () => {
+      const top = completePath("", testDir);
+
+      assert.ok(top.includes("src/"));
+      assert.ok(top.includes("package.json"));
+      assert.ok(!top.includes("node_modules/"));
+      assert.ok(!top.includes("secrets/"));
+    });
+
+    it("should only suggest hidden entries once a dot is typed", () => {
+      assert.ok(!completePath("", testDir).includes(".env"));
+      assert.ok(completePath(".e", testDir).includes(".env"));
+    });
+
+    it("should not suggest outside the project root or in missing directories", () => {
+      assert.deepStrictEqual(completePath("../", testDir), []);
+      assert.deepStrictEqual(completePath("missing/x", testDir), []);
+    });
+  });
+
+  describe("completeArgumentValue", () => {
+    const focus = z.enum(["security", "architecture", "performance", "general"]).optional().default("general");
+
+    it("should suggest enum values through optional and default wrappers", () => {
+      const result = completeArgumentValue(focus, "focus", "Sec", testDir);
+
+      assert.deepStrictEqual(result, { values: ["security"], total: 1, hasMore: false });
+      assert.strictEqual(completeArgumentValue(focus, "focus", "", testDir).total, 4);
+    });
+
+    it("should suggest paths for path arguments, including arrays", () => {
+      assert.deepStrictEqual(completeArgumentValue(z.string(), "path", "src/ut", testDir).values, ["src/utils/"]);
+      assert.deepStrictEqual(completeArgumentValue(z.array(z.string()), "paths", "@pack", testDir).values, [
+        "package.json",
+      ]);
+    });
+
+    it("should complete an @path at the end of free text", () => {
+      const result = completeArgumentValue(z.string(), "prompt", "Explain @src/ser", testDir);
+
+      assert.deepStrictEqual(result.values, ["Explain @src/server.ts"]);
+      assert.strictEqual(completeArgumentValue(z.string(), "prompt", "Explain this", testDir).total, 0);
+    });
+
+    it("should return nothing for unknown arguments", () => {
+      assert.deepStrictEqual(completeArgumentValue(undefined, "focus", "", testDir), {
+        values: [],
+        total: 0,
+        hasMore: false,
+      });
+    });
+  });
+
+  describe("toCompletionValues", () => {
+    it("should cap values at 100 and report the total", () => {
+      const values = Array.from({ length: 150 }, (_, i) => `value${i}`);
+      const result = toCompletionValues(values);
+
+      assert.strictEqual(result.values.length, 100);
+      assert.strictEqual(result.total, 150);
+      assert.strictEqual(result.hasMore, true);
+    });
+  });
+});
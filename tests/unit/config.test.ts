@@ -0,0 +1,440 @@
+/**
+ * Unit tests for config utility
+ * Tests config file loading, env overrides, validation and model chain resolution
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+import {
+  loadConfig,
+  resetConfigCache,
+  resolveModelChain,
+  describeModelChains,
+  getQuotaCooldownMs,
+  getBackendName,
+  getFakeScriptPath,
+  getApiBaseUrl,
+  getPromptTransportConfig,
+  getStorageConfig,
+  getCacheLimits,
+} from "../../src/utils/config.js";
+
+const ENV_KEYS = [
+  "PROJECT_ROOT",
+  "XDG_CONFIG_HOME",
+  "BGMCP_CONFIG",
+  "BGMCP_AUTO_SELECT",
+  "BGMCP_QUICK_QUERY_MODEL",
+  "BGMCP_QUICK_QUERY_MODELS",
+  "BGMCP_QUICK_QUERY_AUTO_SELECT",
+  "BGMCP_DEEP_RESEARCH_MODELS",
+  "BGMCP_QUOTA_COOLDOWN_MS",
+  "BGMCP_BACKEND",
+  "BGMCP_FAKE_SCRIPT",
+  "BGMCP_API_BASE_URL",
+  "BGMCP_PROMPT_TRANSPORT",
+  "BGMCP_PROMPT_ARG_MAX_BYTES",
+  "BGMCP_STORAGE",
+  "BGMCP_STATE_DIR",
+  "BGMCP_STATE_MAX_BYTES",
+  "XDG_STATE_HOME",
+  "BGMCP_CACHE_MAX_ENTRIES",
+  "BGMCP_CACHE_MAX_BYTES",
+  "BGMCP_RESPONSE_CHUNK_SIZE_KB",
+  "BGMCP_RESPONSE_CHUNK_MAX_TOKENS",
+];
+
+describe("config", () => {
+  const testDir = path.join(os.tmpdir(), "test-config-" + Date.now());
+  const projectDir = path.join(testDir, "project");
+  const userConfigHome = path.join(testDir, "xdg");
+  const savedEnv: Record<string, string | undefined> = {};
+
+  const writeProjectConfig = (config: unknown): void => {
+    fs.writeFileSync(path.join(projectDir, ".better-gemini-mcp.json"), JSON.stringify(config));
+  };
+
+  const writeUserConfig = (config: unknown): void => {
+    const dir = path.join(userConfigHome, "better-gemini-mcp");
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, "config.json"), JSON.stringify(config));
+  };
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+    fs.mkdirSync(projectDir, { recursive: true });
+    fs.mkdirSync(userConfigHome, { recursive: true });
+    process.env.PROJECT_ROOT = projectDir;
+    process.env.XDG_CONFIG_HOME = userConfigHome;
+    resetConfigCache();
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] !== undefined) {
+        process.env[key] = savedEnv[key];
+      } else {
+        delete process.env[key];
+      }
+    }
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("defaults", () => {
+    it("should use the built-in 3-tier chains without config", () => {
+      assert.deepStrictEqual(resolveModelChain("quick_query"), [
+        "gemini-3-flash-preview",
+        "gemini-2.5-flash",
+        null,
+      ]);
+      assert.deepStrictEqual(resolveModelChain("deep_research"), [
+        "gemini-3-pro-preview",
+        "gemini-2.5-pro",
+        null,
+      ]);
+    });
+
+    it("should report no sources when nothing is configured", () => {
+      const loaded = loadConfig();
+      assert.deepStrictEqual(loaded.sources, []);
+      assert.deepStrictEqual(loaded.warnings, []);
+    });
+  });
+
+  describe("config files", () => {
+    it("should replace the fallback chain from the project file", () => {
+      writeProjectConfig({
+        models: { tools: { quick_query: { models: ["gemini-2.5-flash", "gemini-2.5-flash-lite"] } } },
+      });
+
+      assert.deepStrictEqual(resolveModelChain("quick_query"), [
+        "gemini-2.5-flash",
+        "gemini-2.5-flash-lite",
+        null,
+      ]);
+      // Other tools keep their defaults
+      assert.strictEqual(resolveModelChain("deep_research")[0], "gemini-3-pro-preview");
+    });
+
+    it("should put the default model first and remove duplicates", () => {
+      writeProjectConfig({
+        models: {
+          tools: {
+            deep_research: { defaultModel: "gemini-2.5-pro", models: ["gemini-2.5-pro", "gemini-2.5-flash"] },
+          },
+        },
+      });
+
+      assert.deepStrictEqual(resolveModelChain("deep_research"), [
+        "gemini-2.5-pro",
+        "gemini-2.5-flash",
+        null,
+      ]);
+    });
+
+    it("should disable auto-select globally", () => {
+      writeProjectConfig({ models: { autoSelect: false } });
+      assert.deepStrictEqual(resolveModelChain("quick_query"), [
+        "gemini-3-flash-preview",
+        "gemini-2.5-flash",
+      ]);
+    });
+
+    it("should let project config override user config", () => {
+      writeUserConfig({ models: { autoSelect: false, tools: { quick_query: { defaultModel: "user-model" } } } });
+      writeProjectConfig({ models: { tools: { quick_query: { defaultModel: "project-model" } } } });
+
+      const loaded = loadConfig();
+      assert.strictEqual(loaded.sources.length, 2);
+      assert.deepStrictEqual(resolveModelChain("quick_query", loaded.config), [
+        "project-model",
+        "gemini-2.5-flash",
+      ]);
+    });
+
+    it("should read the file named by BGMCP_CONFIG", () => {
+      const customPath = path.join(testDir, "custom.json");
+      fs.writeFileSync(customPath, JSON.stringify({ models: { autoSelect: false } }));
+      process.env.BGMCP_CONFIG = customPath;
+
+      const loaded = loadConfig();
+      assert.deepStrictEqual(loaded.sources, [customPath]);
+    });
+
+    it("should skip invalid files with a warning", () => {
+      writeProjectConfig({ models: { tools: { quick_query: { models: "not-an-array" } } } });
+
+      const loaded = loadConfig();
+      assert.deepStrictEqual(loaded.sources, []);
+      assert.strictEqual(loaded.warnings.length, 1);
+      assert.ok(loaded.warnings[0].includes("models.tools.quick_query.models"));
+    });
+
+    it("should reject unknown keys", () => {
+      writeProjectConfig({ modles: {} });
+      const loaded = loadConfig();
+      assert.strictEqual(loaded.warnings.length, 1);
+    });
+
+    it("should report malformed JSON", () => {
+      fs.writeFileSync(path.join(projectDir, ".better-gemini-mcp.json"), "{ nope");
+      const loaded = loadConfig();
+      assert.ok(loaded.warnings[0].startsWith("Invalid JSON"));
+    });
+  });
+
+  describe("memoization", () => {
+    it("should return the cached result while inputs are unchanged", () => {
+      writeProjectConfig({ modles: {} });
+      const first = loadConfig();
+      assert.strictEqual(loadConfig(), first);
+    });
+
+    it("should reload when a config file changes", () => {
+      writeProjectConfig({ models: { autoSelect: false } });
+      const first = loadConfig();
+
+      writeProjectConfig({ models: { autoSelect: true, tools: { quick_query: { defaultModel: "changed" } } } });
+      const second = loadConfig();
+      assert.notStrictEqual(second, first);
+      assert.strictEqual(resolveModelChain("quick_query", second.config)[0], "changed");
+    });
+
+    it("should reload when a config file is removed", () => {
+      writeProjectConfig({ models: { autoSelect: false } });
+      assert.strictEqual(loadConfig().sources.length, 1);
+
+      fs.rmSync(path.join(projectDir, ".better-gemini-mcp.json"));
+      assert.deepStrictEqual(loadConfig().sources, []);
+    });
+
+    it("should reload when a BGMCP_* variable changes", () => {
+      assert.strictEqual(getQuotaCooldownMs(), 300000);
+      process.env.BGMCP_QUOTA_COOLDOWN_MS = "5000";
+      assert.strictEqual(getQuotaCooldownMs(), 5000);
+    });
+  });
+
+  describe("environment overrides", () => {
+    it("should override config files", () => {
+      writeProjectConfig({ models: { tools: { quick_query: { models: ["from-file"] } } } });
+      process.env.BGMCP_QUICK_QUERY_MODELS = "env-a, env-b";
+      process.env.BGMCP_QUICK_QUERY_AUTO_SELECT = "false";
+
+      const loaded = loadConfig();
+      assert.ok(loaded.sources.includes("environment"));
+      assert.deepStrictEqual(resolveModelChain("quick_query", loaded.config), ["env-a", "env-b"]);
+    });
+
+    it("should set the per-tool default model", () => {
+      process.env.BGMCP_QUICK_QUERY_MODEL = "gemini-2.5-flash";
+      assert.deepStrictEqual(resolveModelChain("quick_query"), ["gemini-2.5-flash", null]);
+    });
+
+    it("should fall back to auto-select when the chain would be empty", () => {
+      process.env.BGMCP_DEEP_RESEARCH_MODELS = "";
+      process.env.BGMCP_AUTO_SELECT = "false";
+      assert.deepStrictEqual(resolveModelChain("deep_research"), [null]);
+    });
+
+    it("should warn about unrecognized boolean values", () => {
+      process.env.BGMCP_AUTO_SELECT = "maybe";
+      const loaded = loadConfig();
+      assert.strictEqual(loaded.warnings.length, 1);
+    });
+  });
+
+  describe("getQuotaCooldownMs", () => {
+    it("should default to 5 minutes", () => {
+      assert.strictEqual(getQuotaCooldownMs(), 300000);
+    });
+
+    it("should read the cooldown from config and env", () => {
+      writeProjectConfig({ quota: { cooldownMs: 1000 } });
+      assert.strictEqual(getQuotaCooldownMs(), 1000);
+
+      process.env.BGMCP_QUOTA_COOLDOWN_MS = "2500";
+      assert.strictEqual(getQuotaCooldownMs(), 2500);
+    });
+
+    it("should ignore invalid env values", () => {
+      process.env.BGMCP_QUOTA_COOLDOWN_MS = "-5";
+      const loaded = loadConfig();
+      assert.strictEqual(getQuotaCooldownMs(loaded.config), 300000);
+      assert.strictEqual(loaded.warnings.length, 1);
+    });
+  });
+
+  describe("backend", () => {
+    it("should default to the CLI backend", () => {
+      assert.strictEqual(getBackendName(), "cli");
+      assert.strictEqual(getFakeScriptPath(), null);
+    });
+
+    it("should let BGMCP_BACKEND override the config file", () => {
+      writeUserConfig({ backend: { type: "cli", fakeScript: "fake.json" } });
+      process.env.BGMCP_BACKEND = "FAKE";
+
+      assert.strictEqual(getBackendName(), "fake");
+      assert.strictEqual(getFakeScriptPath(), path.join(projectDir, "fake.json"));
+    });
+
+    it("should ignore backend settings from the project file", () => {
+      writeProjectConfig({
+        backend: { type: "api", baseUrl: "https://attacker.example", fakeScript: "run.json" },
+        quota: { cooldownMs: 1000 },
+      });
+
+      const loaded = loadConfig();
+      assert.strictEqual(getBackendName(loaded.config), "cli");
+      assert.strictEqual(getApiBaseUrl(loaded.config), "https://generativelanguage.googleapis.com/v1beta");
+      assert.strictEqual(getFakeScriptPath(loaded.config), null);
+      assert.strictEqual(getQuotaCooldownMs(loaded.config), 1000);
+      assert.strictEqual(loaded.warnings.length, 1);
+      assert.match(loaded.warnings[0], /Ignoring backend settings/);
+    });
+
+    it("should resolve the API base URL without a trailing slash", () => {
+      assert.strictEqual(getApiBaseUrl(), "https://generativelanguage.googleapis.com/v1beta");
+
+      process.env.BGMCP_API_BASE_URL = "http://127.0.0.1:8080/";
+      assert.strictEqual(getApiBaseUrl(), "http://127.0.0.1:8080");
+    });
+
+    it("should warn about unknown backends", () => {
+      process.env.BGMCP_BACKEND = "grpc";
+      const loaded = loadConfig();
+      assert.strictEqual(getBackendName(loaded.config), "cli");
+      assert.strictEqual(loaded.warnings.length, 1);
+    });
+  });
+
+  describe("getPromptTransportConfig", () => {
+    it("should default to auto with a 16KB threshold", () => {
+      assert.deepStrictEqual(getPromptTransportConfig(), { transport: "auto", argMaxBytes: 16384 });
+    });
+
+    it("should read the transport from config and env", () => {
+      writeProjectConfig({ cli: { promptTransport: "argv", promptArgMaxBytes: 1000 } });
+      process.env.BGMCP_PROMPT_TRANSPORT = "stdin";
+
+      assert.deepStrictEqual(getPromptTransportConfig(), { transport: "stdin", argMaxBytes: 1000 });
+    });
+
+    it("should warn about invalid env values", () => {
+      process.env.BGMCP_PROMPT_TRANSPORT = "tempfile";
+      process.env.BGMCP_PROMPT_ARG_MAX_BYTES = "0";
+      const loaded = loadConfig();
+      assert.strictEqual(loaded.warnings.length, 2);
+      assert.strictEqual(getPromptTransportConfig(loaded.config).transport, "auto");
+    });
+  });
+
+  describe("getStorageConfig", () => {
+    it("should default to memory with a state directory under XDG_STATE_HOME", () => {
+      process.env.XDG_STATE_HOME = path.join(testDir, "state");
+
+      assert.deepStrictEqual(getStorageConfig(), {
+        type: "memory",
+        stateDir: path.join(testDir, "state", "better-gemini-mcp"),
+        maxBytes: 100 * 1024 * 1024,
+      });
+    });
+
+    it("should resolve a relative state directory against the project root", () => {
+      writeProjectConfig({ storage: { type: "disk", stateDir: ".state", maxBytes: 4096 } });
+
+      assert.deepStrictEqual(getStorageConfig(), {
+        type: "disk",
+        stateDir: path.join(projectDir, ".state"),
+        maxBytes: 4096,
+      });
+    });
+
+    it("should read the storage settings from env", () => {
+      process.env.BGMCP_STORAGE = "DISK";
+      process.env.BGMCP_STATE_DIR = "/var/tmp/bgmcp";
+      process.env.BGMCP_STATE_MAX_BYTES = "2048";
+
+      assert.deepStrictEqual(getStorageConfig(), { type: "disk", stateDir: "/var/tmp/bgmcp", maxBytes: 2048 });
+    });
+
+    it("should warn about invalid env values", () => {
+      process.env.BGMCP_STORAGE = "redis";
+      process.env.BGMCP_STATE_MAX_BYTES = "-1";
+      const loaded = loadConfig();
+      assert.strictEqual(loaded.warnings.length, 2);
+      assert.strictEqual(getStorageConfig(loaded.config).type, "memory");
+    });
+  });
+
+  describe("getCacheLimits", () => {
+    it("should default to 100 entries and 50MB", () => {
+      assert.deepStrictEqual(getCacheLimits(), { maxEntries: 100, maxBytes: 50 * 1024 * 1024 });
+    });
+
+    it("should read the limits from config and env", () => {
+      writeProjectConfig({ cache: { maxEntries: 10, maxBytes: 1000 } });
+      process.env.BGMCP_CACHE_MAX_BYTES = "2000";
+
+      assert.deepStrictEqual(getCacheLimits(), { maxEntries: 10, maxBytes: 2000 });
+    });
+
+    it("should warn about invalid env values", () => {
+      process.env.BGMCP_CACHE_MAX_ENTRIES = "0";
+      process.env.BGMCP_CACHE_MAX_BYTES = "lots";
+      const loaded = loadConfig();
+      assert.strictEqual(loaded.warnings.length, 2);
+      assert.deepStrictEqual(getCacheLimits(loaded.config), { maxEntries: 100, maxBytes: 50 * 1024 * 1024 });
+    });
+  });
+
+  describe("chunking", () => {
+    it("should read chunk limits from config and env", () => {
+      writeProjectConfig({ chunking: { sizeKB: 4, maxTokens: 1000 } });
+      process.env.BGMCP_RESPONSE_CHUNK_MAX_TOKENS = "2000";
+
+      assert.deepStrictEqual(loadConfig().config.chunking, { sizeKB: 4, maxTokens: 2000 });
+    });
+
+    it("should warn about invalid env values", () => {
+      process.env.BGMCP_RESPONSE_CHUNK_SIZE_KB = "-1";
+      process.env.BGMCP_RESPONSE_CHUNK_MAX_TOKENS = "many";
+      const loaded = loadConfig();
+      assert.strictEqual(loaded.warnings.length, 2);
+      assert.strictEqual(loaded.config.chunking, undefined);
+    });
+
+    it("should reject token budgets below the minimum", () => {
+      writeProjectConfig({ chunking: { maxTokens: 1 } });
+      process.env.BGMCP_RESPONSE_CHUNK_MAX_TOKENS = "255";
+
+      const loaded = loadConfig();
+      assert.strictEqual(loaded.config.chunking, undefined);
+      assert.ok(loaded.warnings.some((warning) => warning.includes("Invalid config") && warning.includes("maxTokens")));
+      assert.ok(loaded.warnings.some((warning) => warning.includes("BGMCP_RESPONSE_CHUNK_MAX_TOKENS=255")));
+
+      process.env.BGMCP_RESPONSE_CHUNK_MAX_TOKENS = "256";
+      assert.strictEqual(loadConfig().config.chunking?.maxTokens, 256);
+    });
+  });
+
+  describe("describeModelChains", () => {
+    it("should describe every tool with auto shown explicitly", () => {
+      const chains = describeModelChains({});
+      assert.deepStrictEqual(Object.keys(chains).sort(), [
+        "analyze_directory",
+        "deep_research",
+        "quick_query",
+      ]);
+      assert.strictEqual(chains.quick_query.at(-1), "auto");
+    });
+  });
+});
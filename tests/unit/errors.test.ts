@@ -0,0 +1,204 @@
+/**
+ * Unit tests for the Gemini error taxonomy
+ * Tests failure classification, typed error creation and the ErrorResponse mapper
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { z } from "zod";
+
+import {
+  GeminiError,
+  GeminiCliNotFoundError,
+  GeminiAuthError,
+  GeminiQuotaError,
+  CommandCancelledError,
+  PathNotAllowedError,
+  InvalidArgumentError,
+  classifyGeminiFailure,
+  createGeminiError,
+  toGeminiError,
+  toErrorResponse,
+  isErrorResponse,
+} from "../../src/utils/errors.js";
+import { ERROR_CODES, ERROR_NEXT_STEPS } from "../../src/constants.js";
+
+describe("errors", () => {
+  describe("classifyGeminiFailure", () => {
+    it("should recognize quota failures", () => {
+      assert.strictEqual(classifyGeminiFailure("429 RESOURCE_EXHAUSTED"), "quota");
+      assert.strictEqual(classifyGeminiFailure("Quota exceeded for quota metric"), "quota");
+      assert.strictEqual(classifyGeminiFailure("Too Many Requests"), "quota");
+    });
+
+    it("should recognize authentication failures", () => {
+      assert.strictEqual(classifyGeminiFailure("Please login with Google"), "auth");
+      assert.strictEqual(classifyGeminiFailure("API key not valid. Please pass a valid API key."), "auth");
+    });
+
+    it("should recognize a missing binary", () => {
+      assert.strictEqual(classifyGeminiFailure("spawn gemini ENOENT"), "not_found");
+      assert.strictEqual(classifyGeminiFailure("gemini: command not found"), "not_found");
+    });
+
+    it("should recognize network failures", () => {
+      assert.strictEqual(classifyGeminiFailure("connect ECONNREFUSED 127.0.0.1:443"), "network");
+    });
+
+    it("should not match words that merely contain a keyword", () => {
+      assert.strictEqual(classifyGeminiFailure("Model gemini-author not found"), "unknown");
+      assert.strictEqual(classifyGeminiFailure("File not found: src/auth.ts"), "unknown");
+    });
+  });
+
+  describe("createGeminiError", () => {
+    it("should classify stderr before the message", () => {
+      const error = createGeminiError("Command failed with exit code 1", {
+        exitCode: 1,
+        stderr: "Error: please authenticate",
+      });
+      assert.ok(error instanceof GeminiAuthError);
+      assert.strictEqual(error.code, ERROR_CODES.AUTH_MISSING);
+      assert.strictEqual(error.exitCode, 1);
+    });
+
+    it("should parse retryAfter for quota errors", () => {
+      const now = Date.now();
+      const error = createGeminiError("429 RESOURCE_EXHAUSTED (retryDelay: 30s)");
+      assert.ok(error instanceof GeminiQuotaError);
+      assert.ok(error.retryAfter! >= now + 30_000);
+    });
+
+    it("should keep an explicit retryAfter", () => {
+      const error = new GeminiQuotaError("Quota exceeded, retry in 10s", { retryAfter: 1234 });
+      assert.strictEqual(error.retryAfter, 1234);
+    });
+
+    it("should return GeminiCliNotFoundError for ENOENT", () => {
+      assert.ok(createGeminiError("spawn gemini ENOENT") instanceof GeminiCliNotFoundError);
+    });
+
+    it("should keep the category of unclassified errors", () => {
+      const network = createGeminiError("fetch failed");
+      assert.strictEqual(network.constructor, GeminiError);
+      assert.strictEqual(network.category, "network");
+      assert.strictEqual(network.code, ERROR_CODES.GEMINI_CLI_ERROR);
+    });
+  });
+
+  describe("toGeminiError", () => {
+    it("should pass GeminiErrors through unchanged", () => {
+      const error = new GeminiAuthError("no creds");
+      assert.strictEqual(toGeminiError(error), error);
+    });
+
+    it("should wrap other errors without classifying them", () => {
+      const wrapped = toGeminiError(new Error("quota of widgets reached"));
+      assert.strictEqual(wrapped.constructor, GeminiError);
+      assert.strictEqual(wrapped.category, "unknown");
+      assert.strictEqual(wrapped.message, "quota of widgets reached");
+    });
+  });
+
+  describe("toErrorResponse", () => {
+    it("should map GeminiErrors with their metadata and next step", () => {
+      const error = new GeminiQuotaError("Quota exceeded", { retryAfter: Date.UTC(2026, 0, 1), exitCode: 1 });
+      error.model = "gemini-2.5-pro";
+
+      const response = toErrorResponse(error, "deep_research");
+
+      assert.strictEqual(response.error.code, ERROR_CODES.QUOTA_EXCEEDED);
+      assert.strictEqual(response.error.message, "Quota exceeded");
+      assert.deepStrictEqual(response.error.details, {
+        tool: "deep_research",
+        model: "gemini-2.5-pro",
+        category: "quota",
+        exitCode: 1,
+        retryAfter: "2026-01-01T00:00:00.000Z",
+        nextStep: ERROR_NEXT_STEPS.QUOTA_EXCEEDED,
+      });
+    });
+
+    it("should report the auto-select tier as model 'auto'", () => {
+      const error = new GeminiError("boom", { model: null });
+      assert.strictEqual(toErrorResponse(error, "quick_query").error.details?.model, "auto");
+    });
+
+    it("should map cancellation to CANCELLED", () => {
+      const response = toErrorResponse(new CommandCancelledError("gemini"), "quick_query");
+      assert.strictEqual(response.error.code, ERROR_CODES.CANCELLED);
+      assert.strictEqual(response.error.details?.category, "cancelled");
+    });
+
+    it("should map PathNotAllowedError to PATH_NOT_ALLOWED with the rejected path", () => {
+      const error = toGeminiError(new PathNotAllowedError("Path not allowed: @../secret", "../secret"));
+      const response = toErrorResponse(error, "quick_query");
+
+      assert.strictEqual(response.error.code, ERROR_CODES.PATH_NOT_ALLOWED);
+      assert.deepStrictEqual(response.error.details?.invalidPaths, ["../secret"]);
+      assert.strictEqual(response.error.details?.nextStep, ERROR_NEXT_STEPS.PATH_NOT_ALLOWED);
+    });
+
+    it("should map Zod errors to INVALID_ARGUMENT with per-field issues", () => {
+      const schema = z.object({ directory: z.string() });
+      const result = schema.safeParse({ directory: 42 });
+      assert.ok(!result.success);
+
+      const response = toErrorResponse(result.error, "analyze_directory");
+
+      assert.strictEqual(response.error.code, ERROR_CODES.INVALID_ARGUMENT);
+      assert.deepStrictEqual(response.error.details?.issues, [
+        { field: "directory", message: "Expected string, received number" },
+      ]);
+    });
+
+    it("should map InvalidArgumentError to INVALID_ARGUMENT with its issues", () => {
+      const issues = [{ field: "prompt", message: "Required" }];
+      const response = toErrorResponse(new InvalidArgumentError("Invalid arguments for quick_query", issues), "quick_query");
+
+      assert.strictEqual(response.error.code, ERROR_CODES.INVALID_ARGUMENT);
+      assert.deepStrictEqual(response.error.details?.issues, issues);
+      assert.strictEqual(response.error.details?.nextStep, ERROR_NEXT_STEPS.INVALID_ARGUMENT);
+    });
+
+    it("should not infer codes from the message of plain errors", () => {
+      const response = toErrorResponse(new Error("Directory not found: src"), "analyze_directory");
+      assert.strictEqual(response.error.code, ERROR_CODES.INTERNAL);
+      assert.strictEqual(response.error.details?.nextStep, ERROR_NEXT_STEPS.INTERNAL);
+    });
+
+    it("should merge extra details", () => {
+      const response = toErrorResponse("failed", "health_check", { details: { phase: "diagnostics" } });
+      assert.strictEqual(response.error.message, "failed");
+      assert.strictEqual(response.error.details?.phase, "diagnostics");
+    });
+
+    it("should apply a message override and tool-specific next steps", () => {
+      const response = toErrorResponse(new GeminiQuotaError("429"), "deep_research", {
+        message: "Research failed: 429",
+        nextSteps: { [ERROR_CODES.QUOTA_EXCEEDED]: "Try quick_query" },
+      });
+      assert.strictEqual(response.error.message, "Research failed: 429");
+      assert.strictEqual(response.error.details?.nextStep, "Try quick_query");
+
+      const other = toErrorResponse(new GeminiAuthError("no creds"), "deep_research", {
+        nextSteps: { [ERROR_CODES.QUOTA_EXCEEDED]: "Try quick_query" },
+      });
+      assert.strictEqual(other.error.details?.nextStep, ERROR_NEXT_STEPS.AUTH_MISSING);
+    });
+  });
+
+  describe("isErrorResponse", () => {
+    it("should recognize serialized ErrorResponses", () => {
+      const text = JSON.stringify(toErrorResponse(new GeminiAuthError("no creds"), "quick_query"), null, 2);
+      assert.strictEqual(isErrorResponse(text), true);
+    });
+
+    it("should reject successful results and unknown codes", () => {
+      assert.strictEqual(isErrorResponse(JSON.stringify({ tool: "quick_query", answer: "error" })), false);
+      assert.strictEqual(isErrorResponse(JSON.stringify({ error: { code: "SOMETHING_ELSE" } })), false);
+      assert.strictEqual(isErrorResponse(JSON.stringify({ error: null })), false);
+      assert.strictEqual(isErrorResponse("not json"), false);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Unit tests for the fake Gemini backend
+ * Tests scripted answers, rule matching, errors, delays and backend selection
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+import {
+  fakeBackend,
+  setFakeScript,
+  resetFakeBackend,
+  getFakeCalls,
+  getBackend,
+} from "../../src/backends/index.js";
+import type { BackendRequest } from "../../src/backends/index.js";
+import { CommandCancelledError } from "../../src/utils/commandExecutor.js";
+import type { ProgressEvent } from "../../src/types.js";
+
+const ENV_KEYS = ["PROJECT_ROOT", "XDG_CONFIG_HOME", "BGMCP_BACKEND", "BGMCP_FAKE_SCRIPT"];
+
+/**
+ * Build a backend request with defaults
+ */
+function request(overrides: Partial<BackendRequest> = {}): BackendRequest {
+  return {
+    prompt: "Explain @src/auth.ts",
+    systemPrompt: "system",
+    model: "gemini-3-flash-preview",
+    toolName: "quick_query",
+    ...overrides,
+  };
+}
+
+describe("fakeBackend", () => {
+  const testDir = path.join(os.tmpdir(), "test-fake-backend-" + Date.now());
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+    fs.mkdirSync(testDir, { recursive: true });
+    process.env.PROJECT_ROOT = testDir;
+    process.env.XDG_CONFIG_HOME = testDir;
+    resetFakeBackend();
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] !== undefined) {
+        process.env[key] = savedEnv[key];
+      } else {
+        delete process.env[key];
+      }
+    }
+    resetFakeBackend();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("default answer", () => {
+    it("should echo the prompt, model and tool without a script", async () => {
+      const result = await fakeBackend.execute(request());
+
+      assert.strictEqual(
+        result.text,
+        "Fake Gemini response (gemini-3-flash-preview) for quick_query: Explain @src/auth.ts"
+      );
+      assert.strictEqual(result.model, "gemini-3-flash-preview");
+      assert.deepStrictEqual(result.filesAccessed, []);
+    });
+
+    it("should record calls in order", async () => {
+      await fakeBackend.execute(request());
+      await fakeBackend.execute(request({ model: null, toolName: "deep_research" }));
+
+      assert.deepStrictEqual(
+        getFakeCalls().map((c) => [c.toolName, c.model]),
+        [
+          ["quick_query", "gemini-3-flash-preview"],
+          ["deep_research", null],
+        ]
+      );
+    });
+  });
+
+  describe("rules", () => {
+    it("should use the first matching rule", async () => {
+      setFakeScript({
+        rules: [
+          { match: "database", answer: "db answer" },
+          { match: "AUTH", answer: "auth answer", tokensUsed: 42 },
+          { answer: "fallback answer" },
+        ],
+      });
+
+      const result = await fakeBackend.execute(request());
+      assert.strictEqual(result.text, "auth answer");
+      assert.strictEqual(result.tokensUsed, 42);
+    });
+
+    it("should filter by model and tool", async () => {
+      setFakeScript({
+        rules: [
+          { tool: "deep_research", answer: "research" },
+          { model: "auto", answer: "auto answer" },
+        ],
+      });
+
+      assert.strictEqual((await fakeBackend.execute(request({ model: null }))).text, "auto answer");
+      assert.ok((await fakeBackend.execute(request())).text.startsWith("Fake Gemini response"));
+    });
+
+    it("should stop using a rule after `times` uses", async () => {
+      setFakeScript({ rules: [{ times: 1, error: "quota" }, { answer: "recovered" }] });
+
+      await assert.rejects(fakeBackend.execute(request()), /RESOURCE_EXHAUSTED/);
+      assert.strictEqual((await fakeBackend.execute(request())).text, "recovered");
+    });
+
+    it("should reject invalid scripts", () => {
+      assert.throws(
+        () => setFakeScript({ rules: [{ error: "boom" }] } as never),
+        /Invalid fake backend script/
+      );
+    });
+  });
+
+  describe("errors", () => {
+    it("should raise errors the tools can classify", async () => {
+      setFakeScript({
+        rules: [
+          { match: "one", error: "auth" },
+          { match: "two", error: "not_found" },
+          { match: "three", error: "failure", errorMessage: "custom failure" },
+        ],
+      });
+
+      await assert.rejects(fakeBackend.execute(request({ prompt: "one" })), /login/);
+      await assert.rejects(fakeBackend.execute(request({ prompt: "two" })), /ENOENT/);
+      await assert.rejects(fakeBackend.execute(request({ prompt: "three" })), /custom failure/);
+    });
+  });
+
+  describe("tool events and progress", () => {
+    it("should report tool events and the answer as progress", async () => {
+      setFakeScript({
+        rules: [
+          {
+            answer: "done",
+            toolEvents: [
+              { tool: "read_file", parameters: { file_path: "src/auth.ts" } },
+              { tool: "glob", parameters: { pattern: "**/*.ts" } },
+            ],
+          },
+        ],
+      });
+
+      const events: ProgressEvent[] = [];
+      const result = await fakeBackend.execute(
+        request({ onProgress: (_output, event) => event && events.push(event) })
+      );
+
+      assert.strictEqual(result.toolCalls, 2);
+      assert.deepStrictEqual(events, [
+        { kind: "tool_use", message: "reading src/auth.ts" },
+        { kind: "tool_use", message: "finding files matching **/*.ts" },
+        { kind: "text", message: "done" },
+      ]);
+    });
+  });
+
+  describe("delays and cancellation", () => {
+    it("should reject with CommandCancelledError when aborted during a delay", async () => {
+      setFakeScript({ rules: [{ delayMs: 10000, answer: "too late" }] });
+      const controller = new AbortController();
+
+      const pending = fakeBackend.execute(request({ signal: controller.signal }));
+      setTimeout(() => controller.abort(), 10);
+
+      await assert.rejects(pending, CommandCancelledError);
+    });
+  });
+
+  describe("script file", () => {
+    it("should load the script named by BGMCP_FAKE_SCRIPT relative to the project root", async () => {
+      fs.writeFileSync(
+        path.join(testDir, "fake.json"),
+        JSON.stringify({ rules: [{ answer: "from file" }] })
+      );
+      process.env.BGMCP_FAKE_SCRIPT = "fake.json";
+
+      assert.strictEqual((await fakeBackend.execute(request())).text, "from file");
+    });
+
+    it("should fail clearly when the script file is missing", async () => {
+      process.env.BGMCP_FAKE_SCRIPT = "missing.json";
+      await assert.rejects(fakeBackend.execute(request()), /Cannot load fake backend script/);
+    });
+  });
+
+  describe("getBackend", () => {
+    it("should default to the CLI backend", () => {
+      assert.strictEqual(getBackend().name, "cli");
+    });
+
+    it("should select the fake backend from BGMCP_BACKEND", () => {
+      process.env.BGMCP_BACKEND = "fake";
+      assert.strictEqual(getBackend().name, "fake");
+    });
+
+    it("should select the backend from the user config file", () => {
+      fs.mkdirSync(path.join(testDir, "better-gemini-mcp"), { recursive: true });
+      fs.writeFileSync(
+        path.join(testDir, "better-gemini-mcp", "config.json"),
+        JSON.stringify({ backend: { type: "fake" } })
+      );
+      assert.strictEqual(getBackend().name, "fake");
+    });
+  });
+});
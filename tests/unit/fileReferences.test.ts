@@ -0,0 +1,91 @@
+/**
+ * Unit tests for fileReferences utility
+ * Tests path normalization, citation extraction and missing-file detection
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+import {
+  toProjectPath,
+  toProjectPaths,
+  extractCitedPaths,
+  findMissingFiles,
+} from "../../src/utils/fileReferences.js";
+
+describe("fileReferences", () => {
+  const testDir = path.join(os.tmpdir(), "test-file-references-" + Date.now());
+
+  before(() => {
+    fs.mkdirSync(path.join(testDir, "src"), { recursive: true });
+    fs.writeFileSync(path.join(testDir, "src", "auth.ts"), "export {};");
+    fs.writeFileSync(path.join(testDir, "package.json"), "{}");
+  });
+
+  after(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("toProjectPath", () => {
+    it("should make absolute paths inside the root relative", () => {
+      assert.strictEqual(toProjectPath(path.join(testDir, "src", "auth.ts"), testDir), "src/auth.ts");
+    });
+
+    it("should normalize relative paths and @ prefixes", () => {
+      assert.strictEqual(toProjectPath("./src/../src/auth.ts", testDir), "src/auth.ts");
+      assert.strictEqual(toProjectPath("@src/auth.ts", testDir), "src/auth.ts");
+    });
+
+    it("should keep paths outside the root absolute", () => {
+      const outside = path.resolve(testDir, "..", "elsewhere.ts");
+      assert.strictEqual(toProjectPath(outside, testDir), outside);
+    });
+
+    it("should deduplicate equivalent paths", () => {
+      const paths = toProjectPaths(["src/auth.ts", path.join(testDir, "src", "auth.ts"), "./package.json"], testDir);
+      assert.deepStrictEqual(paths, ["src/auth.ts", "package.json"]);
+    });
+  });
+
+  describe("extractCitedPaths", () => {
+    it("should find paths in prose, code spans and list items", () => {
+      const answer = [
+        "Login is handled in src/auth.ts:42 (see also @src/session.ts).",
+        "Settings live in `package.json` and `config/app.yaml:3-9`.",
+        "",
+        "## Files Referenced",
+        "- tsconfig.json",
+        "- lib/db/index.js",
+      ].join("\n");
+
+      assert.deepStrictEqual(extractCitedPaths(answer), [
+        "src/auth.ts",
+        "src/session.ts",
+        "package.json",
+        "config/app.yaml",
+        "tsconfig.json",
+        "lib/db/index.js",
+      ]);
+    });
+
+    it("should ignore URLs, identifiers and abbreviations", () => {
+      const answer = "See https://example.com/docs/guide.html, e.g. `res.json()` or `user.name` in Node.js.";
+      assert.deepStrictEqual(extractCitedPaths(answer), []);
+    });
+  });
+
+  describe("findMissingFiles", () => {
+    it("should return only paths that do not exist", () => {
+      const missing = findMissingFiles(["src/auth.ts", "src/legacy.ts", "package.json"], testDir);
+      assert.deepStrictEqual(missing, ["src/legacy.ts"]);
+    });
+
+    it("should not check paths outside the project root", () => {
+      const outside = path.join(os.tmpdir(), "no-such-dir-" + Date.now(), "secret.ts");
+      assert.deepStrictEqual(findMissingFiles([outside, "../elsewhere.ts"], testDir), []);
+    });
+  });
+});
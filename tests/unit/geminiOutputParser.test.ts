@@ -0,0 +1,276 @@
+/**
+ * Unit tests for geminiOutputParser utility
+ * Tests incremental stream-json parsing, stats normalization and tool-use descriptions
+ */
+
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+
+import {
+  parseStreamJsonLine,
+  createStreamJsonParser,
+  describeToolUse,
+  parseGeminiStats,
+  getToolUseFiles,
+  getToolResultFiles,
+  type StreamJsonEvent,
+} from "../../src/utils/geminiOutputParser.js";
+
+/**
+ * Read a recorded Gemini CLI output from tests/fixtures/gemini-cli
+ */
+function readFixture(name: string): string {
+  return fs.readFileSync(new URL(`../fixtures/gemini-cli/${name}`, import.meta.url), "utf-8");
+}
+
+const STREAM_OUTPUT = [
+  '{"type":"init","timestamp":"2026-01-20T10:00:00.000Z","session_id":"abc","model":"gemini-2.5-flash"}',
+  '{"type":"message","timestamp":"2026-01-20T10:00:00.100Z","role":"user","content":"Explain @src/auth.ts"}',
+  '{"type":"tool_use","timestamp":"2026-01-20T10:00:01.000Z","tool_name":"read_file","tool_id":"t1","parameters":{"absolute_path":"/repo/src/auth.ts"}}',
+  '{"type":"tool_result","timestamp":"2026-01-20T10:00:01.200Z","tool_id":"t1","status":"success","output":""}',
+  '{"type":"message","timestamp":"2026-01-20T10:00:02.000Z","role":"assistant","content":"The auth module ","delta":true}',
+  '{"type":"message","timestamp":"2026-01-20T10:00:02.500Z","role":"assistant","content":"uses JWT.","delta":true}',
+  '{"type":"result","timestamp":"2026-01-20T10:00:03.000Z","status":"success","stats":{"total_tokens":1234,"input_tokens":1200,"output_tokens":34,"duration_ms":3000,"tool_calls":1}}',
+].join("\n");
+
+describe("geminiOutputParser", () => {
+  const originalProjectRoot = process.env.PROJECT_ROOT;
+
+  afterEach(() => {
+    if (originalProjectRoot !== undefined) {
+      process.env.PROJECT_ROOT = originalProjectRoot;
+    } else {
+      delete process.env.PROJECT_ROOT;
+    }
+  });
+
+  describe("parseStreamJsonLine", () => {
+    it("should parse a valid event line", () => {
+      const event = parseStreamJsonLine('{"type":"init","model":"gemini-2.5-pro"}');
+      assert.deepStrictEqual(event, { type: "init", model: "gemini-2.5-pro" });
+    });
+
+    it("should ignore non-JSON lines", () => {
+      assert.strictEqual(parseStreamJsonLine("Loaded cached credentials."), null);
+      assert.strictEqual(parseStreamJsonLine(""), null);
+    });
+
+    it("should ignore JSON without a type field", () => {
+      assert.strictEqual(parseStreamJsonLine('{"response":"hi"}'), null);
+    });
+  });
+
+  describe("createStreamJsonParser", () => {
+    it("should aggregate assistant text, model and stats", () => {
+      const parser = createStreamJsonParser();
+      parser.write(STREAM_OUTPUT);
+      const summary = parser.end();
+
+      assert.strictEqual(summary.text, "The auth module uses JWT.");
+      assert.strictEqual(summary.model, "gemini-2.5-flash");
+      assert.strictEqual(summary.tokensUsed, 1234);
+      assert.strictEqual(summary.toolCalls, 1);
+      assert.strictEqual(summary.eventCount, 7);
+      assert.strictEqual(summary.error, undefined);
+      assert.deepStrictEqual(summary.toolCallsByName, { read_file: 1 });
+      assert.strictEqual(summary.models, undefined);
+    });
+
+    it("should report per-model usage from a recorded stream", () => {
+      const parser = createStreamJsonParser();
+      parser.write(readFixture("stream-json-output.jsonl"));
+      const summary = parser.end();
+
+      assert.strictEqual(summary.tokensUsed, 31748);
+      assert.strictEqual(summary.toolCalls, 3);
+      assert.deepStrictEqual(summary.toolCallsByName, { glob: 1, read_file: 2 });
+      assert.deepStrictEqual(Object.keys(summary.models ?? {}), ["gemini-2.5-flash-lite", "gemini-2.5-pro"]);
+      assert.deepStrictEqual(summary.models?.["gemini-2.5-pro"].tokens, {
+        prompt: 28745,
+        candidates: 312,
+        cached: 18930,
+        thoughts: 0,
+        tool: 0,
+        total: 30218,
+      });
+      assert.strictEqual(summary.cachedTokens, 18930);
+      // Stream-json does not report API latency
+      assert.strictEqual(summary.apiLatencyMs, undefined);
+      assert.deepStrictEqual(summary.filesAccessed, ["/repo/src/auth.ts", "/repo/src/session.ts"]);
+    });
+
+    it("should collect files listed by glob and read_many_files results", () => {
+      const parser = createStreamJsonParser();
+      parser.write(
+        [
+          '{"type":"tool_use","tool_name":"glob","tool_id":"g1","parameters":{"pattern":"src/*.ts"}}',
+          '{"type":"tool_result","tool_id":"g1","status":"success","output":"Found 2 file(s) matching \\"src/*.ts\\":\\n/repo/src/a.ts\\n/repo/src/b.ts"}',
+          '{"type":"tool_use","tool_name":"read_many_files","tool_id":"r1","parameters":{"paths":["docs/**/*.md"]}}',
+          '{"type":"tool_result","tool_id":"r1","status":"success","output":"**Processed Files:**\\n- `docs/intro.md`\\n- `docs/setup.md`"}',
+          '{"type":"tool_use","tool_name":"read_many_files","tool_id":"r2","parameters":{"paths":["missing/**"]}}',
+          '{"type":"tool_result","tool_id":"r2","status":"error","output":"- `missing/x.md`"}',
+        ].join("\n")
+      );
+
+      assert.deepStrictEqual(parser.end().filesAccessed, [
+        "/repo/src/a.ts",
+        "/repo/src/b.ts",
+        "docs/intro.md",
+        "docs/setup.md",
+      ]);
+    });
+
+    it("should handle events split across chunks", () => {
+      const events: StreamJsonEvent[] = [];
+      const parser = createStreamJsonParser((event) => events.push(event));
+
+      // Feed the output in small, line-unaligned pieces
+      for (let i = 0; i < STREAM_OUTPUT.length; i += 17) {
+        parser.write(STREAM_OUTPUT.slice(i, i + 17));
+      }
+      const summary = parser.end();
+
+      assert.strictEqual(events.length, 7);
+      assert.deepStrictEqual(
+        events.map((e) => e.type),
+        ["init", "message", "tool_use", "tool_result", "message", "message", "result"]
+      );
+      assert.strictEqual(summary.text, "The auth module uses JWT.");
+    });
+
+    it("should emit events in order as lines complete", () => {
+      const events: StreamJsonEvent[] = [];
+      const parser = createStreamJsonParser((event) => events.push(event));
+
+      parser.write('{"type":"init","model":"m"}\n{"type":"message","role":"assistant",');
+      assert.strictEqual(events.length, 1);
+
+      parser.write('"content":"Hi","delta":true}\n');
+      assert.strictEqual(events.length, 2);
+    });
+
+    it("should report errors from the result event", () => {
+      const parser = createStreamJsonParser();
+      parser.write(
+        '{"type":"result","status":"error","error":{"type":"API","message":"429 RESOURCE_EXHAUSTED"}}\n'
+      );
+      const summary = parser.end();
+
+      assert.strictEqual(summary.error, "429 RESOURCE_EXHAUSTED");
+    });
+
+    it("should report zero events for non-stream output", () => {
+      const parser = createStreamJsonParser();
+      parser.write('Some banner\n{"response":"plain json"}');
+      const summary = parser.end();
+
+      assert.strictEqual(summary.eventCount, 0);
+      assert.strictEqual(summary.text, "");
+    });
+  });
+
+  describe("parseGeminiStats", () => {
+    it("should break down a recorded json-format stats object", () => {
+      const stats = parseGeminiStats(JSON.parse(readFixture("json-output.json")).stats);
+
+      assert.strictEqual(stats.tokensUsed, 1530 + 30218);
+      assert.strictEqual(stats.toolCalls, 3);
+      assert.strictEqual(stats.apiLatencyMs, 812 + 9421);
+      assert.strictEqual(stats.cachedTokens, 18930);
+      assert.deepStrictEqual(stats.toolCallsByName, { read_file: 2, glob: 1 });
+      assert.deepStrictEqual(stats.models?.["gemini-2.5-pro"], {
+        requests: 3,
+        errors: 0,
+        latencyMs: 9421,
+        tokens: { prompt: 28745, candidates: 312, cached: 18930, thoughts: 1161, tool: 0, total: 30218 },
+      });
+    });
+
+    it("should read totals from stream-json result stats", () => {
+      const stats = parseGeminiStats({ total_tokens: 1234, input_tokens: 1200, output_tokens: 34, tool_calls: 1 });
+      assert.deepStrictEqual(stats, { tokensUsed: 1234, toolCalls: 1 });
+    });
+
+    it("should read the flat cached count from stream-json result stats", () => {
+      const stats = parseGeminiStats({ total_tokens: 1234, cached: 800, tool_calls: 0 });
+      assert.deepStrictEqual(stats, { tokensUsed: 1234, cachedTokens: 800, toolCalls: 0 });
+    });
+
+    it("should derive a missing model total from its parts", () => {
+      const stats = parseGeminiStats({ models: { m: { tokens: { prompt: 10, candidates: 5, thoughts: 2 } } } });
+      assert.strictEqual(stats.models?.m.tokens.total, 17);
+      assert.strictEqual(stats.tokensUsed, 17);
+      assert.strictEqual(stats.apiLatencyMs, undefined);
+    });
+
+    it("should ignore missing or malformed stats", () => {
+      assert.deepStrictEqual(parseGeminiStats(undefined), {});
+      assert.deepStrictEqual(parseGeminiStats("n/a"), {});
+      assert.deepStrictEqual(parseGeminiStats({ models: [], tools: { totalCalls: "3" } }), {});
+    });
+  });
+
+  describe("getToolUseFiles", () => {
+    it("should return the file read by read_file", () => {
+      const event: StreamJsonEvent = { type: "tool_use", tool_name: "read_file", parameters: { file_path: "src/a.ts" } };
+      assert.deepStrictEqual(getToolUseFiles(event), ["src/a.ts"]);
+    });
+
+    it("should skip glob patterns passed to read_many_files", () => {
+      const files = getToolUseFiles({
+        type: "tool_use",
+        tool_name: "read_many_files",
+        parameters: { paths: ["src/a.ts", "src/**/*.ts", "lib/{x,y}.js"] },
+      });
+      assert.deepStrictEqual(files, ["src/a.ts"]);
+    });
+
+    it("should return nothing for tools that do not read files", () => {
+      assert.deepStrictEqual(getToolUseFiles({ type: "tool_use", tool_name: "glob", parameters: { pattern: "*.ts" } }), []);
+    });
+  });
+
+  describe("getToolResultFiles", () => {
+    it("should only read listings from glob and read_many_files", () => {
+      assert.deepStrictEqual(getToolResultFiles("glob", "Found 1 file(s):\n/repo/a.ts"), ["/repo/a.ts"]);
+      assert.deepStrictEqual(getToolResultFiles("read_file", "/repo/a.ts"), []);
+      assert.deepStrictEqual(getToolResultFiles("glob", undefined), []);
+    });
+  });
+
+  describe("describeToolUse", () => {
+    it("should describe read_file relative to project root", () => {
+      process.env.PROJECT_ROOT = "/repo";
+      const description = describeToolUse({
+        type: "tool_use",
+        tool_name: "read_file",
+        parameters: { absolute_path: "/repo/src/auth.ts" },
+      });
+      assert.strictEqual(description, "reading src/auth.ts");
+    });
+
+    it("should describe read_many_files with a file count", () => {
+      const description = describeToolUse({
+        type: "tool_use",
+        tool_name: "read_many_files",
+        parameters: { paths: ["a.ts", "b.ts", "c.ts"] },
+      });
+      assert.strictEqual(description, "reading 3 files");
+    });
+
+    it("should describe searches with the pattern", () => {
+      const description = describeToolUse({
+        type: "tool_use",
+        tool_name: "search_file_content",
+        parameters: { pattern: "validateToken" },
+      });
+      assert.strictEqual(description, 'searching for "validateToken"');
+    });
+
+    it("should fall back to the tool name for unknown tools", () => {
+      const description = describeToolUse({ type: "tool_use", tool_name: "web_fetch" });
+      assert.strictEqual(description, "using web_fetch");
+    });
+  });
+});
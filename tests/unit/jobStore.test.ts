@@ -0,0 +1,261 @@
+/**
+ * Unit tests for jobStore utility
+ * Tests job lifecycle, progress tracking, cancellation, and expiry
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { spawnSync } from "child_process";
+
+import {
+  generateJobId,
+  startJob,
+  getJob,
+  waitForJob,
+  clearExpiredJobs,
+  clearJobs,
+  cancelJob,
+} from "../../src/utils/jobStore.js";
+import { resetStateStores } from "../../src/utils/stateStore.js";
+
+describe("jobStore", () => {
+  beforeEach(() => {
+    clearJobs();
+  });
+
+  afterEach(() => {
+    clearJobs();
+  });
+
+  describe("generateJobId", () => {
+    it("should generate unique job IDs with the job_ prefix", () => {
+      const id1 = generateJobId();
+      const id2 = generateJobId();
+
+      assert.match(id1, /^job_/);
+      assert.notStrictEqual(id1, id2);
+    });
+  });
+
+  describe("startJob", () => {
+    it("should return a running job and complete it with the runner's response", async () => {
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+
+      const job = startJob("deep_research", async () => {
+        await gate;
+        return JSON.stringify({ tool: "deep_research", answer: "done" });
+      });
+
+      assert.strictEqual(job.status, "running");
+      assert.strictEqual(getJob(job.id)?.status, "running");
+
+      release();
+      const finished = await waitForJob(job.id);
+
+      assert.strictEqual(finished?.status, "completed");
+      assert.strictEqual(JSON.parse(finished!.result!).answer, "done");
+      assert.ok(finished!.finishedAt! >= finished!.createdAt);
+      assert.ok(finished!.expiresAt! > finished!.finishedAt!);
+    });
+
+    it("should mark the job failed when the runner returns an error response", async () => {
+      const job = startJob("deep_research", async () =>
+        JSON.stringify({ error: { code: "QUOTA_EXCEEDED", message: "Quota exceeded" } })
+      );
+
+      const finished = await waitForJob(job.id);
+
+      assert.strictEqual(finished?.status, "failed");
+      assert.strictEqual(JSON.parse(finished!.result!).error.code, "QUOTA_EXCEEDED");
+    });
+
+    it("should store a thrown error as an error response", async () => {
+      const job = startJob("deep_research", async () => {
+        throw new Error("boom");
+      });
+
+      const finished = await waitForJob(job.id);
+      const parsed = JSON.parse(finished!.result!);
+
+      assert.strictEqual(finished?.status, "failed");
+      assert.strictEqual(parsed.error.code, "INTERNAL");
+      assert.strictEqual(parsed.error.details.jobId, job.id);
+    });
+
+    it("should track progress updates", async () => {
+      const job = startJob("deep_research", async (onProgress) => {
+        onProgress("", { kind: "tool_use", message: "Reading src/index.ts" });
+        onProgress("Hello", { kind: "text", message: "Hello" });
+        onProgress(" world", { kind: "text", message: " world" });
+        return JSON.stringify({ tool: "deep_research", answer: "Hello world" });
+      });
+
+      const finished = await waitForJob(job.id);
+
+      assert.deepStrictEqual(finished?.progress, {
+        updates: 3,
+        lastMessage: "Reading src/index.ts",
+        outputChars: 11,
+      });
+    });
+  });
+
+  describe("cancelJob", () => {
+    it("should abort the runner's signal and mark the job cancelled", async () => {
+      let aborted = false;
+      const job = startJob(
+        "deep_research",
+        (_onProgress, signal) =>
+          new Promise<string>((resolve) => {
+            signal.addEventListener("abort", () => {
+              aborted = true;
+              resolve(JSON.stringify({ tool: "deep_research", answer: "late" }));
+            });
+          })
+      );
+
+      const cancelled = cancelJob(job.id);
+      assert.strictEqual(aborted, true);
+      assert.strictEqual(cancelled?.status, "cancelled");
+      assert.strictEqual(JSON.parse(cancelled!.result!).error.code, "CANCELLED");
+      assert.ok(cancelled?.expiresAt);
+
+      // The runner settling afterwards does not overwrite the outcome
+      const finished = await waitForJob(job.id);
+      assert.strictEqual(finished?.status, "cancelled");
+    });
+
+    it("should leave finished jobs unchanged", async () => {
+      const job = startJob("deep_research", async () => JSON.stringify({ tool: "deep_research", answer: "done" }));
+      await waitForJob(job.id);
+
+      assert.strictEqual(cancelJob(job.id)?.status, "completed");
+    });
+
+    it("should return null for unknown job IDs", () => {
+      assert.strictEqual(cancelJob("job_missing"), null);
+    });
+
+    it("should abort running jobs when all jobs are cleared", () => {
+      let signal: AbortSignal | undefined;
+      startJob("deep_research", (_onProgress, jobSignal) => {
+        signal = jobSignal;
+        return new Promise<string>(() => {});
+      });
+
+      clearJobs();
+      assert.strictEqual(signal?.aborted, true);
+    });
+  });
+
+  describe("expiry", () => {
+    it("should remove finished jobs past their TTL", async () => {
+      const job = startJob("deep_research", async () => "{}", -1);
+      await waitForJob(job.id);
+
+      assert.strictEqual(getJob(job.id), null);
+    });
+
+    it("should not expire running jobs", () => {
+      const job = startJob("deep_research", () => new Promise<string>(() => {}), -1);
+
+      assert.strictEqual(clearExpiredJobs(), 0);
+      assert.strictEqual(getJob(job.id)?.status, "running");
+    });
+
+    it("should count removed jobs in clearExpiredJobs", async () => {
+      const job = startJob("deep_research", async () => "{}", -1);
+      await waitForJob(job.id);
+
+      assert.strictEqual(clearExpiredJobs(), 1);
+    });
+  });
+
+  describe("getJob", () => {
+    it("should return null for unknown job IDs", async () => {
+      assert.strictEqual(getJob("job_missing"), null);
+      assert.strictEqual(await waitForJob("job_missing"), null);
+    });
+  });
+
+  describe("disk store", () => {
+    const stateDir = path.join(os.tmpdir(), "test-job-store-" + Date.now());
+    const savedStorage = process.env.BGMCP_STORAGE;
+    const savedStateDir = process.env.BGMCP_STATE_DIR;
+
+    beforeEach(() => {
+      process.env.BGMCP_STORAGE = "disk";
+      process.env.BGMCP_STATE_DIR = stateDir;
+      resetStateStores();
+    });
+
+    afterEach(() => {
+      clearJobs();
+      if (savedStorage !== undefined) {
+        process.env.BGMCP_STORAGE = savedStorage;
+      } else {
+        delete process.env.BGMCP_STORAGE;
+      }
+      if (savedStateDir !== undefined) {
+        process.env.BGMCP_STATE_DIR = savedStateDir;
+      } else {
+        delete process.env.BGMCP_STATE_DIR;
+      }
+      resetStateStores();
+      fs.rmSync(stateDir, { recursive: true, force: true });
+    });
+
+    it("should return finished jobs after a restart", async () => {
+      const job = startJob("deep_research", async () => JSON.stringify({ tool: "deep_research", answer: "kept" }));
+      await waitForJob(job.id);
+
+      resetStateStores();
+      const reloaded = getJob(job.id);
+
+      assert.strictEqual(reloaded?.status, "completed");
+      assert.strictEqual(JSON.parse(reloaded!.result!).answer, "kept");
+    });
+
+    it("should fail jobs that were running when the server stopped", () => {
+      const job = startJob("deep_research", () => new Promise<string>(() => {}));
+
+      // Simulate a restart: the new process knows only what is on disk
+      const jobFile = path.join(stateDir, "jobs", `${job.id}.json`);
+      const persisted = fs.readFileSync(jobFile, "utf-8");
+      clearJobs();
+      fs.mkdirSync(path.dirname(jobFile), { recursive: true });
+      fs.writeFileSync(jobFile, persisted);
+      resetStateStores();
+
+      const reloaded = getJob(job.id);
+      assert.strictEqual(reloaded?.status, "failed");
+      assert.ok(reloaded?.expiresAt);
+      assert.match(JSON.parse(reloaded!.result!).error.message, /interrupted by a server restart/);
+    });
+
+    it("should leave running jobs of another live server alone", () => {
+      const job = startJob("deep_research", () => new Promise<string>(() => {}));
+      const jobFile = path.join(stateDir, "jobs", `${job.id}.json`);
+      const persisted = JSON.parse(fs.readFileSync(jobFile, "utf-8"));
+      clearJobs();
+
+      const writeOwnedBy = (pid: number) => {
+        fs.mkdirSync(path.dirname(jobFile), { recursive: true });
+        fs.writeFileSync(jobFile, JSON.stringify({ ...persisted, owner: { pid, nonce: "other" } }));
+        resetStateStores();
+      };
+
+      // The parent of the test process stands in for another server
+      writeOwnedBy(process.ppid);
+      assert.strictEqual(getJob(job.id)?.status, "running");
+
+      // A server that has exited
+      writeOwnedBy(spawnSync(process.execPath, ["-e", ""]).pid!);
+      assert.strictEqual(getJob(job.id)?.status, "failed");
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for modelAvailability utility
+ * Tests quota circuit-breaker state and reset-time parsing
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+
+import {
+  parseQuotaResetTime,
+  markModelExhausted,
+  markModelAvailable,
+  isModelAvailable,
+  getExhaustedModel,
+  getModelAvailability,
+  resetModelAvailability,
+} from "../../src/utils/modelAvailability.js";
+
+describe("modelAvailability", () => {
+  beforeEach(() => {
+    resetModelAvailability();
+  });
+
+  afterEach(() => {
+    resetModelAvailability();
+  });
+
+  describe("parseQuotaResetTime", () => {
+    const now = 1_700_000_000_000;
+
+    it("should parse 'Please retry in' durations", () => {
+      const resetAt = parseQuotaResetTime("429 Too Many Requests. Please retry in 23.5s.", now);
+      assert.strictEqual(resetAt, now + 23500);
+    });
+
+    it("should parse retryDelay fields from API error bodies", () => {
+      const message = '{"error":{"code":429,"details":[{"retryDelay":"41s"}]}}';
+      assert.strictEqual(parseQuotaResetTime(message, now), now + 41000);
+    });
+
+    it("should parse compound reset durations", () => {
+      const message = "You have exhausted your daily quota. Your quota will reset after 2h25m13s.";
+      assert.strictEqual(parseQuotaResetTime(message, now), now + (2 * 3600 + 25 * 60 + 13) * 1000);
+    });
+
+    it("should parse Retry-After headers", () => {
+      assert.strictEqual(parseQuotaResetTime("Retry-After: 60", now), now + 60000);
+    });
+
+    it("should return null when no reset time is present", () => {
+      assert.strictEqual(parseQuotaResetTime("RESOURCE_EXHAUSTED: Quota exceeded", now), null);
+    });
+  });
+
+  describe("markModelExhausted", () => {
+    it("should make a model unavailable for the cooldown", () => {
+      markModelExhausted("gemini-3-pro-preview", "Quota exceeded", 60000);
+
+      assert.strictEqual(isModelAvailable("gemini-3-pro-preview"), false);
+      assert.strictEqual(isModelAvailable("gemini-2.5-pro"), true);
+
+      const entry = getExhaustedModel("gemini-3-pro-preview");
+      assert.ok(entry);
+      assert.strictEqual(entry.source, "cooldown");
+      assert.ok(Math.abs(entry.availableAt - (Date.now() + 60000)) < 1000);
+    });
+
+    it("should prefer a parsed reset time over the cooldown", () => {
+      const entry = markModelExhausted("gemini-2.5-flash", "Please retry in 5s", 600000);
+
+      assert.strictEqual(entry.source, "reset_time");
+      assert.ok(entry.availableAt - Date.now() <= 5000);
+    });
+
+    it("should track auto-select under the 'auto' key", () => {
+      markModelExhausted(null, "429", 60000);
+
+      assert.strictEqual(isModelAvailable(null), false);
+      assert.strictEqual(getModelAvailability()[0].model, "auto");
+    });
+
+    it("should expire entries after the cooldown", () => {
+      markModelExhausted("gemini-2.5-flash", "Quota exceeded", 0);
+
+      assert.strictEqual(isModelAvailable("gemini-2.5-flash"), true);
+      assert.deepStrictEqual(getModelAvailability(), []);
+    });
+  });
+
+  describe("markModelAvailable", () => {
+    it("should close the breaker for a model", () => {
+      markModelExhausted("gemini-2.5-pro", "Quota exceeded", 60000);
+      markModelAvailable("gemini-2.5-pro");
+
+      assert.strictEqual(isModelAvailable("gemini-2.5-pro"), true);
+    });
+  });
+
+  describe("getModelAvailability", () => {
+    it("should list exhausted models soonest-available first", () => {
+      markModelExhausted("slow", "Quota exceeded", 120000);
+      markModelExhausted("fast", "Quota exceeded", 30000);
+
+      assert.deepStrictEqual(
+        getModelAvailability().map((e) => e.model),
+        ["fast", "slow"]
+      );
+    });
+  });
+});
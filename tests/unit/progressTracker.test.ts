@@ -0,0 +1,180 @@
+/**
+ * Unit tests for progressTracker utility
+ * Tests per-request progress state, keepalives and final notifications
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+
+import { ProgressTracker, type ProgressToken } from "../../src/utils/progressTracker.js";
+
+interface SentNotification {
+  progressToken: ProgressToken;
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("progressTracker", () => {
+  let sent: SentNotification[];
+  let tracker: ProgressTracker;
+
+  const notify = async (
+    progressToken: ProgressToken,
+    progress: number,
+    total?: number,
+    message?: string
+  ): Promise<void> => {
+    sent.push({ progressToken, progress, total, message });
+  };
+
+  const sentFor = (token: ProgressToken): SentNotification[] =>
+    sent.filter((n) => n.progressToken === token);
+
+  beforeEach(() => {
+    sent = [];
+    tracker = new ProgressTracker(notify, { keepaliveIntervalMs: 20, throttleMs: 0 });
+  });
+
+  afterEach(() => {
+    // Ensure no timers are left running
+    for (const id of ["1", "2"]) {
+      tracker.get(id)?.finish("failure");
+    }
+  });
+
+  describe("start", () => {
+    it("should send an immediate acknowledgment when a token is provided", () => {
+      tracker.start(1, "deep_research", "tok-a");
+
+      assert.strictEqual(sent.length, 1);
+      assert.strictEqual(sent[0].progress, 0);
+      assert.strictEqual(sent[0].message, "Starting deep_research");
+    });
+
+    it("should not send anything without a progress token", async () => {
+      const operation = tracker.start(1, "quick_query");
+      operation.report("output", { kind: "tool_use", message: "reading a.ts" });
+      await sleep(50);
+      operation.finish("success");
+
+      assert.strictEqual(sent.length, 0);
+    });
+
+    it("should track operations by request ID", () => {
+      tracker.start(1, "deep_research", "tok-a");
+      tracker.start(2, "quick_query", "tok-b");
+
+      assert.strictEqual(tracker.activeCount, 2);
+      assert.strictEqual(tracker.get(1)?.operationName, "deep_research");
+      assert.strictEqual(tracker.get("2")?.operationName, "quick_query");
+    });
+  });
+
+  describe("concurrent operations", () => {
+    it("should keep separate output previews", () => {
+      const a = tracker.start(1, "deep_research", "tok-a");
+      const b = tracker.start(2, "quick_query", "tok-b");
+
+      a.report("analysis of auth");
+      b.report("quick answer");
+
+      assert.strictEqual(a.outputPreview, "analysis of auth");
+      assert.strictEqual(b.outputPreview, "quick answer");
+    });
+
+    it("should keep the other keepalive running when one finishes", async () => {
+      const a = tracker.start(1, "deep_research", "tok-a");
+      const b = tracker.start(2, "quick_query", "tok-b");
+
+      b.finish("success");
+      const countAfterFinish = sentFor("tok-b").length;
+
+      await sleep(70);
+
+      assert.ok(sentFor("tok-a").length > 2, "deep_research keepalives should continue");
+      assert.strictEqual(sentFor("tok-b").length, countAfterFinish, "quick_query should stop");
+      assert.strictEqual(tracker.activeCount, 1);
+
+      a.finish("success");
+      assert.strictEqual(tracker.activeCount, 0);
+    });
+
+    it("should send final notifications to the right token", () => {
+      const a = tracker.start(1, "deep_research", "tok-a");
+      const b = tracker.start(2, "quick_query", "tok-b");
+
+      b.finish("failure");
+      a.finish("success");
+
+      const lastA = sentFor("tok-a").at(-1);
+      const lastB = sentFor("tok-b").at(-1);
+      assert.ok(lastA?.message?.includes("deep_research completed successfully"));
+      assert.ok(lastB?.message?.includes("quick_query failed"));
+    });
+  });
+
+  describe("report", () => {
+    it("should send tool-use events immediately with increasing progress", () => {
+      const operation = tracker.start(1, "deep_research", "tok-a");
+      operation.report("", { kind: "tool_use", message: "reading src/auth.ts" });
+      operation.report("", { kind: "tool_use", message: "reading src/db.ts" });
+
+      const notifications = sentFor("tok-a");
+      assert.strictEqual(notifications.length, 3);
+      assert.strictEqual(notifications[1].message, "deep_research - reading src/auth.ts");
+      assert.ok(notifications[2].progress > notifications[1].progress);
+    });
+
+    it("should throttle partial text notifications", () => {
+      const throttled = new ProgressTracker(notify, { keepaliveIntervalMs: 1000, throttleMs: 10000 });
+      const operation = throttled.start(1, "deep_research", "tok-a");
+
+      operation.report("one ", { kind: "text", message: "one " });
+      operation.report("two", { kind: "text", message: "two" });
+
+      // Only the acknowledgment - text is throttled
+      assert.strictEqual(sentFor("tok-a").length, 1);
+      assert.strictEqual(operation.outputPreview, "one two");
+      operation.finish("success");
+    });
+  });
+
+  describe("finish", () => {
+    it("should send a final progress greater than any previous value", () => {
+      const operation = tracker.start(1, "deep_research", "tok-a");
+      for (let i = 0; i < 120; i++) {
+        operation.report("", { kind: "tool_use", message: `step ${i}` });
+      }
+      operation.finish("success");
+
+      const notifications = sentFor("tok-a");
+      const final = notifications.at(-1)!;
+      assert.strictEqual(final.progress, final.total);
+      assert.ok(final.progress > notifications.at(-2)!.progress);
+    });
+
+    it("should report cancellation", () => {
+      const operation = tracker.start(1, "deep_research", "tok-a");
+      operation.finish("cancelled");
+
+      assert.ok(sentFor("tok-a").at(-1)?.message?.includes("cancelled"));
+    });
+
+    it("should be idempotent", () => {
+      const operation = tracker.start(1, "deep_research", "tok-a");
+      operation.finish("success");
+      operation.finish("failure");
+
+      assert.strictEqual(sentFor("tok-a").length, 2);
+      assert.strictEqual(operation.isFinished, true);
+    });
+  });
+});
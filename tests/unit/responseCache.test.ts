@@ -5,6 +5,9 @@
 
 import { describe, it, beforeEach, afterEach } from "node:test";
 import assert from "node:assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
 
 import {
   generateCacheKey,
@@ -17,7 +20,10 @@ import {
   clearExpired,
   clearAll,
   getCacheStats,
+  isEvicted,
+  peekResponse,
 } from "../../src/utils/responseCache.js";
+import { resetStateStores } from "../../src/utils/stateStore.js";
 import type { CachedChunk } from "../../src/types.js";
 
 describe("responseCache", () => {
@@ -340,6 +346,13 @@ describe("responseCache", () => {
       assert.strictEqual(stats.size, 3);
     });
 
+    it("should count the original response in totalBytes", () => {
+      const key = cacheResponse([{ content: "abc", index: 1, total: 1 }], 60000, "abcdef");
+
+      assert.strictEqual(getResponse(key)?.response, "abcdef");
+      assert.strictEqual(getCacheStats().totalBytes, 9);
+    });
+
     it("should track oldest and newest entries", () => {
       const chunks: CachedChunk[] = [{ content: "Test", index: 1, total: 1 }];
 
@@ -361,6 +374,117 @@ describe("responseCache", () => {
     });
   });
 
+  describe("LRU eviction", () => {
+    const savedMaxEntries = process.env.BGMCP_CACHE_MAX_ENTRIES;
+    const savedMaxBytes = process.env.BGMCP_CACHE_MAX_BYTES;
+    const single = (content: string): CachedChunk[] => [{ content, index: 1, total: 1 }];
+
+    afterEach(() => {
+      if (savedMaxEntries !== undefined) {
+        process.env.BGMCP_CACHE_MAX_ENTRIES = savedMaxEntries;
+      } else {
+        delete process.env.BGMCP_CACHE_MAX_ENTRIES;
+      }
+      if (savedMaxBytes !== undefined) {
+        process.env.BGMCP_CACHE_MAX_BYTES = savedMaxBytes;
+      } else {
+        delete process.env.BGMCP_CACHE_MAX_BYTES;
+      }
+    });
+
+    it("should evict the least recently used entry beyond maxEntries", () => {
+      process.env.BGMCP_CACHE_MAX_ENTRIES = "2";
+
+      const first = cacheResponse(single("first"));
+      const second = cacheResponse(single("second"));
+      getResponse(first); // first is now more recently used than second
+      const third = cacheResponse(single("third"));
+
+      assert.ok(hasValidCache(first));
+      assert.strictEqual(hasValidCache(second), false);
+      assert.ok(hasValidCache(third));
+      assert.ok(isEvicted(second));
+      assert.strictEqual(isEvicted(first), false);
+    });
+
+    it("should not mark entries as used when peeking", () => {
+      process.env.BGMCP_CACHE_MAX_ENTRIES = "2";
+
+      const first = cacheResponse(single("first"));
+      const second = cacheResponse(single("second"));
+      assert.strictEqual(peekResponse(first)?.chunks[0].content, "first");
+      cacheResponse(single("third"));
+
+      assert.ok(isEvicted(first));
+      assert.ok(hasValidCache(second));
+      assert.strictEqual(peekResponse("cache_missing"), null);
+    });
+
+    it("should evict entries until the cache fits maxBytes", () => {
+      process.env.BGMCP_CACHE_MAX_BYTES = "10";
+
+      const first = cacheResponse(single("aaaa"));
+      const second = cacheResponse(single("bbbb"));
+      const third = cacheResponse(single("cccc"));
+
+      assert.strictEqual(hasValidCache(first), false);
+      assert.ok(hasValidCache(second));
+      assert.ok(hasValidCache(third));
+      assert.strictEqual(getCacheStats().totalBytes, 8);
+    });
+
+    it("should count UTF-8 bytes rather than characters", () => {
+      process.env.BGMCP_CACHE_MAX_BYTES = "8";
+
+      const first = cacheResponse(single("éé"));
+      cacheResponse(single("éé"));
+      assert.deepStrictEqual([getCacheStats().totalBytes, getCacheStats().evictions], [8, 0]);
+
+      cacheResponse(single("é"));
+      assert.strictEqual(hasValidCache(first), false);
+      assert.strictEqual(getCacheStats().totalBytes, 6);
+    });
+
+    it("should keep the newest entry even if it exceeds maxBytes", () => {
+      process.env.BGMCP_CACHE_MAX_BYTES = "4";
+
+      const key = cacheResponse(single("larger than the limit"));
+
+      assert.ok(hasValidCache(key));
+    });
+
+    it("should report evictions in getCacheStats", () => {
+      process.env.BGMCP_CACHE_MAX_ENTRIES = "1";
+
+      cacheResponse(single("one"));
+      cacheResponse(single("two"));
+      cacheResponse(single("three"));
+
+      const stats = getCacheStats();
+      assert.strictEqual(stats.size, 1);
+      assert.strictEqual(stats.evictions, 2);
+    });
+
+    it("should forget evictions on clearAll", () => {
+      process.env.BGMCP_CACHE_MAX_ENTRIES = "1";
+
+      const first = cacheResponse(single("one"));
+      cacheResponse(single("two"));
+      clearAll();
+
+      assert.strictEqual(isEvicted(first), false);
+      assert.strictEqual(getCacheStats().evictions, 0);
+    });
+
+    it("should not report expired or unknown keys as evicted", () => {
+      const key = cacheResponse(single("old"), -1);
+
+      assert.strictEqual(getResponse(key), null);
+      assert.strictEqual(isEvicted(key), false);
+      assert.strictEqual(isEvicted("cache_unknown"), false);
+    });
+  });
+
   describe("1-hour TTL behavior", () => {
     it("should use default 1-hour (3600000ms) TTL", () => {
       const chunks: CachedChunk[] = [{ content: "Test", index: 1, total: 1 }];
@@ -378,4 +502,106 @@ describe("responseCache", () => {
       );
     });
   });
+
+  describe("disk store", () => {
+    const stateDir = path.join(os.tmpdir(), "test-response-cache-" + Date.now());
+    const savedStorage = process.env.BGMCP_STORAGE;
+    const savedStateDir = process.env.BGMCP_STATE_DIR;
+
+    beforeEach(() => {
+      process.env.BGMCP_STORAGE = "disk";
+      process.env.BGMCP_STATE_DIR = stateDir;
+      resetStateStores();
+    });
+
+    afterEach(() => {
+      clearAll();
+      if (savedStorage !== undefined) {
+        process.env.BGMCP_STORAGE = savedStorage;
+      } else {
+        delete process.env.BGMCP_STORAGE;
+      }
+      if (savedStateDir !== undefined) {
+        process.env.BGMCP_STATE_DIR = savedStateDir;
+      } else {
+        delete process.env.BGMCP_STATE_DIR;
+      }
+      resetStateStores();
+      fs.rmSync(stateDir, { recursive: true, force: true });
+    });
+
+    it("should serve chunks after a restart", () => {
+      const chunks: CachedChunk[] = [
+        { content: "First", index: 1, total: 2 },
+        { content: "Second", index: 2, total: 2 },
+      ];
+      const key = cacheResponse(chunks);
+
+      // A new store instance reads the entry back from disk
+      resetStateStores();
+
+      assert.strictEqual(getChunk(key, 2)?.content, "Second");
+      assert.strictEqual(getCacheMetadata(key)?.totalChunks, 2);
+      assert.strictEqual(getChunk(key, 3), null);
+    });
+
+    it("should not serve expired entries after a restart", () => {
+      const key = cacheResponse([{ content: "Old", index: 1, total: 1 }], -1);
+      resetStateStores();
+
+      assert.strictEqual(getResponse(key), null);
+      assert.strictEqual(hasValidCache(key), false);
+    });
+
+    it("should return null for unknown keys", () => {
+      assert.strictEqual(getResponse("cache_missing"), null);
+      assert.strictEqual(getChunk("../cache_missing", 1), null);
+    });
+
+    it("should report entries evicted by the disk size cap as evicted", () => {
+      const savedMaxBytes = process.env.BGMCP_STATE_MAX_BYTES;
+      process.env.BGMCP_STATE_MAX_BYTES = "300";
+      resetStateStores();
+
+      try {
+        const first = cacheResponse([{ content: "a".repeat(200), index: 1, total: 1 }]);
+        const second = cacheResponse([{ content: "b".repeat(200), index: 1, total: 1 }]);
+
+        assert.strictEqual(hasValidCache(first), false);
+        assert.ok(hasValidCache(second));
+        assert.ok(isEvicted(first));
+        assert.strictEqual(getCacheStats().evictions, 1);
+      } finally {
+        if (savedMaxBytes !== undefined) {
+          process.env.BGMCP_STATE_MAX_BYTES = savedMaxBytes;
+        } else {
+          delete process.env.BGMCP_STATE_MAX_BYTES;
+        }
+      }
+    });
+
+    it("should index entries left by a previous run for LRU eviction", () => {
+      const savedMaxEntries = process.env.BGMCP_CACHE_MAX_ENTRIES;
+      process.env.BGMCP_CACHE_MAX_ENTRIES = "2";
+
+      try {
+        const first = cacheResponse([{ content: "first", index: 1, total: 1 }]);
+        const second = cacheResponse([{ content: "second", index: 1, total: 1 }]);
+        resetStateStores();
+
+        getResponse(first);
+        const third = cacheResponse([{ content: "third", index: 1, total: 1 }]);
+
+        assert.ok(hasValidCache(first));
+        assert.ok(isEvicted(second));
+        assert.ok(hasValidCache(third));
+      } finally {
+        if (savedMaxEntries !== undefined) {
+          process.env.BGMCP_CACHE_MAX_ENTRIES = savedMaxEntries;
+        } else {
+          delete process.env.BGMCP_CACHE_MAX_ENTRIES;
+        }
+      }
+    });
+  });
 });
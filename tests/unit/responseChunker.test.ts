@@ -1,6 +1,7 @@
 /**
  * Unit tests for responseChunker utility
- * Tests chunking at 10KB boundary and chunk metadata
+ * Tests chunking at 10KB boundary, UTF-8 byte sizing, token budgets, chunk metadata
+ * and the table of contents
  */
 
 import { describe, it, beforeEach, afterEach } from "node:test";
@@ -11,10 +12,21 @@ import {
   needsChunking,
   estimateChunkCount,
   getChunkSizeKB,
+  getChunkMaxTokens,
+  estimateTokens,
+  buildTableOfContents,
+  findSectionRange,
 } from "../../src/utils/responseChunker.js";
 
+/**
+ * Matches a high surrogate not followed by a low one, or a stray low surrogate
+ */
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+
 describe("responseChunker", () => {
   const originalEnv = process.env.RESPONSE_CHUNK_SIZE_KB;
+  const originalTokensEnv = process.env.BGMCP_RESPONSE_CHUNK_MAX_TOKENS;
+  const originalSizeEnv = process.env.BGMCP_RESPONSE_CHUNK_SIZE_KB;
 
   afterEach(() => {
     // Restore original env
@@ -23,6 +35,16 @@ describe("responseChunker", () => {
     } else {
       delete process.env.RESPONSE_CHUNK_SIZE_KB;
     }
+    if (originalTokensEnv !== undefined) {
+      process.env.BGMCP_RESPONSE_CHUNK_MAX_TOKENS = originalTokensEnv;
+    } else {
+      delete process.env.BGMCP_RESPONSE_CHUNK_MAX_TOKENS;
+    }
+    if (originalSizeEnv !== undefined) {
+      process.env.BGMCP_RESPONSE_CHUNK_SIZE_KB = originalSizeEnv;
+    } else {
+      delete process.env.BGMCP_RESPONSE_CHUNK_SIZE_KB;
+    }
   });
 
   describe("chunkResponse", () => {
@@ -123,6 +145,190 @@ describe("responseChunker", () => {
     });
   });
 
+  describe("markdown structure", () => {
+    const fenceLines = (content: string): string[] => content.split("\n").filter((line) => line.startsWith("```"));
+    const codeBlock = (lines: number): string =>
+      "```ts\n" + Array.from({ length: lines }, (_, i) => `const value${i} = ${i}; // padding text`).join("\n") + "\n```\n";
+
+    it("should prefer section boundaries", () => {
+      const section = (title: string): string => `## ${title}\n\n${"Sentence in a paragraph.\n".repeat(25)}\n`;
+      const response = `# Report\n\n${section("First")}${section("Second")}${section("Third")}`;
+
+      const chunks = chunkResponse(response, 1);
+
+      assert.ok(chunks.length > 1);
+      for (const chunk of chunks.slice(1)) {
+        assert.match(chunk.content, /^_Continued from: Report_\n\n## /);
+      }
+    });
+
+    it("should keep a code fence whole when it fits in a chunk", () => {
+      const response = "Intro.\n".repeat(100) + "\n" + codeBlock(20) + "\nOutro.\n";
+
+      const chunks = chunkResponse(response, 1);
+
+      const withFence = chunks.filter((chunk) => chunk.content.includes("```ts"));
+      assert.strictEqual(withFence.length, 1);
+      assert.strictEqual(fenceLines(withFence[0].content).length, 2);
+      assert.ok(withFence[0].content.includes("const value0") && withFence[0].content.includes("const value19"));
+    });
+
+    it("should close and reopen a fence that must be split", () => {
+      const response = "## Example\n\n" + codeBlock(100) + "\nDone.\n";
+
+      const chunks = chunkResponse(response, 1);
+
+      assert.ok(chunks.length > 2);
+      for (const chunk of chunks) {
+        assert.strictEqual(fenceLines(chunk.content).length % 2, 0, `Unbalanced fence in chunk ${chunk.index}`);
+        assert.ok(chunk.content.length <= 1024, `Chunk ${chunk.index} is ${chunk.content.length} chars`);
+      }
+      assert.match(chunks[1].content, /^_Continued from: Example_\n\n```ts\nconst value/);
+
+      // Every code line survives exactly once
+      const code = chunks.map((chunk) => chunk.content).join("").match(/const value\d+ =/g) ?? [];
+      assert.strictEqual(code.length, 100);
+    });
+
+    it("should repeat the header row when a table must be split", () => {
+      const rows = Array.from({ length: 80 }, (_, i) => `| row ${i} | value ${i} |`).join("\n");
+      const response = `| Name | Value |\n| --- | ---: |\n${rows}\n`;
+
+      const chunks = chunkResponse(response, 1);
+
+      assert.ok(chunks.length > 1);
+      for (const chunk of chunks) {
+        assert.ok(chunk.content.startsWith("| Name | Value |\n| --- | ---: |\n"), `Chunk ${chunk.index} lacks header`);
+      }
+    });
+
+    it("should keep a table whole when it fits in a chunk", () => {
+      const rows = Array.from({ length: 10 }, (_, i) => `| row ${i} | value ${i} |`).join("\n");
+      const response = "Text line.\n".repeat(80) + `\n| Name | Value |\n|---|---|\n${rows}\n\nAfter.\n`;
+
+      const chunks = chunkResponse(response, 1);
+
+      const withTable = chunks.filter((chunk) => chunk.content.includes("| row "));
+      assert.strictEqual(withTable.length, 1);
+      assert.ok(withTable[0].content.includes("| Name | Value |"));
+    });
+
+    it("should build the breadcrumb from nested headings", () => {
+      const response =
+        "# Guide\n\n## Install\n\n### Linux\n\n" + "Step text for the install.\n".repeat(60) + "\n## Usage\n\nRun it.\n";
+
+      const chunks = chunkResponse(response, 1);
+
+      assert.ok(chunks[1].content.startsWith("_Continued from: Guide › Install › Linux_\n\n"));
+      assert.ok(chunks.at(-1)!.content.includes("## Usage"));
+    });
+
+    it("should ignore heading-like lines inside code fences", () => {
+      const response = "# Title\n\n```sh\n# not a heading\n" + "echo line\n".repeat(150) + "```\n";
+
+      const chunks = chunkResponse(response, 1);
+
+      assert.ok(chunks[1].content.startsWith("_Continued from: Title_\n\n```sh\n"));
+    });
+
+    it("should not add context to plain text", () => {
+      const response = Array.from({ length: 200 }, (_, i) => `Plain line ${i}`).join("\n");
+
+      const chunks = chunkResponse(response, 1);
+
+      assert.strictEqual(chunks.map((chunk) => chunk.content).join(""), response);
+    });
+  });
+
+  describe("UTF-8 and token sizing", () => {
+    it("should keep every chunk within the byte limit for multi-byte text", () => {
+      const response = "漢字テキスト".repeat(1000); // 3 bytes per character
+      const chunks = chunkResponse(response, 1);
+
+      for (const chunk of chunks) {
+        assert.ok(Buffer.byteLength(chunk.content, "utf-8") <= 1024, `Chunk ${chunk.index} exceeds 1KB`);
+      }
+      assert.strictEqual(chunks.map((c) => c.content).join(""), response);
+      assert.ok(chunks.length >= 18, `Expected at least 18 chunks, got ${chunks.length}`);
+    });
+
+    it("should never split a surrogate pair", () => {
+      const response = "a" + "😀".repeat(2000); // odd offset, 4 bytes per emoji
+      const chunks = chunkResponse(response, 1);
+
+      assert.ok(chunks.length > 1);
+      for (const chunk of chunks) {
+        assert.ok(!LONE_SURROGATE.test(chunk.content), `Chunk ${chunk.index} has a lone surrogate`);
+        assert.ok(Buffer.byteLength(chunk.content, "utf-8") <= 1024);
+      }
+      assert.strictEqual(chunks.map((c) => c.content).join(""), response);
+    });
+
+    it("should keep every chunk within the token budget", () => {
+      const response = Array.from({ length: 200 }, (_, i) => `Line ${i} with some words`).join("\n");
+      const chunks = chunkResponse(response, 10, 100);
+
+      assert.ok(chunks.length > 1);
+      for (const chunk of chunks) {
+        assert.ok(estimateTokens(chunk.content) <= 100, `Chunk ${chunk.index} exceeds 100 tokens`);
+      }
+      assert.strictEqual(chunks.map((c) => c.content).join(""), response);
+    });
+
+    it("should estimate tokens conservatively for non-ASCII text", () => {
+      assert.strictEqual(estimateTokens(""), 0);
+      assert.strictEqual(estimateTokens("abcdefgh"), 2);
+      assert.strictEqual(estimateTokens("漢字"), 2);
+      assert.strictEqual(estimateTokens("😀"), 1);
+    });
+
+    it("should read the token budget from config and the environment", () => {
+      delete process.env.BGMCP_RESPONSE_CHUNK_MAX_TOKENS;
+      assert.strictEqual(getChunkMaxTokens(), undefined);
+
+      process.env.BGMCP_RESPONSE_CHUNK_MAX_TOKENS = "2000";
+      assert.strictEqual(getChunkMaxTokens(), 2000);
+
+      process.env.BGMCP_RESPONSE_CHUNK_MAX_TOKENS = "invalid";
+      assert.strictEqual(getChunkMaxTokens(), undefined);
+
+      assert.strictEqual(getChunkMaxTokens({ chunking: { maxTokens: 500 } }), 500);
+    });
+  });
+
+  describe("table of contents", () => {
+    const chunks = [
+      { content: "# Report\n\nIntro.\n\n## Setup\n\nSteps.\n", index: 1, total: 4 },
+      { content: "_Continued from: Report › Setup_\n\nMore steps.\n```md\n# Not a heading\n```\n", index: 2, total: 4 },
+      { content: "_Continued from: Report_\n\n## Security\n\nFindings.\n", index: 3, total: 4 },
+      { content: "_Continued from: Report › Security_\n\nMore findings.\n\n## Summary\n\nDone.\n", index: 4, total: 4 },
+    ];
+
+    it("should list headings with their chunk, skipping breadcrumbs and fenced code", () => {
+      assert.deepStrictEqual(buildTableOfContents(chunks), [
+        { level: 1, title: "Report", chunkIndex: 1 },
+        { level: 2, title: "Setup", chunkIndex: 1 },
+        { level: 2, title: "Security", chunkIndex: 3 },
+        { level: 2, title: "Summary", chunkIndex: 4 },
+      ]);
+    });
+
+    it("should find the chunks a section spans", () => {
+      // Security starts chunk 3, so Setup ends in chunk 2
+      assert.deepStrictEqual(findSectionRange(chunks, "Setup"), { fromIndex: 1, toIndex: 2 });
+      // Summary is in the middle of chunk 4, so Security runs into it
+      assert.deepStrictEqual(findSectionRange(chunks, "security"), { fromIndex: 3, toIndex: 4 });
+      assert.deepStrictEqual(findSectionRange(chunks, "## Summary"), { fromIndex: 4, toIndex: 4 });
+      assert.deepStrictEqual(findSectionRange(chunks, "Report"), { fromIndex: 1, toIndex: 4 });
+    });
+
+    it("should fall back to a partial title match", () => {
+      assert.deepStrictEqual(findSectionRange(chunks, "secur"), { fromIndex: 3, toIndex: 4 });
+      assert.strictEqual(findSectionRange(chunks, "Performance"), null);
+      assert.strictEqual(findSectionRange(chunks, " "), null);
+    });
+  });
+
   describe("needsChunking", () => {
     it("should return false for small response", () => {
       const smallResponse = "Small content";
@@ -151,9 +357,25 @@ describe("responseChunker", () => {
       assert.strictEqual(needsChunking(under10KB), false);
       assert.strictEqual(needsChunking(over10KB), true);
     });
+
+    it("should measure multi-byte text in UTF-8 bytes", () => {
+      const response = "漢".repeat(4 * 1024); // 4K characters, 12KB
+      assert.strictEqual(needsChunking(response, 10), true);
+    });
+
+    it("should apply the token budget when given", () => {
+      const response = "X".repeat(2000); // ~500 tokens
+      assert.strictEqual(needsChunking(response, 10, 1000), false);
+      assert.strictEqual(needsChunking(response, 10, 400), true);
+    });
   });
 
   describe("estimateChunkCount", () => {
+    it("should count UTF-8 bytes and tokens", () => {
+      assert.strictEqual(estimateChunkCount("é".repeat(1024), 1), 2); // 2048 bytes
+      assert.strictEqual(estimateChunkCount("x".repeat(800), 10, 100), 2); // 200 tokens
+    });
+
     it("should return 1 for small response", () => {
       const smallResponse = "Small";
       assert.strictEqual(estimateChunkCount(smallResponse, 10), 1);
@@ -205,6 +427,14 @@ describe("responseChunker", () => {
       const size = getChunkSizeKB();
       assert.strictEqual(size, 10); // Should fall back to default
     });
+
+    it("should prefer the configured size over the legacy variable", () => {
+      process.env.RESPONSE_CHUNK_SIZE_KB = "20";
+      process.env.BGMCP_RESPONSE_CHUNK_SIZE_KB = "30";
+      assert.strictEqual(getChunkSizeKB(), 30);
+
+      assert.strictEqual(getChunkSizeKB({ chunking: { sizeKB: 4 } }), 4);
+    });
   });
 
   describe("10KB boundary (default)", () => {
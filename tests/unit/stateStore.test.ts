@@ -0,0 +1,223 @@
+/**
+ * Unit tests for stateStore utility
+ * Tests memory/disk parity, atomic writes, TTL on load and the size cap
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+import {
+  createMemoryStore,
+  createDiskStore,
+  defineStateStore,
+  resetStateStores,
+  type StateStore,
+} from "../../src/utils/stateStore.js";
+
+interface TestEntry {
+  createdAt: number;
+  expiresAt?: number;
+  value: string;
+}
+
+const ENV_KEYS = ["BGMCP_STORAGE", "BGMCP_STATE_DIR", "BGMCP_STATE_MAX_BYTES"];
+
+describe("stateStore", () => {
+  const testDir = path.join(os.tmpdir(), "test-state-store-" + Date.now());
+  const savedEnv: Record<string, string | undefined> = {};
+
+  const entry = (value: string, ttlMs?: number): TestEntry => ({
+    createdAt: Date.now(),
+    ...(ttlMs !== undefined && { expiresAt: Date.now() + ttlMs }),
+    value,
+  });
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+    resetStateStores();
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] !== undefined) {
+        process.env[key] = savedEnv[key];
+      } else {
+        delete process.env[key];
+      }
+    }
+    resetStateStores();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const factories: Array<[string, () => StateStore<TestEntry>]> = [
+    ["memory", () => createMemoryStore<TestEntry>()],
+    ["disk", () => createDiskStore<TestEntry>(path.join(testDir, "parity"), { maxBytes: 1024 * 1024 })],
+  ];
+
+  for (const [type, create] of factories) {
+    describe(`${type} store`, () => {
+      it("should store and return entries", () => {
+        const store = create();
+        store.set("key_1", entry("one", 60000));
+
+        assert.strictEqual(store.type, type);
+        assert.strictEqual(store.get("key_1")?.value, "one");
+        assert.strictEqual(store.get("key_missing"), null);
+      });
+
+      it("should drop expired entries on read", () => {
+        const store = create();
+        store.set("key_old", entry("old", -1));
+        store.set("key_new", entry("new", 60000));
+        store.set("key_forever", entry("forever"));
+
+        assert.strictEqual(store.get("key_old"), null);
+        assert.deepStrictEqual(store.entries().map(([key]) => key).sort(), ["key_forever", "key_new"]);
+      });
+
+      it("should count removed entries in clearExpired", () => {
+        const store = create();
+        store.set("key_a", entry("a", -1));
+        store.set("key_b", entry("b", -1));
+        store.set("key_c", entry("c", 60000));
+
+        assert.strictEqual(store.clearExpired(), 2);
+        assert.strictEqual(store.entries().length, 1);
+      });
+
+      it("should delete and clear entries", () => {
+        const store = create();
+        store.set("key_a", entry("a"));
+        store.set("key_b", entry("b"));
+
+        assert.strictEqual(store.delete("key_a"), true);
+        assert.strictEqual(store.delete("key_a"), false);
+
+        store.clear();
+        assert.strictEqual(store.entries().length, 0);
+      });
+    });
+  }
+
+  describe("disk store", () => {
+    const dir = path.join(testDir, "disk");
+
+    it("should keep entries across store instances", () => {
+      createDiskStore<TestEntry>(dir, { maxBytes: 1024 * 1024 }).set("key_1", entry("persisted", 60000));
+
+      const reopened = createDiskStore<TestEntry>(dir, { maxBytes: 1024 * 1024 });
+      assert.strictEqual(reopened.get("key_1")?.value, "persisted");
+    });
+
+    it("should write atomically without leaving temp files", () => {
+      const store = createDiskStore<TestEntry>(dir, { maxBytes: 1024 * 1024 });
+      store.set("key_1", entry("first"));
+      store.set("key_1", entry("second"));
+
+      assert.deepStrictEqual(fs.readdirSync(dir), ["key_1.json"]);
+      assert.strictEqual(store.get("key_1")?.value, "second");
+    });
+
+    it("should remove expired entries when the store is loaded", () => {
+      createDiskStore<TestEntry>(dir, { maxBytes: 1024 * 1024 }).set("key_old", entry("old", -1));
+      assert.ok(fs.existsSync(path.join(dir, "key_old.json")));
+
+      createDiskStore<TestEntry>(dir, { maxBytes: 1024 * 1024 });
+      assert.ok(!fs.existsSync(path.join(dir, "key_old.json")));
+    });
+
+    it("should evict the oldest entries beyond the size cap", () => {
+      const store = createDiskStore<TestEntry>(dir, { maxBytes: 250 });
+      const padding = "x".repeat(60);
+
+      store.set("key_1", entry(padding));
+      fs.utimesSync(path.join(dir, "key_1.json"), new Date(1000), new Date(1000));
+      store.set("key_2", entry(padding));
+      fs.utimesSync(path.join(dir, "key_2.json"), new Date(2000), new Date(2000));
+      store.set("key_3", entry(padding));
+
+      assert.strictEqual(store.get("key_1"), null);
+      assert.ok(store.get("key_2"));
+      assert.ok(store.get("key_3"));
+    });
+
+    it("should report size-cap evictions to onEvict", () => {
+      const evicted: string[] = [];
+      const store = createDiskStore<TestEntry>(dir, { maxBytes: 150, onEvict: (key) => evicted.push(key) });
+      const padding = "x".repeat(60);
+
+      store.set("key_1", entry(padding));
+      store.set("key_2", entry(padding));
+
+      assert.deepStrictEqual(evicted, ["key_1"]);
+    });
+
+    it("should keep the newest entry even if it exceeds the cap", () => {
+      const store = createDiskStore<TestEntry>(dir, { maxBytes: 10 });
+      store.set("key_big", entry("x".repeat(100)));
+
+      assert.ok(store.get("key_big"));
+    });
+
+    it("should reject keys that are not plain file names", () => {
+      const store = createDiskStore<TestEntry>(dir, { maxBytes: 1024 * 1024 });
+
+      assert.strictEqual(store.get("../../etc/passwd"), null);
+      assert.strictEqual(store.delete("../key"), false);
+      assert.throws(() => store.set("../key", entry("escape")), /Invalid state store key/);
+    });
+
+    it("should treat corrupt entries as missing", () => {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, "key_bad.json"), "{not json");
+
+      const store = createDiskStore<TestEntry>(dir, { maxBytes: 1024 * 1024 });
+      assert.strictEqual(store.get("key_bad"), null);
+      assert.ok(!fs.existsSync(path.join(dir, "key_bad.json")));
+    });
+  });
+
+  describe("defineStateStore", () => {
+    it("should use a memory store by default and keep it", () => {
+      const cacheStore = defineStateStore<TestEntry>("cache");
+      const store = cacheStore();
+      assert.strictEqual(store.type, "memory");
+      assert.strictEqual(cacheStore(), store);
+      assert.notStrictEqual(defineStateStore<TestEntry>("jobs")(), store);
+    });
+
+    it("should use a disk store under the state directory when configured", () => {
+      process.env.BGMCP_STORAGE = "disk";
+      process.env.BGMCP_STATE_DIR = testDir;
+
+      const cacheStore = defineStateStore<TestEntry>("cache");
+      const store = cacheStore();
+      store.set("key_1", entry("on disk", 60000));
+
+      assert.strictEqual(store.type, "disk");
+      assert.ok(fs.existsSync(path.join(testDir, "cache", "key_1.json")));
+
+      resetStateStores();
+      assert.notStrictEqual(cacheStore(), store);
+      assert.strictEqual(cacheStore().get("key_1")?.value, "on disk");
+    });
+
+    it("should keep its store when storage settings change until reset", () => {
+      const cacheStore = defineStateStore<TestEntry>("cache");
+      const store = cacheStore();
+
+      process.env.BGMCP_STORAGE = "disk";
+      process.env.BGMCP_STATE_DIR = testDir;
+      assert.strictEqual(cacheStore(), store);
+
+      resetStateStores();
+      assert.strictEqual(cacheStore().type, "disk");
+    });
+  });
+});